@@ -1,57 +1,189 @@
-import { useMemo, useState, useEffect } from 'react';
-import { Box, Typography, Stack, Paper, CircularProgress, Alert, Button } from '@mui/material';
+import { useCallback, useMemo, useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  Stack,
+  Paper,
+  CircularProgress,
+  Alert,
+  Button,
+  FormControlLabel,
+  Switch,
+  Snackbar,
+  ToggleButton,
+  ToggleButtonGroup
+} from '@mui/material';
+import { Link2 } from 'lucide-react';
 import { FilterBuilder } from './components/FilterBuilder';
 import { DataTable } from './components/DataTable';
+import { QueryPreview } from './components/QueryPreview';
+import { QuickSearch } from './components/QuickSearch';
 import { FilterEngine } from './utils/filterEngine';
 import { FilterValidator } from './utils/filterValidator';
 import { employeeApi } from './api/employeeApi';
-import { employeeData as defaultEmployeeData } from './data/employees';
+import { employeeData } from './data/employees';
+import { projectData } from './data/projects';
+import { employeeSchema, projectSchema } from './data/schemas';
 import { ExportUtil } from './utils/exportUtil';
-import type { FilterState } from './types';
-import type { Employee } from './types';
+import { FilterStorage } from './utils/filterStorage';
+import { FieldOptions } from './utils/fieldOptions';
+import { ValueSuggestions } from './utils/valueSuggestions';
+import { TextSearch } from './utils/textSearch';
+import { useDebouncedValue } from './utils/debounce';
+import type { LoadedFilterState } from './utils/filterStorage';
+import { ShareLink } from './utils/shareLink';
+import type { DecodedShareLink } from './utils/shareLink';
+import { PresetStore } from './utils/presetStore';
+import { useTabSync } from './hooks/useTabSync';
+import { useFilterHistory } from './hooks/useFilterHistory';
+import { useRegisterCommands } from './hooks/useCommands';
+import { SuggestionContext } from './hooks/useValueSuggestions';
+import type { SuggestionSource } from './hooks/useValueSuggestions';
+import type { DataSchema, FilterChangeOptions, FilterState, SortState } from './types';
+import type { EmployeeSearchParams } from './api/employeeApi';
 import './api/mockApi'; // Initialize mock API
 // Bonus feature: Filter persistence, export to CSV/JSON, regex operators, accessibility, debounced updates
 
-const FILTER_STORAGE_KEY = 'dynamicFilterState';
+// A dataset the app can show: its schema and built-in records, and optionally an API
+// to load the records from and to search them on the server
+interface Dataset {
+  schema: DataSchema<object>;
+  records: object[];
+  fetchRecords?: () => Promise<object[]>;
+  searchRecords?: (params: EmployeeSearchParams) => Promise<{ data: object[]; total: number }>;
+  suggestValues?: SuggestionSource;
+}
 
-function App() {
-  const [employeeData, setEmployeeData] = useState<Employee[]>(defaultEmployeeData);
+const datasets: Dataset[] = [
+  {
+    schema: employeeSchema,
+    records: employeeData,
+    fetchRecords: () => employeeApi.getEmployees(),
+    searchRecords: params => employeeApi.searchEmployees(params),
+    suggestValues: request => employeeApi.getSuggestions(request)
+  },
+  { schema: projectSchema, records: projectData }
+];
+
+interface DatasetViewProps {
+  dataset: Dataset;
+  sharedLink: DecodedShareLink | null;
+  onDatasetChange: (datasetId: string) => void;
+}
+
+function DatasetView({ dataset, sharedLink, onDatasetChange }: DatasetViewProps) {
+  const [records, setRecords] = useState<object[]>(dataset.records);
+  // Fields with derivedOptions get their options from the records, so they follow whatever the API returned
+  const schema = useMemo(() => FieldOptions.resolveSchema(dataset.schema, records), [dataset.schema, records]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [showQuery, setShowQuery] = useState(false);
+  const [linkCopied, setLinkCopied] = useState(false);
+
+  // A shared link (?v=1&f=...) restores filters, sort and page, and wins over localStorage.
+  // Parts of the link that no longer match the schema's fields are skipped and listed in a notice.
+  const [linkWarnings, setLinkWarnings] = useState<string[]>(sharedLink?.warnings ?? []);
+
+  // Table sort/page state lives here so it can be sent to the API in server mode
+  // (and written to the URL)
+  const [sortState, setSortState] = useState<SortState>(
+    sharedLink?.state.sortState ?? { field: null, order: 'asc' }
+  );
+  const [currentPage, setCurrentPage] = useState(sharedLink?.state.currentPage ?? 1);
+  // Quick search - narrows the filtered records down further (debounced, it scans every record)
+  const [searchText, setSearchText] = useState('');
+  const search = useDebouncedValue(searchText, 200);
+  const [itemsPerPage, setItemsPerPage] = useState(sharedLink?.state.itemsPerPage ?? ShareLink.defaultPageSize);
+
+  // Server mode: filtering, sorting and paging are done by the search API (/api/employees/search),
+  // and we only hold the current page in memory. Only datasets with a search API have it.
+  const [serverMode, setServerMode] = useState(false);
+  const [serverResult, setServerResult] = useState<{ data: object[]; total: number } | null>(null);
   
   // Initialize filter state from localStorage so filters persist across page refreshes.
   // When the user creates filters, they stay even if they close and reopen the browser.
-  // If localStorage is empty or corrupted, we fall back to an empty filter state.
-  const [filterState, setFilterState] = useState<FilterState>(() => {
-    try {
-      const stored = localStorage.getItem(FILTER_STORAGE_KEY);
-      return stored ? JSON.parse(stored) : { conditions: [], logicalOperator: 'AND' };
-    } catch {
-      // If localStorage has bad data, just start fresh
-      return { conditions: [], logicalOperator: 'AND' };
-    }
+  // Stored filters from older versions are migrated, and filters that no longer match the
+  // field definitions are repaired or removed - the user gets a notice listing what changed.
+  // A preset starred as default is loaded instead, and repaired the same way (a shared link still wins).
+  const [initialFilters] = useState<LoadedFilterState>(() => {
+    if (sharedLink?.state.filterState) return { filterState: sharedLink.state.filterState, repairs: [] };
+
+    const defaultPreset = PresetStore.getDefault(PresetStore.load(schema));
+    if (defaultPreset) return FilterStorage.repair(schema, defaultPreset.filterState);
+
+    return FilterStorage.load(schema) ?? { filterState: { conditions: [], logicalOperator: 'AND' }, repairs: [] };
   });
+  const [filterState, setFilterState] = useState<FilterState>(initialFilters.filterState);
+  const [storageRepairs, setStorageRepairs] = useState<string[]>(initialFilters.repairs);
+
+  // Any filter change can shrink the results, so go back to the first page
+  const applyFilterState = useCallback((newFilterState: FilterState) => {
+    setFilterState(newFilterState);
+    setCurrentPage(1);
+  }, []);
+
+  // Edits made here can be undone - see useFilterHistory
+  const filterHistory = useFilterHistory(filterState, applyFilterState);
+  const [undoNotice, setUndoNotice] = useState<string | null>(null);
+
+  const handleFiltersChange = (newFilterState: FilterState, options?: FilterChangeOptions) => {
+    filterHistory.record(newFilterState, options);
+    setUndoNotice(options?.undoMessage ?? null);
+    // A loaded preset replaces the filters, so its repairs replace the ones shown before
+    if (options?.repairs) setStorageRepairs(options.repairs);
+  };
+
+  // Filter changes in other tabs show up here too (unless this tab is detached).
+  // They aren't added to this tab's undo history - undo only takes back your own edits.
+  const tabSync = useTabSync(schema, filterState, applyFilterState);
+
+  // Edits reach filterState on every keystroke, so the builder, the undo history and the other tabs
+  // always have the latest filters. Running them over the records waits until typing pauses for 150ms.
+  const appliedFilters = useDebouncedValue(filterState, 150);
 
   // Whenever the filter state changes, save it to localStorage automatically.
   // This way we don't need a "Save" button - filters are saved in the background.
+  // A detached tab keeps its filters to itself, so it doesn't overwrite the ones the other tabs share.
   useEffect(() => {
+    if (!tabSync.detached) FilterStorage.save(schema, filterState);
+  }, [schema, filterState, tabSync.detached]);
+
+  // Keep the URL in sync so the address bar is always a shareable link.
+  // replaceState rather than pushState - every keystroke shouldn't become a history entry.
+  const shareableState = useMemo(
+    () => ({ datasetId: schema.id, filterState, sortState, currentPage, itemsPerPage }),
+    [schema, filterState, sortState, currentPage, itemsPerPage]
+  );
+
+  useEffect(() => {
+    const url = ShareLink.toUrl(window.location.href, shareableState);
+    if (url !== window.location.href) {
+      window.history.replaceState(window.history.state, '', url);
+    }
+  }, [shareableState]);
+
+  const handleCopyLink = async () => {
     try {
-      localStorage.setItem(FILTER_STORAGE_KEY, JSON.stringify(filterState));
+      await navigator.clipboard.writeText(ShareLink.toUrl(window.location.href, shareableState));
+      setLinkCopied(true);
     } catch (err) {
-      console.warn('Failed to save filter state to localStorage:', err);
+      setError(`Could not copy the link: ${err instanceof Error ? err.message : String(err)}`);
     }
-  }, [filterState]);
+  };
 
   // Fetch data from mock API (with fallback to default data)
   useEffect(() => {
-    const fetchEmployees = async () => {
+    const { fetchRecords } = dataset;
+    if (!fetchRecords) return;
+
+    const fetchData = async () => {
       try {
         setLoading(true);
         setError(null);
-        const data = await employeeApi.getEmployees();
+        const data = await fetchRecords();
         // If the API returns real data, use it. Otherwise stick with the default data we already have.
         if (data && data.length > 0) {
-          setEmployeeData(data);
+          setRecords(data);
         }
       } catch (err) {
         console.warn('Mock API failed, using default data:', err);
@@ -61,24 +193,159 @@ function App() {
       }
     };
 
-    fetchEmployees();
-  }, []);
+    fetchData();
+  }, [dataset]);
+
+  // In server mode, ask the API for the current page whenever filters, sort or page change.
+  // Responses that arrive after a newer request was sent are ignored.
+  useEffect(() => {
+    const { searchRecords } = dataset;
+    if (!serverMode || !searchRecords) return;
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    searchRecords({ filter: appliedFilters, sort: sortState, page: currentPage, pageSize: itemsPerPage, search })
+      .then(result => {
+        if (!cancelled) setServerResult(result);
+      })
+      .catch(err => {
+        if (!cancelled) setError(`Search request failed: ${err instanceof Error ? err.message : String(err)}`);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [dataset, serverMode, appliedFilters, sortState, currentPage, itemsPerPage, search]);
 
-  // Apply filters to the employee data. We only include filter conditions that pass validation.
+  // Apply filters to the records. We only include filter conditions that pass validation.
   // Invalid conditions are ignored (with errors shown to the user).
   // This is wrapped in useMemo so we only recalculate when filters or data actually change.
+  // In server mode the API does this, so we skip it.
   const filteredData = useMemo(() => {
-    // Only apply filters that pass validation
-    const validConditions = filterState.conditions.filter(
-      condition => !FilterValidator.validateCondition(condition)
-    );
+    if (serverMode) return [];
+
+    // Only apply filters that pass validation (nested groups are pruned recursively)
+    const validConditions = FilterValidator.getValidNodes(schema, appliedFilters.conditions);
     
-    return FilterEngine.applyFilters(
-      employeeData,
+    const filtered = FilterEngine.applyFilters(
+      schema,
+      records,
       validConditions,
-      filterState.logicalOperator
+      appliedFilters.logicalOperator,
+      appliedFilters.evaluationMode
     );
-  }, [filterState, employeeData]);
+    // The quick search has to match too. Unless a column is sorted, the best matches come first.
+    return TextSearch.search(schema, filtered, search);
+  }, [schema, appliedFilters, records, serverMode, search]);
+
+  // Live counts next to each condition and select option in the builder, so it's easy to see
+  // which condition is eliminating everything. In server mode these come from the records
+  // loaded at startup, which is the same data the mock API searches.
+  const conditionStats = useMemo(
+    () => FilterEngine.getConditionStats(schema, records, appliedFilters),
+    [schema, records, appliedFilters]
+  );
+
+  // Text inputs suggest values as you type - from the server in server mode, from the loaded records otherwise
+  const suggestValues = useCallback<SuggestionSource>(
+    request =>
+      serverMode && dataset.suggestValues
+        ? dataset.suggestValues(request)
+        : Promise.resolve(ValueSuggestions.suggest(schema, records, request)),
+    [dataset, serverMode, schema, records]
+  );
+
+  // Exports cover every match, not just the page on screen - in server mode that means fetching them all
+  const getExportData = async (): Promise<object[]> => {
+    if (!serverMode || !dataset.searchRecords) return filteredData;
+
+    const result = await dataset.searchRecords({
+      filter: appliedFilters,
+      sort: sortState,
+      search,
+      page: 1,
+      pageSize: Math.max(serverResult?.total ?? 0, 1)
+    });
+    return result.data;
+  };
+
+  const handleExport = async (format: 'json' | 'csv') => {
+    try {
+      const data = await getExportData();
+      if (format === 'json') {
+        ExportUtil.exportToJSON(schema, data, filterState);
+      } else {
+        ExportUtil.exportToCSV(schema, data);
+      }
+    } catch (err) {
+      setError(`Export failed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  // Keyboard shortcuts and command palette entries (see CommandProvider)
+  useRegisterCommands([
+    {
+      id: 'history.undo',
+      label: 'Undo',
+      group: 'Filters',
+      shortcuts: ['Ctrl+Z'],
+      disabled: !filterHistory.canUndo,
+      run: filterHistory.undo
+    },
+    {
+      id: 'history.redo',
+      label: 'Redo',
+      group: 'Filters',
+      shortcuts: ['Ctrl+Shift+Z', 'Ctrl+Y'],
+      disabled: !filterHistory.canRedo,
+      run: filterHistory.redo
+    },
+    {
+      id: 'export.csv',
+      label: 'Export CSV',
+      group: 'Export',
+      shortcuts: ['Ctrl+Alt+E'],
+      run: () => handleExport('csv')
+    },
+    {
+      id: 'export.json',
+      label: 'Export JSON',
+      group: 'Export',
+      shortcuts: ['Ctrl+Alt+Shift+E'],
+      run: () => handleExport('json')
+    },
+    {
+      id: 'export.copyLink',
+      label: 'Copy link to these filters',
+      group: 'Export',
+      shortcuts: ['Ctrl+Alt+L'],
+      run: handleCopyLink
+    },
+    {
+      id: 'view.toggleQuery',
+      label: showQuery ? 'Hide compiled query' : 'Show compiled query',
+      group: 'View',
+      run: () => setShowQuery(prev => !prev)
+    },
+    {
+      id: 'view.toggleServerMode',
+      label: serverMode ? 'Turn off server mode' : 'Turn on server mode',
+      group: 'View',
+      disabled: !dataset.searchRecords,
+      run: () => setServerMode(prev => !prev)
+    },
+    ...datasets.map(({ schema: other }) => ({
+      id: `view.dataset.${other.id}`,
+      label: `Show ${other.label.toLowerCase()}`,
+      group: 'View',
+      disabled: other.id === schema.id,
+      run: () => onDatasetChange(other.id)
+    }))
+  ]);
 
   return (
     <Box sx={{ backgroundColor: '#f0f2f5', minHeight: '100vh', py: 6, display: 'flex', justifyContent: 'center', width: '100%' }}>
@@ -105,6 +372,22 @@ function App() {
           >
             Data filtering with support for multiple data types and operators
           </Typography>
+
+          {/* Each dataset has its own fields, filters, presets and undo history */}
+          <ToggleButtonGroup
+            exclusive
+            size="small"
+            value={schema.id}
+            onChange={(_, value: string | null) => value && onDatasetChange(value)}
+            aria-label="Dataset"
+            sx={{ mt: 3 }}
+          >
+            {datasets.map(({ schema: option }) => (
+              <ToggleButton key={option.id} value={option.id} sx={{ textTransform: 'none', px: 3 }}>
+                {option.label}
+              </ToggleButton>
+            ))}
+          </ToggleButtonGroup>
         </Paper>
 
         {/* Error Alert */}
@@ -114,6 +397,50 @@ function App() {
           </Alert>
         )}
 
+        {/* Another tab changed the filters while we were editing them */}
+        {tabSync.conflict && (
+          <Alert
+            severity="warning"
+            sx={{ mb: 3 }}
+            action={
+              <Stack direction="row" spacing={1}>
+                <Button color="inherit" size="small" onClick={() => tabSync.resolveConflict('theirs')}>
+                  Use theirs
+                </Button>
+                <Button color="inherit" size="small" onClick={() => tabSync.resolveConflict('mine')}>
+                  Keep mine
+                </Button>
+              </Stack>
+            }
+          >
+            The filters were changed in another tab while you were editing them here.
+          </Alert>
+        )}
+
+        {/* Changes made to saved filters that no longer fit the current fields */}
+        {storageRepairs.length > 0 && (
+          <Alert severity="info" sx={{ mb: 3 }} onClose={() => setStorageRepairs([])}>
+            Your saved filters were updated to match the current fields:
+            <Box component="ul" sx={{ m: 0, pl: 2 }}>
+              {storageRepairs.map(repair => (
+                <li key={repair}>{repair}</li>
+              ))}
+            </Box>
+          </Alert>
+        )}
+
+        {/* Parts of a shared link that could not be restored */}
+        {linkWarnings.length > 0 && (
+          <Alert severity="info" sx={{ mb: 3 }} onClose={() => setLinkWarnings([])}>
+            Some of the shared link could not be restored:
+            <Box component="ul" sx={{ m: 0, pl: 2 }}>
+              {linkWarnings.map(warning => (
+                <li key={warning}>{warning}</li>
+              ))}
+            </Box>
+          </Alert>
+        )}
+
         {/* Loading Indicator (non-blocking) */}
         {loading && (
           <Alert severity="info" sx={{ mb: 3 }}>
@@ -124,37 +451,142 @@ function App() {
 
         <Stack spacing={4}>
           {/* Filter Builder */}
-          <FilterBuilder
-            filterState={filterState}
-            onFiltersChange={setFilterState}
-          />
+          <SuggestionContext.Provider value={suggestValues}>
+            <FilterBuilder
+              schema={schema}
+              filterState={filterState}
+              onFiltersChange={handleFiltersChange}
+              onUndo={filterHistory.undo}
+              onRedo={filterHistory.redo}
+              canUndo={filterHistory.canUndo}
+              canRedo={filterHistory.canRedo}
+              conditionStats={conditionStats}
+            />
+          </SuggestionContext.Provider>
 
           {/* Export Buttons */}
-          <Stack direction="row" spacing={2} sx={{ justifyContent: 'flex-end' }}>
+          <Stack direction="row" spacing={2} sx={{ justifyContent: 'flex-end', alignItems: 'center' }}>
+            {dataset.searchRecords && (
+              <FormControlLabel
+                control={
+                  <Switch
+                    size="small"
+                    checked={serverMode}
+                    onChange={(e) => setServerMode(e.target.checked)}
+                  />
+                }
+                label="Server mode"
+                title="Filter, sort and paginate through the /api/employees/search endpoint"
+              />
+            )}
+            <FormControlLabel
+              control={
+                <Switch
+                  size="small"
+                  checked={!tabSync.detached}
+                  onChange={(e) => tabSync.setDetached(!e.target.checked)}
+                />
+              }
+              label="Sync tabs"
+              title={
+                tabSync.detached
+                  ? "This tab keeps its own filters. Turn sync back on to pick up the other tabs' filters"
+                  : 'Filter changes are shared with your other tabs. Turn off to keep separate filters in this tab'
+              }
+              sx={{ mr: 'auto' }}
+            />
+            <Button
+              variant={showQuery ? 'contained' : 'outlined'}
+              size="small"
+              onClick={() => setShowQuery(prev => !prev)}
+              aria-expanded={showQuery}
+            >
+              {showQuery ? 'Hide Query' : 'Show Query'}
+            </Button>
+            <Button
+              variant="outlined"
+              size="small"
+              startIcon={<Link2 size={16} />}
+              onClick={handleCopyLink}
+              title="Copy a link to the current filters, sort and page (Ctrl+Alt+L)"
+            >
+              Copy Link
+            </Button>
             <Button 
               variant="outlined" 
               size="small"
-              onClick={() => ExportUtil.exportToJSON(filteredData, filterState)}
+              onClick={() => handleExport('json')}
+              title="Download the filtered records as JSON (Ctrl+Alt+Shift+E)"
             >
               Export JSON
             </Button>
             <Button 
               variant="outlined" 
               size="small"
-              onClick={() => ExportUtil.exportToCSV(filteredData)}
+              onClick={() => handleExport('csv')}
+              title="Download the filtered records as CSV (Ctrl+Alt+E)"
             >
               Export CSV
             </Button>
           </Stack>
 
-          {/* Results Table */}
+          {/* Filters compiled to SQL / MongoDB */}
+          {showQuery && <QueryPreview schema={schema} filterState={filterState} />}
+
+          {/* Quick search and results table */}
+          <QuickSearch
+            schema={schema}
+            value={searchText}
+            onChange={(value) => {
+              setSearchText(value);
+              setCurrentPage(1);
+            }}
+          />
           <DataTable
-            data={filteredData}
-            totalCount={employeeData.length}
-            filteredCount={filteredData.length}
+            schema={schema}
+            data={serverMode ? serverResult?.data ?? [] : filteredData}
+            totalCount={records.length}
+            filteredCount={serverMode ? serverResult?.total ?? 0 : filteredData.length}
+            serverSide={serverMode}
+            sortState={sortState}
+            onSortChange={setSortState}
+            currentPage={currentPage}
+            onPageChange={setCurrentPage}
+            itemsPerPage={itemsPerPage}
+            onItemsPerPageChange={setItemsPerPage}
+            filterState={filterState}
+            allRecords={records}
+            search={search}
           />
         </Stack>
 
+        {/* Offer a quick way back after clearing or deleting filters */}
+        <Snackbar
+          open={!!undoNotice}
+          autoHideDuration={6000}
+          onClose={() => setUndoNotice(null)}
+          message={undoNotice}
+          action={
+            <Button
+              color="inherit"
+              size="small"
+              onClick={() => {
+                filterHistory.undo();
+                setUndoNotice(null);
+              }}
+            >
+              Undo
+            </Button>
+          }
+        />
+
+        <Snackbar
+          open={linkCopied}
+          autoHideDuration={3000}
+          onClose={() => setLinkCopied(false)}
+          message="Link copied to clipboard"
+        />
+
         {/* Footer */}
         <Box sx={{ mt: 8, pt: 4, borderTop: '2px solid #e0e0e0', textAlign: 'center' }}>
           <Typography variant="body2" color="textSecondary" sx={{ fontStyle: 'italic' }}>
@@ -169,4 +601,28 @@ function App() {
   );
 }
 
+function App() {
+  // A shared link can also pick the dataset (see ShareLink)
+  const [sharedLink, setSharedLink] = useState(() => ShareLink.decode(window.location.search));
+  const [datasetId, setDatasetId] = useState(sharedLink?.state.datasetId ?? datasets[0].schema.id);
+  const dataset = datasets.find(d => d.schema.id === datasetId) ?? datasets[0];
+
+  const handleDatasetChange = (id: string) => {
+    // The link was for the dataset the app opened with
+    setSharedLink(null);
+    setDatasetId(id);
+  };
+
+  // Keyed by dataset, so switching starts from scratch: the filters, undo history,
+  // presets and tab sync all belong to one dataset
+  return (
+    <DatasetView
+      key={dataset.schema.id}
+      dataset={dataset}
+      sharedLink={sharedLink}
+      onDatasetChange={handleDatasetChange}
+    />
+  );
+}
+
 export default App;
@@ -1,4 +1,4 @@
-import type { Employee } from '../types';
+import type { Employee, FilterState, SortState, SuggestionRequest, ValueSuggestion } from '../types';
 import axiosInstance from './mockApi';
 
 export interface ApiResponse<T> {
@@ -8,6 +8,77 @@ export interface ApiResponse<T> {
   total?: number;
 }
 
+/**
+ * Search request sent to /api/employees/search
+ *
+ * Wire format (all query parameters, URL-encoded):
+ * - filter:    the full FilterState as JSON (nested groups, chain connectors and all); omitted = no filters
+ * - sortField: field key to sort by, including nested ("address.city") and computed fields; omitted = unsorted
+ * - sortOrder: "asc" | "desc" (default "asc")
+ * - page:      1-based page number (default 1)
+ * - pageSize:  records per page (default 10)
+ * - q:         quick search text, ANDed with the filter (see TextSearch); without sortField
+ *              the matches come back best first
+ *
+ * e.g. /api/employees/search?filter=%7B%22conditions%22...&sortField=salary&sortOrder=desc&page=2&pageSize=10
+ */
+export interface EmployeeSearchParams {
+  filter: FilterState;
+  sort?: SortState;
+  page?: number;
+  pageSize?: number;
+  search?: string;
+}
+
+/**
+ * One page of search results - `total` is the number of matches across all pages
+ */
+export interface EmployeeSearchResult {
+  data: Employee[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export interface SearchResponse extends ApiResponse<Employee[]> {
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+/**
+ * Encode search params into the query string format described above
+ */
+export const toSearchQuery = ({ filter, sort, page, pageSize, search }: EmployeeSearchParams): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (filter.conditions.length > 0) params.set('filter', JSON.stringify(filter));
+  if (sort?.field) {
+    params.set('sortField', sort.field);
+    params.set('sortOrder', sort.order);
+  }
+  if (page !== undefined) params.set('page', String(page));
+  if (pageSize !== undefined) params.set('pageSize', String(pageSize));
+  if (search?.trim()) params.set('q', search);
+  return params;
+};
+
+/**
+ * Suggestions request sent to /api/employees/suggestions
+ *
+ * Wire format (query parameters):
+ * - field:    key of a text field, e.g. "address.city"
+ * - q:        what's been typed so far (default "")
+ * - operator: the condition's operator - startsWith/endsWith narrow the matches (default "contains")
+ * - limit:    most suggestions to return (default 8)
+ *
+ * e.g. /api/employees/suggestions?field=role&q=eng&operator=startsWith&limit=8
+ */
+export const toSuggestionQuery = ({ field, query, operator, limit }: SuggestionRequest): URLSearchParams => {
+  const params = new URLSearchParams({ field, q: query, operator });
+  if (limit !== undefined) params.set('limit', String(limit));
+  return params;
+};
+
 /**
  * API Service for employee data operations
  */
@@ -32,29 +103,48 @@ export const employeeApi = {
   },
 
   /**
-   * Search employees with filters (for future API enhancements)
+   * Search employees with filters, sorting and pagination done by the server
    */
-  async searchEmployees(query: Record<string, any>): Promise<Employee[]> {
+  async searchEmployees(query: EmployeeSearchParams): Promise<EmployeeSearchResult> {
     try {
-      const params = new URLSearchParams(
-        Object.entries(query).reduce((acc, [key, value]) => {
-          acc[key] = String(value);
-          return acc;
-        }, {} as Record<string, string>)
+      const response = await axiosInstance.get<SearchResponse>(
+        `/api/employees/search?${toSearchQuery(query)}`
       );
+      const result = response.data;
       
-      const response = await axiosInstance.get<ApiResponse<Employee[]>>(
-        `/api/employees/search?${params}`
+      if (!result.success) {
+        throw new Error(result.message || 'Search failed');
+      }
+      
+      return {
+        data: result.data || [],
+        total: result.total,
+        page: result.page,
+        pageSize: result.pageSize
+      };
+    } catch (error) {
+      console.error('Error searching employees:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Values of a text field matching what's been typed, ranked by the server
+   */
+  async getSuggestions(request: SuggestionRequest): Promise<ValueSuggestion[]> {
+    try {
+      const response = await axiosInstance.get<ApiResponse<ValueSuggestion[]>>(
+        `/api/employees/suggestions?${toSuggestionQuery(request)}`
       );
       const result = response.data;
       
       if (!result.success) {
-        throw new Error(result.message || 'Search failed');
+        throw new Error(result.message || 'Failed to fetch suggestions');
       }
       
       return result.data || [];
     } catch (error) {
-      console.error('Error searching employees:', error);
+      console.error('Error fetching suggestions:', error);
       throw error;
     }
   }
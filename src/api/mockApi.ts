@@ -1,6 +1,15 @@
 import axios from 'axios';
 import MockAdapter from 'axios-mock-adapter';
 import { employeeData } from '../data/employees';
+import { employeeSchema } from '../data/schemas';
+import { FilterEngine } from '../utils/filterEngine';
+import { FilterValidator } from '../utils/filterValidator';
+import { FilterTree } from '../utils/filterTree';
+import { SortUtil } from '../utils/sortUtil';
+import { TextSearch } from '../utils/textSearch';
+import { ValueSuggestions } from '../utils/valueSuggestions';
+import { getFieldDefinition } from '../data/fieldDefinitions';
+import type { FilterState, Operator } from '../types';
 
 const axiosInstance = axios.create();
 const mock = new MockAdapter(axiosInstance);
@@ -13,14 +22,88 @@ mock.onGet('/api/employees').reply(200, {
   message: 'Employees fetched successfully'
 });
 
-// Mock endpoint with filtering support (for future enhancements)
+const DEFAULT_PAGE_SIZE = 10;
+
+const parsePositiveInt = (value: string | null, fallback: number): number | null => {
+  if (value === null || value === '') return fallback;
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+};
+
+// Search endpoint - filters, sorts and paginates on the "server".
+// See EmployeeSearchParams in employeeApi.ts for the wire format.
 mock.onGet(/\/api\/employees\/search.*/).reply((config) => {
   const params = new URLSearchParams(config.url?.split('?')[1]);
+
+  let filterState: FilterState;
+  try {
+    const filter = params.get('filter');
+    filterState = FilterTree.normalize(filter ? JSON.parse(filter) : null);
+  } catch {
+    return [400, { success: false, message: 'Invalid filter: expected a JSON-encoded filter state' }];
+  }
+
+  const sortOrder = params.get('sortOrder') || 'asc';
+  if (sortOrder !== 'asc' && sortOrder !== 'desc') {
+    return [400, { success: false, message: 'Invalid sortOrder: expected "asc" or "desc"' }];
+  }
+
+  const page = parsePositiveInt(params.get('page'), 1);
+  const pageSize = parsePositiveInt(params.get('pageSize'), DEFAULT_PAGE_SIZE);
+  if (page === null || pageSize === null) {
+    return [400, { success: false, message: 'Invalid page or pageSize: expected positive integers' }];
+  }
+
+  // Same rules as the client: invalid conditions are ignored rather than rejected,
+  // and the quick search narrows the filtered records down further
+  const filtered = FilterEngine.applyFilters(
+    employeeSchema,
+    employeeData,
+    FilterValidator.getValidNodes(employeeSchema, filterState.conditions),
+    filterState.logicalOperator,
+    filterState.evaluationMode
+  );
+  const searched = TextSearch.search(employeeSchema, filtered, params.get('q') ?? '');
+  const sorted = SortUtil.sortRecords(employeeSchema, searched, { field: params.get('sortField'), order: sortOrder });
+  const startIdx = (page - 1) * pageSize;
+
+  return [200, {
+    data: sorted.slice(startIdx, startIdx + pageSize),
+    total: sorted.length,
+    page,
+    pageSize,
+    success: true
+  }];
+});
+
+// Suggestions endpoint - distinct values of a text field matching what's been typed.
+// See toSuggestionQuery in employeeApi.ts for the wire format.
+mock.onGet(/\/api\/employees\/suggestions.*/).reply((config) => {
+  const params = new URLSearchParams(config.url?.split('?')[1]);
+
+  const field = getFieldDefinition(employeeSchema, params.get('field') ?? '');
+  if (!field || field.type !== 'text') {
+    return [400, { success: false, message: 'Invalid field: expected the key of a text field' }];
+  }
+
+  const operator = (params.get('operator') || 'contains') as Operator;
+  if (!field.operators.includes(operator)) {
+    return [400, { success: false, message: `Invalid operator: "${operator}" is not available for ${field.key}` }];
+  }
+
+  const limit = parsePositiveInt(params.get('limit'), ValueSuggestions.DEFAULT_LIMIT);
+  if (limit === null) {
+    return [400, { success: false, message: 'Invalid limit: expected a positive integer' }];
+  }
+
   return [200, {
-    data: employeeData,
-    total: employeeData.length,
-    success: true,
-    filters: Object.fromEntries(params)
+    data: ValueSuggestions.suggest(employeeSchema, employeeData, {
+      field: field.key,
+      operator,
+      query: params.get('q') ?? '',
+      limit
+    }),
+    success: true
   }];
 });
 
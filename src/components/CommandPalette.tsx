@@ -0,0 +1,95 @@
+import React, { useMemo, useState } from 'react';
+import { Box, Dialog, List, ListItemButton, ListItemText, TextField, Typography } from '@mui/material';
+import type { Command } from '../types';
+import { FuzzySearch } from '../utils/fuzzySearch';
+import { KeyboardShortcuts } from '../utils/keyboardShortcuts';
+
+/**
+ * Command palette (Ctrl+K) - type to fuzzy-search every action and saved preset,
+ * use the arrow keys to pick one and Enter to run it
+ */
+
+interface CommandPaletteProps {
+  commands: Command[];
+  onClose: () => void;
+}
+
+export const CommandPalette: React.FC<CommandPaletteProps> = ({ commands, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  // The group is searchable too, so "preset" lists every saved preset
+  const results = useMemo(
+    () => FuzzySearch.filter(commands.filter(c => !c.disabled), query, c => `${c.group}: ${c.label}`),
+    [commands, query]
+  );
+
+  const runCommand = (command: Command) => {
+    onClose();
+    command.run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(prev => Math.min(prev + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(prev => Math.max(prev - 1, 0));
+    } else if (e.key === 'Enter' && results[activeIndex]) {
+      e.preventDefault();
+      runCommand(results[activeIndex]);
+    }
+  };
+
+  return (
+    // Don't hand focus back on close - the command may have moved it somewhere on purpose
+    <Dialog open onClose={onClose} fullWidth maxWidth="sm" disableRestoreFocus slotProps={{ paper: { sx: { alignSelf: 'flex-start', mt: 10 } } }}>
+      <Box sx={{ p: 2, pb: 1 }}>
+        <TextField
+          autoFocus
+          fullWidth
+          size="small"
+          placeholder="Type a command or preset name..."
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setActiveIndex(0);
+          }}
+          onKeyDown={handleKeyDown}
+          inputProps={{
+            'aria-label': 'Search commands',
+            'aria-controls': 'command-palette-results',
+            'aria-activedescendant': results[activeIndex] ? `command-${results[activeIndex].id}` : undefined
+          }}
+        />
+      </Box>
+
+      <List id="command-palette-results" role="listbox" dense sx={{ maxHeight: 400, overflowY: 'auto', pt: 0 }}>
+        {results.length === 0 && (
+          <Typography variant="body2" color="textSecondary" sx={{ px: 3, py: 2 }}>
+            No matching commands
+          </Typography>
+        )}
+        {results.map((command, idx) => (
+          <ListItemButton
+            key={command.id}
+            id={`command-${command.id}`}
+            role="option"
+            aria-selected={idx === activeIndex}
+            selected={idx === activeIndex}
+            onClick={() => runCommand(command)}
+            onMouseMove={() => setActiveIndex(idx)}
+          >
+            <ListItemText primary={command.label} secondary={command.group} />
+            {command.shortcuts?.[0] && (
+              <Typography variant="caption" sx={{ fontFamily: 'monospace', color: 'text.secondary', ml: 2 }}>
+                {KeyboardShortcuts.format(command.shortcuts[0])}
+              </Typography>
+            )}
+          </ListItemButton>
+        ))}
+      </List>
+    </Dialog>
+  );
+};
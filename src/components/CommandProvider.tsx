@@ -0,0 +1,95 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { Command } from '../types';
+import { CommandContext } from '../hooks/useCommands';
+import type { CommandRegistry } from '../hooks/useCommands';
+import { KeyboardShortcuts } from '../utils/keyboardShortcuts';
+import { CommandPalette } from './CommandPalette';
+import { ShortcutHelp } from './ShortcutHelp';
+
+/**
+ * Keyboard shortcut layer
+ *
+ * Components register their commands (see useRegisterCommands), and this provider:
+ * - runs a command when its shortcut is pressed anywhere on the page
+ * - opens the command palette (Ctrl+K) to search and run any command
+ * - opens the shortcut help (? or Ctrl+/) listing every binding
+ *
+ * Shortcuts are ignored inside dialogs. While typing, only the modifier shortcuts of commands marked
+ * global run - Ctrl+Z should undo the text, and Ctrl+Alt is AltGr on many keyboard layouts.
+ */
+export const CommandProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const sourcesRef = useRef(new Set<() => Command[]>());
+  // The commands are captured when the palette or help opens, so they reflect the state at that moment
+  const [paletteCommands, setPaletteCommands] = useState<Command[] | null>(null);
+  const [helpCommands, setHelpCommands] = useState<Command[] | null>(null);
+
+  const register = useCallback((getCommands: () => Command[]) => {
+    sourcesRef.current.add(getCommands);
+    return () => {
+      sourcesRef.current.delete(getCommands);
+    };
+  }, []);
+
+  const getCommands = useCallback(function collectCommands(): Command[] {
+    const generalCommands: Command[] = [
+      {
+        id: 'general.palette',
+        label: 'Open command palette',
+        group: 'General',
+        shortcuts: ['Ctrl+K'],
+        global: true,
+        run: () => setPaletteCommands(collectCommands())
+      },
+      {
+        id: 'general.help',
+        label: 'Show keyboard shortcuts',
+        group: 'General',
+        shortcuts: ['?', 'Ctrl+/'],
+        global: true,
+        run: () => setHelpCommands(collectCommands())
+      }
+    ];
+    return [...generalCommands, ...Array.from(sourcesRef.current).flatMap(getSource => getSource())];
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented) return;
+      // The palette, the help and other dialogs handle their own keys
+      if (e.target instanceof Element && e.target.closest('[role="dialog"]')) return;
+
+      const typing = KeyboardShortcuts.isEditableTarget(e.target);
+      for (const command of getCommands()) {
+        if (command.disabled) continue;
+
+        const shortcut = command.shortcuts?.find(s => KeyboardShortcuts.matches(e, s));
+        if (!shortcut || (typing && !(command.global && KeyboardShortcuts.hasModifier(shortcut)))) continue;
+
+        e.preventDefault();
+        command.run();
+        return;
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [getCommands]);
+
+  const registry = useMemo<CommandRegistry>(
+    () => ({
+      register,
+      getCommands,
+      openPalette: () => setPaletteCommands(getCommands()),
+      openHelp: () => setHelpCommands(getCommands())
+    }),
+    [register, getCommands]
+  );
+
+  return (
+    <CommandContext.Provider value={registry}>
+      {children}
+      {paletteCommands && <CommandPalette commands={paletteCommands} onClose={() => setPaletteCommands(null)} />}
+      {helpCommands && <ShortcutHelp commands={helpCommands} onClose={() => setHelpCommands(null)} />}
+    </CommandContext.Provider>
+  );
+};
@@ -1,4 +1,4 @@
-import React, { useMemo, useState } from 'react';
+import React, { useMemo, useRef, useState } from 'react';
 import {
   Table,
   TableBody,
@@ -13,121 +13,212 @@ import {
   Chip,
   Button,
   Select,
-  MenuItem
+  MenuItem,
+  Menu,
+  Checkbox,
+  ListItemText
 } from '@mui/material';
-import { ArrowUpDown, ChevronLeft, ChevronRight } from 'lucide-react';
-import type { Employee } from '../types';
-import { getNestedValue } from '../data/fieldDefinitions';
+import { ArrowUpDown, ChevronLeft, ChevronRight, Columns3, SearchCheck } from 'lucide-react';
+import type { DataSchema, FieldDefinition, FilterState, SortState } from '../types';
+import { getComputedFields, getFieldDefinition, getFieldValue } from '../data/fieldDefinitions';
+import { SortUtil } from '../utils/sortUtil';
+import { TextSearch } from '../utils/textSearch';
+import { useRegisterCommands } from '../hooks/useCommands';
+import { RecordTraceDrawer } from './RecordTraceDrawer';
 
 /**
- * DataTable displays the filtered employee records in a sortable table.
+ * DataTable displays the filtered records of any schema (employees, projects, ...) in a sortable table.
  * 
  * Key features:
- * - Shows all filtered results with proper formatting (dates, currencies, etc.)
+ * - Shows the schema's columns, formatted by field type (dates, currencies, etc.)
  * - Click column headers to sort by that column (ascending/descending)
  * - Displays record counts (e.g., "Showing 15 of 55 records")
  * - Handles nested data (like address.city) using dot notation
- * - Formats arrays (like skills) into readable chips
+ * - Formats multi-select values (like skills) into readable chips
+ * - Computed fields (tenure, days since review, ...) can be added as extra columns
+ * - In server mode, sorting and paging are done by the API and the table only renders the page
+ * - Click a row to see why it matches the filters, or use "Why not?" to look up an excluded record
+ * - Highlights what the quick search matched in the searched columns
  * - Shows "No records" message when filter results are empty
  */
 
-interface DataTableProps {
-  data: Employee[];
+interface DataTableProps<T> {
+  schema: DataSchema<T>;
+  data: T[];
   totalCount: number;
   filteredCount: number;
+  // Server mode: `data` is already the sorted current page returned by the API,
+  // and `filteredCount` is the total number of matches across all pages
+  serverSide?: boolean;
+  // Sort and page state can be controlled by the parent (server mode needs this to build the request).
+  // When these are left out the table keeps its own state.
+  sortState?: SortState;
+  onSortChange?: (sortState: SortState) => void;
+  currentPage?: number;
+  onPageChange?: (page: number) => void;
+  itemsPerPage?: number;
+  onItemsPerPageChange?: (itemsPerPage: number) => void;
+  // When given, rows can be clicked to explain the filter result, and any of `allRecords`
+  // can be looked up to see why it was left out
+  filterState?: FilterState;
+  allRecords?: T[];
+  // Quick search query - its matches are highlighted in the columns it searches
+  search?: string;
 }
 
-type SortOrder = 'asc' | 'desc';
-
-interface SortState {
-  field: string | null;
-  order: SortOrder;
-}
+// Text with the quick search matches marked
+const Highlight: React.FC<{ text: string; search: string }> = ({ text, search }) => (
+  <>
+    {TextSearch.highlight(text, search).map((segment, i) =>
+      segment.match ? (
+        <Box component="mark" key={i} sx={{ backgroundColor: '#fff3b0', color: 'inherit', borderRadius: '2px' }}>
+          {segment.text}
+        </Box>
+      ) : (
+        segment.text
+      )
+    )}
+  </>
+);
 
-export const DataTable: React.FC<DataTableProps> = ({ data, totalCount, filteredCount }) => {
+// Generic over the record type, so it can't be a React.FC
+export const DataTable = <T,>({
+  schema,
+  data,
+  totalCount,
+  filteredCount,
+  serverSide = false,
+  filterState,
+  allRecords = [],
+  search = '',
+  ...controlled
+}: DataTableProps<T>) => {
   // Track which column is currently sorted and in which direction (asc/desc)
-  const [sortState, setSortState] = useState<SortState>({ field: null, order: 'asc' });
+  const [internalSortState, setInternalSortState] = useState<SortState>({ field: null, order: 'asc' });
   
   // Pagination state - track current page and items per page
-  const [currentPage, setCurrentPage] = useState(1);
-  const [itemsPerPage, setItemsPerPage] = useState(5);
+  const [internalPage, setInternalPage] = useState(1);
+  const [internalItemsPerPage, setInternalItemsPerPage] = useState(5);
 
-  // Define which columns to show in the table and their properties
-  const columns = [
-    { key: 'name', label: 'Name', width: '15%' },
-    { key: 'email', label: 'Email', width: '18%' },
-    { key: 'department', label: 'Department', width: '12%' },
-    { key: 'role', label: 'Role', width: '15%' },
-    { key: 'salary', label: 'Salary', width: '12%', align: 'right' as const },
-    { key: 'joinDate', label: 'Join Date', width: '12%' },
-    { key: 'isActive', label: 'Status', width: '10%' },
-    { key: 'skills', label: 'Skills', width: '16%' }
-  ];
+  // Use the parent's state when it is provided, our own otherwise
+  const sortState = controlled.sortState ?? internalSortState;
+  const currentPage = controlled.currentPage ?? internalPage;
+  const itemsPerPage = controlled.itemsPerPage ?? internalItemsPerPage;
+  const setSortState = controlled.onSortChange ?? setInternalSortState;
+  const setCurrentPage = controlled.onPageChange ?? setInternalPage;
+  const setItemsPerPage = controlled.onItemsPerPageChange ?? setInternalItemsPerPage;
+  const isPageControlled = controlled.currentPage !== undefined;
 
-  // Sort the data based on the current sort state.
-  // We use useMemo to avoid re-sorting on every render - only when data or sortState changes.
-  const sortedData = useMemo(() => {
-    if (!sortState.field) return data; // If no sort field selected, return data as-is
+  // Computed fields are hidden by default - the user can add them from the "Columns" menu
+  const [computedColumnKeys, setComputedColumnKeys] = useState<string[]>([]);
+  const [columnsMenuAnchor, setColumnsMenuAnchor] = useState<HTMLElement | null>(null);
 
-    const sorted = [...data].sort((a, b) => {
-      const aVal = getNestedValue(a, sortState.field!)
-      const bVal = getNestedValue(b, sortState.field!);
+  // Explain-why drawer - the record is null while the user is still picking one to look up
+  const [traceOpen, setTraceOpen] = useState(false);
+  const [traceRecord, setTraceRecord] = useState<T | null>(null);
 
-      // Handle null/undefined
-      if (aVal == null && bVal == null) return 0;
-      if (aVal == null) return 1;
-      if (bVal == null) return -1;
+  const openTrace = (record: T | null) => {
+    setTraceRecord(record);
+    setTraceOpen(true);
+  };
 
-      // Handle different types
-      if (typeof aVal === 'number' && typeof bVal === 'number') {
-        return sortState.order === 'asc' ? aVal - bVal : bVal - aVal;
-      }
+  const computedFields = getComputedFields(schema);
+  const searchFields = TextSearch.isEmpty(search) ? [] : TextSearch.getSearchFields(schema);
 
-      // String comparison
-      const aStr = String(aVal).toLowerCase();
-      const bStr = String(bVal).toLowerCase();
+  // The schema's columns, then the computed ones the user added. Numbers line up on the right.
+  const columns = [
+    ...schema.columns,
+    ...computedFields
+      .filter(field => computedColumnKeys.includes(field.key))
+      .map(field => ({ key: field.key, label: field.label, sortable: true, width: undefined }))
+  ].map(col => {
+    const type = getFieldDefinition(schema, col.key)?.type;
+    return { ...col, align: type === 'number' || type === 'amount' ? ('right' as const) : undefined };
+  });
 
-      if (sortState.order === 'asc') {
-        return aStr.localeCompare(bStr);
-      } else {
-        return bStr.localeCompare(aStr);
-      }
-    });
+  const toggleComputedColumn = (key: string) => {
+    setComputedColumnKeys(prev => (prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]));
+  };
 
-    return sorted;
-  }, [data, sortState]);
+  // Sort the data based on the current sort state.
+  // We use useMemo to avoid re-sorting on every render - only when data or sortState changes.
+  // In server mode the API has already sorted the page.
+  const sortedData = useMemo(
+    () => (serverSide ? data : SortUtil.sortRecords(schema, data, sortState)),
+    [schema, data, sortState, serverSide]
+  );
 
   const handleSort = (field: string) => {
-    setSortState(prev => ({
+    setSortState({
       field,
-      order: prev.field === field && prev.order === 'asc' ? 'desc' : 'asc'
-    }));
+      order: sortState.field === field && sortState.order === 'asc' ? 'desc' : 'asc'
+    });
+    setCurrentPage(1);
   };
 
-  // Calculate paginated data from sorted data
-  const totalPages = Math.ceil(sortedData.length / itemsPerPage);
+  // Calculate paginated data from sorted data (in server mode we only have the current page)
+  const matchCount = serverSide ? filteredCount : sortedData.length;
+  const totalPages = Math.max(Math.ceil(matchCount / itemsPerPage), 1);
   const paginatedData = useMemo(() => {
+    if (serverSide) return sortedData;
     const startIdx = (currentPage - 1) * itemsPerPage;
     const endIdx = startIdx + itemsPerPage;
     return sortedData.slice(startIdx, endIdx);
-  }, [sortedData, currentPage, itemsPerPage]);
+  }, [sortedData, currentPage, itemsPerPage, serverSide]);
+
+  // Keyboard shortcuts and command palette entries (see CommandProvider)
+  const tableRef = useRef<HTMLDivElement>(null);
+  useRegisterCommands([
+    {
+      id: 'table.nextPage',
+      label: 'Next page',
+      group: 'Table',
+      shortcuts: ['Ctrl+Alt+N'],
+      disabled: currentPage >= totalPages,
+      run: () => setCurrentPage(Math.min(currentPage + 1, totalPages))
+    },
+    {
+      id: 'table.previousPage',
+      label: 'Previous page',
+      group: 'Table',
+      shortcuts: ['Ctrl+Alt+P'],
+      disabled: currentPage <= 1,
+      run: () => setCurrentPage(Math.max(currentPage - 1, 1))
+    },
+    {
+      id: 'table.focus',
+      label: 'Focus results table',
+      group: 'Table',
+      shortcuts: ['Ctrl+Alt+T'],
+      run: () => tableRef.current?.focus()
+    }
+  ]);
 
-  // Reset to page 1 when filter changes
+  // Reset to page 1 when filter changes (a parent controlling the page does this itself)
   React.useEffect(() => {
-    setCurrentPage(1);
-  }, [sortedData.length]);
+    if (!isPageControlled) setInternalPage(1);
+  }, [sortedData.length, isPageControlled]);
 
-  // Format values for display in the table. Different field types need different formatting.
+  // A page past the end (e.g. restored from a shared link made with more data) snaps to the last page
+  React.useEffect(() => {
+    if (matchCount > 0 && currentPage > totalPages) setCurrentPage(totalPages);
+  }, [matchCount, currentPage, totalPages, setCurrentPage]);
+
+  // Format values for display in the table, based on the field's type.
   // For example, we show currency with $ sign, dates in readable format, booleans as status chips, etc.
-  const formatValue = (value: any, key: string): any => {
+  // Text in a column the quick search looks at gets its matches highlighted.
+  const formatValue = (value: any, field: FieldDefinition<T> | undefined, highlight = false): any => {
+    const asText = (text: string) => (highlight ? <Highlight text={text} search={search} /> : text);
+    const isMatch = (text: string) => TextSearch.highlight(text, search).some(segment => segment.match);
+
     if (value === null || value === undefined) return '-'; // Show dash for empty values
 
-    if (key === 'salary') {
-      // Format salary as currency with commas (e.g., $95,000)
+    if (field?.type === 'amount') {
+      // Format amounts as currency with commas (e.g., $95,000)
       return `$${Number(value).toLocaleString()}`;
     }
 
-    if (key === 'joinDate' || key === 'lastReview') {
+    if (field?.type === 'date') {
       // Format dates in readable format (e.g., "Jan 15, 2024")
       return new Date(value).toLocaleDateString('en-US', {
         year: 'numeric',
@@ -136,22 +227,22 @@ export const DataTable: React.FC<DataTableProps> = ({ data, totalCount, filtered
       });
     }
 
-    if (key === 'isActive') {
-      // Show boolean as colored status chip (Active/Inactive)
-      return value ? (
-        <Chip label="Active" color="success" size="small" />
-      ) : (
-        <Chip label="Inactive" color="error" size="small" />
-      );
+    if (field?.type === 'boolean') {
+      // Show boolean as colored status chip (Active/Inactive for the isActive field)
+      const label = field.key === 'isActive' ? (value ? 'Active' : 'Inactive') : value ? 'Yes' : 'No';
+      return <Chip label={label} color={value ? 'success' : 'error'} size="small" />;
     }
 
-    if (key === 'skills' && Array.isArray(value)) {
-      // Show skills as chips, but limit to 2 and show "+N more" if there are more
-      // This keeps the table row from getting too tall
+    if (field?.type === 'multiSelect' && Array.isArray(value)) {
+      // Show the items as chips, but limit to 2 and show "+N more" if there are more
+      // This keeps the table row from getting too tall. Items the search matched go first so they're visible.
+      const items = highlight
+        ? [...value].sort((a, b) => Number(isMatch(String(b))) - Number(isMatch(String(a))))
+        : value;
       return (
         <Stack direction="row" spacing={0.5} sx={{ flexWrap: 'wrap' }}>
-          {value.slice(0, 2).map(skill => (
-            <Chip key={skill} label={skill} size="small" variant="outlined" />
+          {items.slice(0, 2).map(item => (
+            <Chip key={item} label={asText(String(item))} size="small" variant="outlined" />
           ))}
           {value.length > 2 && <Chip label={`+${value.length - 2}`} size="small" variant="outlined" />}
         </Stack>
@@ -160,7 +251,7 @@ export const DataTable: React.FC<DataTableProps> = ({ data, totalCount, filtered
 
     // For other arrays, join them with commas
     if (Array.isArray(value)) {
-      return value.join(', ');
+      return asText(value.join(', '));
     }
 
     // For objects, convert to JSON string representation
@@ -168,7 +259,7 @@ export const DataTable: React.FC<DataTableProps> = ({ data, totalCount, filtered
       return JSON.stringify(value);
     }
 
-    return value;
+    return typeof value === 'string' ? asText(value) : value;
   };
 
   return (
@@ -203,10 +294,48 @@ export const DataTable: React.FC<DataTableProps> = ({ data, totalCount, filtered
               </Box>
             )}
           </Stack>
+          <Stack direction="row" spacing={1}>
+            {filterState && (
+              <Button
+                size="small"
+                variant="outlined"
+                startIcon={<SearchCheck size={16} />}
+                onClick={() => openTrace(null)}
+                aria-label="Look up why a record is not in the results"
+                title={`Look up any of the ${schema.label.toLowerCase()} to see which filters it passes or fails`}
+                sx={{ textTransform: 'none' }}
+              >
+                Why not?
+              </Button>
+            )}
+            <Button
+              size="small"
+              variant="outlined"
+              startIcon={<Columns3 size={16} />}
+              onClick={(e) => setColumnsMenuAnchor(e.currentTarget)}
+              aria-haspopup="true"
+              aria-label="Choose computed columns to show"
+              sx={{ textTransform: 'none' }}
+            >
+              Columns
+            </Button>
+            <Menu
+              anchorEl={columnsMenuAnchor}
+              open={Boolean(columnsMenuAnchor)}
+              onClose={() => setColumnsMenuAnchor(null)}
+            >
+              {computedFields.map(field => (
+                <MenuItem key={field.key} onClick={() => toggleComputedColumn(field.key)} dense>
+                  <Checkbox size="small" checked={computedColumnKeys.includes(field.key)} sx={{ p: 0, mr: 1 }} />
+                  <ListItemText primary={field.label} secondary="Computed" />
+                </MenuItem>
+              ))}
+            </Menu>
+          </Stack>
         </Stack>
       </Box>
 
-      <TableContainer>
+      <TableContainer ref={tableRef} tabIndex={0} aria-label="Results table" sx={{ '&:focus-visible': { outline: '2px solid #1976d2' } }}>
         {data.length === 0 ? (
           <Box sx={{ p: 4, textAlign: 'center' }}>
             <Typography variant="h6" color="textSecondary">
@@ -217,7 +346,7 @@ export const DataTable: React.FC<DataTableProps> = ({ data, totalCount, filtered
             </Typography>
           </Box>
         ) : (
-          <Table sx={{ minWidth: 650 }} aria-label="employee table">
+          <Table sx={{ minWidth: 650 }} aria-label={`${schema.recordLabel} table`}>
             <TableHead>
               <TableRow sx={{ backgroundColor: '#f5f5f5' }}>
                 {columns.map(col => (
@@ -235,7 +364,7 @@ export const DataTable: React.FC<DataTableProps> = ({ data, totalCount, filtered
                         backgroundColor: '#eeeeee'
                       }
                     }}
-                    onClick={() => handleSort(col.key)}
+                    onClick={col.sortable ? () => handleSort(col.key) : undefined}
                   >
                     <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
                       <span>{col.label}</span>
@@ -257,19 +386,32 @@ export const DataTable: React.FC<DataTableProps> = ({ data, totalCount, filtered
             <TableBody>
               {paginatedData.map((row, idx) => (
                 <TableRow
-                  key={row.id}
+                  key={schema.getId(row)}
+                  {...(filterState && {
+                    onClick: () => openTrace(row),
+                    onKeyDown: (e: React.KeyboardEvent) => {
+                      if (e.key === 'Enter') openTrace(row);
+                    },
+                    tabIndex: 0,
+                    title: 'Show why this record matches the filters'
+                  })}
                   sx={{
                     backgroundColor: idx % 2 === 0 ? '#fafafa' : '#fff',
-                    '&:hover': { backgroundColor: '#f0f0f0' }
+                    '&:hover': { backgroundColor: '#f0f0f0' },
+                    ...(filterState && { cursor: 'pointer' })
                   }}
                 >
                   {columns.map(col => (
                     <TableCell
-                      key={`${row.id}-${col.key}`}
+                      key={col.key}
                       align={col.align}
                       sx={{ fontSize: '0.875rem' }}
                     >
-                      {formatValue(getNestedValue(row, col.key), col.key)}
+                      {formatValue(
+                        getFieldValue(schema, row, col.key),
+                        getFieldDefinition(schema, col.key),
+                        searchFields.includes(col.key)
+                      )}
                     </TableCell>
                   ))}
                 </TableRow>
@@ -280,10 +422,10 @@ export const DataTable: React.FC<DataTableProps> = ({ data, totalCount, filtered
       </TableContainer>
 
       {/* Pagination Controls */}
-      {sortedData.length > 0 && (
+      {matchCount > 0 && (
         <Box sx={{ p: 2, borderTop: '1px solid #e0e0e0', display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
           <Typography variant="caption" color="textSecondary">
-            Showing {((currentPage - 1) * itemsPerPage) + 1}-{Math.min(currentPage * itemsPerPage, sortedData.length)} of {sortedData.length} records
+            Showing {((currentPage - 1) * itemsPerPage) + 1}-{Math.min(currentPage * itemsPerPage, matchCount)} of {matchCount} records
           </Typography>
           
           <Stack direction="row" spacing={2} sx={{ alignItems: 'center' }}>
@@ -313,9 +455,10 @@ export const DataTable: React.FC<DataTableProps> = ({ data, totalCount, filtered
               <Button
                 size="small"
                 variant="outlined"
-                onClick={() => setCurrentPage(prev => Math.max(prev - 1, 1))}
+                onClick={() => setCurrentPage(Math.max(currentPage - 1, 1))}
                 disabled={currentPage === 1}
                 startIcon={<ChevronLeft size={18} />}
+                title="Previous page (Ctrl+Alt+P)"
               >
                 Previous
               </Button>
@@ -327,9 +470,10 @@ export const DataTable: React.FC<DataTableProps> = ({ data, totalCount, filtered
               <Button
                 size="small"
                 variant="outlined"
-                onClick={() => setCurrentPage(prev => Math.min(prev + 1, totalPages))}
-                disabled={currentPage === totalPages}
+                onClick={() => setCurrentPage(Math.min(currentPage + 1, totalPages))}
+                disabled={currentPage >= totalPages}
                 endIcon={<ChevronRight size={18} />}
+                title="Next page (Ctrl+Alt+N)"
               >
                 Next
               </Button>
@@ -337,6 +481,18 @@ export const DataTable: React.FC<DataTableProps> = ({ data, totalCount, filtered
           </Stack>
         </Box>
       )}
+
+      {filterState && (
+        <RecordTraceDrawer
+          open={traceOpen}
+          schema={schema}
+          record={traceRecord}
+          records={allRecords}
+          filterState={filterState}
+          onRecordChange={setTraceRecord}
+          onClose={() => setTraceOpen(false)}
+        />
+      )}
     </Paper>
   );
 };
@@ -1,123 +1,344 @@
-import React, { useMemo, useCallback, useRef, useEffect } from 'react';
+import React, { useMemo, useRef, useState } from 'react';
 import {
   Box,
   Button,
   Card,
   CardContent,
+  IconButton,
   FormControlLabel,
   Radio,
   RadioGroup,
   Stack,
   Typography,
   Paper,
-  Alert
+  Alert,
+  ToggleButton,
+  ToggleButtonGroup
 } from '@mui/material';
-import { Plus, RotateCcw, AlertCircle } from 'lucide-react';
-import { v4 as uuidv4 } from 'uuid';
-import type { FilterCondition, FilterState } from '../types';
-import { FilterConditionComponent } from './FilterCondition';
+import { Plus, FolderPlus, RotateCcw, AlertCircle, ListFilter, Code, Undo2, Redo2, Keyboard } from 'lucide-react';
+import type {
+  ConditionStats,
+  DataSchema,
+  FilterChangeOptions,
+  FilterCondition,
+  FilterGroup,
+  FilterPreset,
+  FilterState
+} from '../types';
+import { FilterNodeList } from './FilterGroup';
+import { FilterQueryEditor } from './FilterQueryEditor';
+import { PresetMenu } from './PresetMenu';
+import { usePresets } from '../hooks/usePresets';
+import { useCommandRegistry, useRegisterCommands } from '../hooks/useCommands';
 import { FilterValidator } from '../utils/filterValidator';
+import { FilterTree } from '../utils/filterTree';
 
 interface FilterBuilderProps {
+  // The fields that can be filtered on (employees, projects, ...)
+  schema: DataSchema;
   filterState: FilterState;
-  onFiltersChange: (filterState: FilterState) => void;
+  onFiltersChange: (filterState: FilterState, options?: FilterChangeOptions) => void;
+  // Undo/redo buttons are shown when the parent keeps a history
+  onUndo?: () => void;
+  onRedo?: () => void;
+  canUndo?: boolean;
+  canRedo?: boolean;
+  // Live match and facet counts per condition id - see FilterEngine.getConditionStats
+  conditionStats?: Map<string, ConditionStats>;
 }
 
 export const FilterBuilder: React.FC<FilterBuilderProps> = ({
+  schema,
   filterState,
-  onFiltersChange
+  onFiltersChange,
+  onUndo,
+  onRedo,
+  canUndo = false,
+  canRedo = false,
+  conditionStats
 }) => {
-  // We use a ref to store the debounce timeout ID so we can cancel it if the user
-  // quickly changes filters multiple times. This prevents unnecessary re-renders
-  const debounceTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Visual builder or text query editor - both edit the same filter state
+  const [editorMode, setEditorMode] = useState<'visual' | 'text'>('visual');
+
+  // Saved, named filters
+  const presetActions = usePresets(schema);
+
+  // Presets can predate the current fields - load them repaired, with a notice of what changed
+  const handleLoadPreset = (preset: FilterPreset) => {
+    const { filterState: repaired, repairs } = presetActions.loadPreset(preset);
+    onFiltersChange(repaired, { repairs });
+  };
+
+  // The condition the user was last working in, for "Remove focused filter".
+  // Kept after focus moves on, so the command also works from the command palette.
+  const lastFocusedConditionRef = useRef<string | null>(null);
+  const handleFocus = (e: React.FocusEvent) => {
+    const conditionElement = e.target instanceof Element ? e.target.closest('[data-condition-id]') : null;
+    if (conditionElement) lastFocusedConditionRef.current = conditionElement.getAttribute('data-condition-id');
+  };
 
   // Check for validation errors in current filters
   const validationErrors = useMemo(() => {
-    return FilterValidator.validateAllConditions(filterState.conditions);
-  }, [filterState.conditions]);
+    return FilterValidator.validateAllConditions(schema, filterState.conditions);
+  }, [schema, filterState.conditions]);
 
   // Only show errors if there are validation errors for conditions that have a field selected
   // This avoids showing errors for empty conditions the user just added but hasn't filled in yet
-  const hasErrors = filterState.conditions.some(condition => {
+  const hasErrors = FilterTree.getConditions(filterState.conditions).some(condition => {
     return condition.field !== '' && validationErrors.has(condition.id);
   });
 
-  // When filters change, we wait 150ms before actually updating the parent component.
-  // This reduces noise if the user is rapidly typing or clicking. For example, if they
-  // type "John" in a text field quickly, we don't want to filter after each keystroke.
-  const handleFiltersChangeDebounced = useCallback((newFilterState: FilterState) => {
-    if (debounceTimeoutRef.current) {
-      clearTimeout(debounceTimeoutRef.current);
-    }
-    debounceTimeoutRef.current = setTimeout(() => {
-      onFiltersChange(newFilterState);
-    }, 150);
-  }, [onFiltersChange]);
-
-  // Make sure to clean up the timeout when component unmounts, otherwise
-  // it could cause memory leaks if setTimeout is still pending
-  useEffect(() => {
-    return () => {
-      if (debounceTimeoutRef.current) {
-        clearTimeout(debounceTimeoutRef.current);
-      }
-    };
-  }, []);
-
   const handleAddFilter = () => {
-    const newCondition: FilterCondition = {
-      id: uuidv4(),
-      field: '',
-      fieldType: 'text',
-      operator: 'equals',
-      value: '',
-      logicalOperator: 'AND'
-    };
+    onFiltersChange({
+      ...filterState,
+      conditions: [...filterState.conditions, FilterTree.createCondition()]
+    });
+  };
 
+  const handleAddGroup = () => {
     onFiltersChange({
       ...filterState,
-      conditions: [...filterState.conditions, newCondition]
+      conditions: [...filterState.conditions, FilterTree.createGroup()]
     });
   };
 
   const handleUpdateCondition = (id: string, updatedCondition: FilterCondition) => {
     const newFilterState = {
       ...filterState,
-      conditions: filterState.conditions.map(c => c.id === id ? updatedCondition : c)
+      conditions: FilterTree.updateNode(filterState.conditions, id, updatedCondition)
     };
-    // Use debounced update for value-only changes
-    handleFiltersChangeDebounced(newFilterState);
+    // Every keystroke goes up right away, so undo, Clear All or another tab never race a stale copy -
+    // the parent waits for a pause before filtering. Keystrokes in one condition become a single undo step.
+    onFiltersChange(newFilterState, { coalesceKey: `condition:${id}` });
   };
 
-  const handleRemoveCondition = (id: string) => {
+  // Group changes (operator, collapse, adding children) are structural, so apply them right away
+  const handleUpdateGroup = (id: string, updatedGroup: FilterGroup) => {
     onFiltersChange({
       ...filterState,
-      conditions: filterState.conditions.filter(c => c.id !== id)
+      conditions: FilterTree.updateNode(filterState.conditions, id, updatedGroup)
     });
   };
 
-  const handleClearAll = () => {
+  // In 'chain' mode each connector chip belongs to the node after it
+  const handleToggleConnector = (id: string) => {
+    const node = FilterTree.findNode(filterState.conditions, id);
+    if (!node) return;
+
+    const connector = FilterTree.getConnector(node) === 'AND' ? 'OR' : 'AND';
+    onFiltersChange({
+      ...filterState,
+      conditions: FilterTree.updateNode(filterState.conditions, id, FilterTree.setConnector(node, connector))
+    });
+  };
+
+  const handleRemoveNode = (id: string) => {
+    const node = FilterTree.findNode(filterState.conditions, id);
+    onFiltersChange(
+      {
+        ...filterState,
+        conditions: FilterTree.removeNode(filterState.conditions, id)
+      },
+      { undoMessage: node && FilterTree.isGroup(node) ? 'Group removed' : 'Filter removed' }
+    );
+  };
+
+  const handleDuplicateNode = (id: string) => {
+    onFiltersChange({
+      ...filterState,
+      conditions: FilterTree.duplicateNode(filterState.conditions, id)
+    });
+  };
+
+  const handleMoveNode = (id: string, toIndex: number) => {
     onFiltersChange({
       ...filterState,
-      conditions: []
+      conditions: FilterTree.moveNode(filterState.conditions, id, toIndex)
     });
   };
 
+  // Switching a condition off or on is applied right away, unlike typing in it
+  const handleSetEnabled = (id: string, enabled: boolean) => {
+    const node = FilterTree.findNode(filterState.conditions, id);
+    if (!node || FilterTree.isGroup(node)) return;
+
+    onFiltersChange({
+      ...filterState,
+      conditions: FilterTree.updateNode(filterState.conditions, id, { ...node, enabled })
+    });
+  };
+
+  const handleClearAll = () => {
+    onFiltersChange(
+      {
+        ...filterState,
+        conditions: []
+      },
+      { undoMessage: 'All filters cleared' }
+    );
+  };
+
+  const handleRemoveFocused = () => {
+    const id = lastFocusedConditionRef.current;
+    if (id && FilterTree.findNode(filterState.conditions, id)) {
+      handleRemoveNode(id);
+      lastFocusedConditionRef.current = null;
+    }
+  };
+
+  const getFocusedCondition = () => {
+    const id = lastFocusedConditionRef.current;
+    const node = id ? FilterTree.findNode(filterState.conditions, id) : undefined;
+    return node && !FilterTree.isGroup(node) ? node : undefined;
+  };
+
+  const handleToggleMatch = () => {
+    const mode = FilterTree.getMatchMode(filterState) === 'AND' ? 'OR' : 'AND';
+    onFiltersChange(FilterTree.setMatchMode(filterState, mode));
+  };
+
+  // Keyboard shortcuts and command palette entries (see CommandProvider)
+  const commandRegistry = useCommandRegistry();
+  useRegisterCommands([
+    {
+      id: 'filters.add',
+      label: 'Add filter',
+      group: 'Filters',
+      shortcuts: ['Ctrl+Alt+A'],
+      run: () => {
+        setEditorMode('visual');
+        handleAddFilter();
+      }
+    },
+    {
+      id: 'filters.addGroup',
+      label: 'Add group',
+      group: 'Filters',
+      shortcuts: ['Ctrl+Alt+G'],
+      run: () => {
+        setEditorMode('visual');
+        handleAddGroup();
+      }
+    },
+    {
+      id: 'filters.removeFocused',
+      label: 'Remove focused filter',
+      group: 'Filters',
+      shortcuts: ['Ctrl+Alt+Backspace'],
+      disabled: editorMode !== 'visual',
+      run: handleRemoveFocused
+    },
+    {
+      id: 'filters.duplicateFocused',
+      label: 'Duplicate focused filter',
+      group: 'Filters',
+      shortcuts: ['Ctrl+Alt+D'],
+      disabled: editorMode !== 'visual',
+      run: () => {
+        const condition = getFocusedCondition();
+        if (condition) handleDuplicateNode(condition.id);
+      }
+    },
+    {
+      id: 'filters.toggleFocused',
+      label: 'Enable / disable focused filter',
+      group: 'Filters',
+      shortcuts: ['Ctrl+Alt+M'],
+      disabled: editorMode !== 'visual',
+      run: () => {
+        const condition = getFocusedCondition();
+        if (condition) handleSetEnabled(condition.id, !FilterTree.isEnabled(condition));
+      }
+    },
+    {
+      id: 'filters.toggleMatch',
+      label: 'Toggle match ALL / ANY (AND/OR)',
+      group: 'Filters',
+      shortcuts: ['Ctrl+Alt+O'],
+      disabled: filterState.conditions.length === 0,
+      run: handleToggleMatch
+    },
+    {
+      id: 'filters.clear',
+      label: 'Clear all filters',
+      group: 'Filters',
+      shortcuts: ['Ctrl+Alt+X'],
+      disabled: filterState.conditions.length === 0,
+      run: handleClearAll
+    },
+    {
+      id: 'filters.toggleEditor',
+      label: editorMode === 'visual' ? 'Switch to text query mode' : 'Switch to visual mode',
+      group: 'Filters',
+      shortcuts: ['Ctrl+Alt+Q'],
+      run: () => setEditorMode(prev => (prev === 'visual' ? 'text' : 'visual'))
+    },
+    ...presetActions.presets.map(preset => ({
+      id: `presets.load.${preset.id}`,
+      label: `Load preset: ${preset.name}`,
+      group: 'Presets',
+      run: () => handleLoadPreset(preset)
+    }))
+  ]);
+
   return (
-    <Paper elevation={0} sx={{ p: 3, backgroundColor: '#fafafa', borderRadius: 1 }} role="region" aria-label="Filter builder">
+    <Paper
+      elevation={0}
+      sx={{ p: 3, backgroundColor: '#fafafa', borderRadius: 1 }}
+      role="region"
+      aria-label="Filter builder"
+      onFocus={handleFocus}
+    >
       <Stack spacing={3}>
         <Box>
-          <Typography variant="h6" sx={{ mb: 2, fontWeight: 600 }} id="filters-heading">
-            Filters
-          </Typography>
+          <Stack direction="row" sx={{ mb: 2, justifyContent: 'space-between', alignItems: 'center' }}>
+            <Typography variant="h6" sx={{ fontWeight: 600 }} id="filters-heading">
+              Filters
+            </Typography>
+            <Stack direction="row" spacing={1} sx={{ alignItems: 'center' }}>
+              {onUndo && onRedo && (
+                <Stack direction="row">
+                  <IconButton size="small" onClick={onUndo} disabled={!canUndo} aria-label="Undo" title="Undo (Ctrl+Z)">
+                    <Undo2 size={18} />
+                  </IconButton>
+                  <IconButton size="small" onClick={onRedo} disabled={!canRedo} aria-label="Redo" title="Redo (Ctrl+Shift+Z)">
+                    <Redo2 size={18} />
+                  </IconButton>
+                </Stack>
+              )}
+              <IconButton
+                size="small"
+                onClick={commandRegistry.openHelp}
+                aria-label="Keyboard shortcuts"
+                title="Keyboard shortcuts (?) - press Ctrl+K for the command palette"
+              >
+                <Keyboard size={18} />
+              </IconButton>
+              <PresetMenu {...presetActions} filterState={filterState} onLoadPreset={handleLoadPreset} />
+              <ToggleButtonGroup
+                size="small"
+                exclusive
+                value={editorMode}
+                onChange={(_, mode) => mode && setEditorMode(mode)}
+                aria-label="Switch between the visual builder and text query mode"
+              >
+                <ToggleButton value="visual" sx={{ textTransform: 'none', gap: 0.5 }} title="Build filters with dropdowns">
+                  <ListFilter size={16} /> Visual
+                </ToggleButton>
+                <ToggleButton value="text" sx={{ textTransform: 'none', gap: 0.5 }} title="Type filters as a query">
+                  <Code size={16} /> Text
+                </ToggleButton>
+              </ToggleButtonGroup>
+            </Stack>
+          </Stack>
 
-          {hasErrors && (
+          {editorMode === 'visual' && hasErrors && (
             <Alert severity="warning" icon={<AlertCircle size={20} />} sx={{ mb: 2 }}>
               Some filters have validation errors. Please fix them before the filters will be applied.
             </Alert>
           )}
 
-          {filterState.conditions.length > 0 && !hasErrors && (
+          {editorMode === 'visual' && filterState.conditions.length > 0 && !hasErrors && (
             <Card sx={{ mb: 2, backgroundColor: '#fff3e0' }}>
               <CardContent sx={{ py: 1.5, px: 2 }}>
                 <FormControlLabel
@@ -125,90 +346,99 @@ export const FilterBuilder: React.FC<FilterBuilderProps> = ({
                   control={
                     <RadioGroup
                       row
-                      value={filterState.logicalOperator}
+                      value={FilterTree.getMatchMode(filterState)}
                       onChange={(e) =>
-                        onFiltersChange({
-                          ...filterState,
-                          logicalOperator: e.target.value as 'AND' | 'OR'
-                        })
+                        onFiltersChange(
+                          FilterTree.setMatchMode(filterState, e.target.value as 'AND' | 'OR' | 'chain')
+                        )
                       }
                     >
                       <FormControlLabel value="AND" control={<Radio size="small" />} label="ALL filters (AND)" />
                       <FormControlLabel value="OR" control={<Radio size="small" />} label="ANY filter (OR)" />
+                      <FormControlLabel value="chain" control={<Radio size="small" />} label="MIXED (per connector)" />
                     </RadioGroup>
                   }
                 />
                 <Typography variant="caption" sx={{ display: 'block', mt: 1, color: '#666' }}>
-                  {filterState.logicalOperator === 'AND'
-                    ? 'Records must match all filters below'
-                    : 'Records matching any of the filters below will be shown'}
+                  {filterState.evaluationMode === 'chain'
+                    ? 'Click a connector to switch it between AND and OR. AND binds tighter than OR, so A AND B OR C means (A AND B) OR C'
+                    : filterState.logicalOperator === 'AND'
+                      ? 'Records must match all filters below'
+                      : 'Records matching any of the filters below will be shown'}
                 </Typography>
               </CardContent>
             </Card>
           )}
         </Box>
 
-        {/* Filter Conditions */}
-        <Box>
-          {filterState.conditions.map((condition, index) => (
-            <React.Fragment key={condition.id}>
-              {index > 0 && (
-                <Box sx={{ mb: 1 }}>
-                  <Typography
-                    variant="body2"
-                    sx={{
-                      backgroundColor: filterState.logicalOperator === 'AND' ? '#e3f2fd' : '#f3e5f5',
-                      p: 1,
-                      borderRadius: 1,
-                      textAlign: 'center',
-                      fontWeight: 600,
-                      color: filterState.logicalOperator === 'AND' ? '#1565c0' : '#6a1b9a'
-                    }}
-                  >
-                    {filterState.logicalOperator}
-                  </Typography>
-                </Box>
-              )}
-              <FilterConditionComponent
-                condition={condition}
-                onConditionChange={(updated) => handleUpdateCondition(condition.id, updated)}
-                onRemove={() => handleRemoveCondition(condition.id)}
-              />
-            </React.Fragment>
-          ))}
-        </Box>
+        {editorMode === 'text' ? (
+          <FilterQueryEditor
+            schema={schema}
+            filterState={filterState}
+            onFiltersChange={(newFilterState) => onFiltersChange(newFilterState, { coalesceKey: 'query' })}
+          />
+        ) : (
+          <>
+            {/* Filter Conditions (and nested groups) */}
+            <FilterNodeList
+              schema={schema}
+              nodes={filterState.conditions}
+              logicalOperator={filterState.logicalOperator}
+              evaluationMode={filterState.evaluationMode}
+              onLogicalOperatorChange={(logicalOperator) => onFiltersChange({ ...filterState, logicalOperator })}
+              onUpdateCondition={handleUpdateCondition}
+              onUpdateGroup={handleUpdateGroup}
+              onRemoveNode={handleRemoveNode}
+              onDuplicateNode={handleDuplicateNode}
+              onMoveNode={handleMoveNode}
+              onSetEnabled={handleSetEnabled}
+              onToggleConnector={handleToggleConnector}
+              conditionStats={conditionStats}
+            />
 
-        {/* Action Buttons */}
-        <Stack direction="row" spacing={1}>
-          <Button
-            variant="contained"
-            startIcon={<Plus size={18} />}
-            onClick={handleAddFilter}
-            sx={{ textTransform: 'none' }}
-            aria-label="Add a new filter condition"
-            title="Click to add a new filter condition (Ctrl+Alt+A)"
-          >
-            Add Filter
-          </Button>
-          {filterState.conditions.length > 0 && (
-            <Button
-              variant="outlined"
-              color="error"
-              startIcon={<RotateCcw size={18} />}
-              onClick={handleClearAll}
-              sx={{ textTransform: 'none' }}
-              aria-label="Clear all filters"
-              title="Remove all filter conditions"
-            >
-              Clear All
-            </Button>
-          )}
-        </Stack>
+            {/* Action Buttons */}
+            <Stack direction="row" spacing={1}>
+              <Button
+                variant="contained"
+                startIcon={<Plus size={18} />}
+                onClick={handleAddFilter}
+                sx={{ textTransform: 'none' }}
+                aria-label="Add a new filter condition"
+                title="Click to add a new filter condition (Ctrl+Alt+A)"
+              >
+                Add Filter
+              </Button>
+              <Button
+                variant="outlined"
+                startIcon={<FolderPlus size={18} />}
+                onClick={handleAddGroup}
+                sx={{ textTransform: 'none' }}
+                aria-label="Add a new group of filter conditions"
+                title="Add a group of conditions with its own AND/OR logic (Ctrl+Alt+G)"
+              >
+                Add Group
+              </Button>
+              {filterState.conditions.length > 0 && (
+                <Button
+                  variant="outlined"
+                  color="error"
+                  startIcon={<RotateCcw size={18} />}
+                  onClick={handleClearAll}
+                  sx={{ textTransform: 'none' }}
+                  aria-label="Clear all filters"
+                  title="Remove all filter conditions (Ctrl+Alt+X)"
+                >
+                  Clear All
+                </Button>
+              )}
+            </Stack>
 
-        {filterState.conditions.length === 0 && (
-          <Typography variant="body2" color="textSecondary" sx={{ textAlign: 'center', py: 2 }}>
-            No filters applied. Click "Add Filter" to create one.
-          </Typography>
+            {filterState.conditions.length === 0 && (
+              <Typography variant="body2" color="textSecondary" sx={{ textAlign: 'center', py: 2 }}>
+                No filters applied. Click "Add Filter" to create one.
+              </Typography>
+            )}
+          </>
         )}
       </Stack>
     </Paper>
@@ -8,49 +8,100 @@ import {
   Select,
   IconButton,
   Grid,
-  Alert
+  Alert,
+  Box,
+  Typography,
+  Stack,
+  Switch,
+  ToggleButton,
+  ToggleButtonGroup
 } from '@mui/material';
-import { Trash2 } from 'lucide-react';
-import type { FilterCondition } from '../types';
+import { Copy, Trash2 } from 'lucide-react';
+import type { ConditionStats, DataSchema, FilterCondition, TextMatchOptions } from '../types';
 import {
   TextInput,
   NumberInput,
   DateInput,
   DateRangeInput,
+  RelativeDateInput,
   AmountRangeInput,
   SelectInput,
   MultiSelectInput,
   BooleanInput
 } from './FilterInputs';
-import { fieldDefinitions } from '../data/fieldDefinitions';
-import { FilterValidator } from '../utils/filterValidator';
+import { TextMatchOptionsButton } from './TextMatchOptionsButton';
+import { fieldComparisonOperators, getComparableFields, getFieldDefinition, getOperatorLabel } from '../data/fieldDefinitions';
+import { FilterValidator, type ValidationError } from '../utils/filterValidator';
+import { RelativeDate } from '../utils/relativeDate';
+import { FilterTree } from '../utils/filterTree';
+import { useValueSuggestions } from '../hooks/useValueSuggestions';
 
 interface FilterConditionProps {
+  schema: DataSchema;
   condition: FilterCondition;
   onConditionChange: (condition: FilterCondition) => void;
   onRemove: () => void;
+  onDuplicate: () => void;
+  onEnabledChange: (enabled: boolean) => void;
+  // Live match counts - see FilterEngine.getConditionStats
+  stats?: ConditionStats;
 }
 
 export const FilterConditionComponent: React.FC<FilterConditionProps> = ({
+  schema,
   condition,
   onConditionChange,
-  onRemove
+  onRemove,
+  onDuplicate,
+  onEnabledChange,
+  stats
 }) => {
-  const [validationError, setValidationError] = useState<any>(null);
+  // Errors show up once the condition is edited - except for regex patterns, which are checked straight
+  // away, since a pattern from a link or the text mode that can't run would otherwise silently match nothing.
+  // The error itself is worked out from the condition on every change, so it follows undo, the text mode,
+  // presets and other tabs too.
+  const [edited, setEdited] = useState(false);
+
+  // A disabled condition keeps its settings but is skipped when filtering, so its errors don't matter either
+  const enabled = FilterTree.isEnabled(condition);
+  const error = useMemo<ValidationError | null>(
+    () =>
+      enabled && (edited || condition.operator === 'regex') ? FilterValidator.validateCondition(schema, condition) : null,
+    [schema, condition, enabled, edited]
+  );
+
+  const updateCondition = (updated: FilterCondition) => {
+    setEdited(true);
+    onConditionChange(updated);
+  };
 
   // We need to find the field definition so we can show the correct operators and input type.
   // For example, a "salary" field is an amount type, so we show amount-specific operators.
   // We memoize this to avoid searching the array on every render.
   const selectedField = useMemo(
-    () => fieldDefinitions.find(f => f.key === condition.field),
-    [condition.field]
+    () => getFieldDefinition(schema, condition.field),
+    [schema, condition.field]
+  );
+
+  // Values of this field to pick from while typing - text fields only
+  const valueSuggestions = useValueSuggestions(
+    selectedField?.type === 'text' ? selectedField.key : null,
+    condition.operator,
+    typeof condition.value === 'string' ? condition.value : ''
   );
 
+  // Fields this one can be compared against (e.g. Join Date <-> Last Review Date)
+  const comparableFields = useMemo(() => getComparableFields(schema, condition.field), [schema, condition.field]);
+
+  // The value slot can switch to "field" mode only for comparison operators with something to compare to
+  const canCompareWithField =
+    comparableFields.length > 0 && fieldComparisonOperators.includes(condition.operator);
+
   // When the user picks a different field, we need to reset the operator and value.
   // For example, if they were filtering text, but switch to filtering a date field,
   // the previous text operators (contains, startsWith, etc.) don't make sense anymore.
   const handleFieldChange = (fieldKey: string) => {
-    const field = fieldDefinitions.find(f => f.key === fieldKey);
+    const field = getFieldDefinition(schema, fieldKey);
     if (field) {
       const updated = {
         ...condition,
@@ -58,12 +109,13 @@ export const FilterConditionComponent: React.FC<FilterConditionProps> = ({
         fieldType: field.type,
         operator: field.operators[0], // Use the first available operator for this field type
         value: getDefaultValue(field.type),
-        nestedKey: field.nestedKey
+        nestedKey: field.nestedKey,
+        valueSource: undefined,
+        valueField: undefined,
+        // Text options carry over between text fields
+        textOptions: field.type === 'text' ? condition.textOptions : undefined
       };
-      onConditionChange(updated);
-      // Check if this new configuration is valid
-      const error = FilterValidator.validateCondition(updated);
-      setValidationError(error);
+      updateCondition(updated);
     }
   };
 
@@ -72,25 +124,76 @@ export const FilterConditionComponent: React.FC<FilterConditionProps> = ({
     // - "equals" might use a single number, but "between" uses min/max
     // - "single select" uses a string, but "multi-select" uses an array
     // So changing the operator means changing the value structure.
+    // A field comparison survives the change only if the new operator can compare fields too
+    const keepFieldComparison =
+      condition.valueSource === 'field' && fieldComparisonOperators.includes(operator);
     const updated = {
       ...condition,
       operator: operator as any,
-      value: getDefaultValue(condition.fieldType, operator)
+      value: getDefaultValue(condition.fieldType, operator),
+      valueSource: keepFieldComparison ? condition.valueSource : undefined,
+      valueField: keepFieldComparison ? condition.valueField : undefined
     };
-    onConditionChange(updated);
-    // Validate to ensure the new operator + value combo makes sense
-    const error = FilterValidator.validateCondition(updated);
-    setValidationError(error);
+    updateCondition(updated);
   };
 
   const handleValueChange = (newValue: any) => {
     // This is called when the user types/selects a value in the input field.
-    // We validate in real-time so the user sees errors immediately
-    const updated = { ...condition, value: newValue };
-    onConditionChange(updated);
-    // Validate the updated condition
-    const error = FilterValidator.validateCondition(updated);
-    setValidationError(error);
+    // The error follows from the updated condition, so the user sees it immediately
+    updateCondition({ ...condition, value: newValue });
+  };
+
+  const handleValueSourceChange = (valueSource: 'value' | 'field') => {
+    const updated: FilterCondition = {
+      ...condition,
+      valueSource,
+      valueField: undefined,
+      value: getDefaultValue(condition.fieldType, condition.operator)
+    };
+    updateCondition(updated);
+  };
+
+  const handleValueFieldChange = (valueField: string) => {
+    updateCondition({ ...condition, valueField });
+  };
+
+  const handleTextOptionsChange = (textOptions: TextMatchOptions | undefined) => {
+    updateCondition({ ...condition, textOptions });
+  };
+
+  const renderValueSlot = () => {
+    if (!canCompareWithField) return renderValueInput();
+
+    const isFieldMode = condition.valueSource === 'field';
+    return (
+      <Stack direction="row" spacing={1} sx={{ alignItems: 'center' }}>
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={isFieldMode ? 'field' : 'value'}
+          onChange={(_, val) => val && handleValueSourceChange(val)}
+          aria-label="Compare against a value or another field"
+        >
+          <ToggleButton value="value" sx={{ textTransform: 'none', px: 1 }} title="Compare against a value">
+            Value
+          </ToggleButton>
+          <ToggleButton value="field" sx={{ textTransform: 'none', px: 1 }} title="Compare against another field">
+            Field
+          </ToggleButton>
+        </ToggleButtonGroup>
+        <Box sx={{ flex: 1 }}>
+          {isFieldMode ? (
+            <SelectInput
+              value={condition.valueField || ''}
+              onChange={handleValueFieldChange}
+              options={comparableFields.map(f => ({ label: f.label, value: f.key }))}
+            />
+          ) : (
+            renderValueInput()
+          )}
+        </Box>
+      </Stack>
+    );
   };
 
   const renderValueInput = () => {
@@ -98,6 +201,15 @@ export const FilterConditionComponent: React.FC<FilterConditionProps> = ({
     // For example, dates need a date picker, numbers need numeric validation, etc.
     if (!selectedField) return null;
 
+    // Operators like "this quarter" are complete on their own
+    if (!FilterValidator.requiresValue(condition.operator)) {
+      return (
+        <Typography variant="body2" color="textSecondary" sx={{ py: 1 }}>
+          No value needed
+        </Typography>
+      );
+    }
+
     switch (selectedField.type) {
       case 'text':
         // Simple text input for text fields (name, email, etc.)
@@ -105,7 +217,11 @@ export const FilterConditionComponent: React.FC<FilterConditionProps> = ({
           <TextInput
             value={condition.value || ''}
             onChange={(val) => handleValueChange(val)}
-            placeholder="Enter text"
+            placeholder={condition.operator === 'regex' ? 'Enter a pattern' : 'Enter text'}
+            error={!!error?.value}
+            suggestions={valueSuggestions.suggestions}
+            loading={valueSuggestions.loading}
+            suggestionsError={valueSuggestions.error}
           />
         );
 
@@ -143,7 +259,26 @@ export const FilterConditionComponent: React.FC<FilterConditionProps> = ({
         }
 
       case 'date':
-        if (condition.operator === 'between') {
+        if (RelativeDate.amountOperators.includes(condition.operator)) {
+          return (
+            <RelativeDateInput
+              amount={condition.value?.amount ?? ''}
+              unit={condition.value?.unit || 'days'}
+              onAmountChange={(val) =>
+                handleValueChange({
+                  ...condition.value,
+                  amount: val
+                })
+              }
+              onUnitChange={(val) =>
+                handleValueChange({
+                  ...condition.value,
+                  unit: val
+                })
+              }
+            />
+          );
+        } else if (condition.operator === 'between') {
           return (
             <DateRangeInput
               fromDate={condition.value?.from || ''}
@@ -177,6 +312,7 @@ export const FilterConditionComponent: React.FC<FilterConditionProps> = ({
             value={condition.value || ''}
             onChange={(val) => handleValueChange(val)}
             options={selectedField.options || []}
+            counts={stats?.facets}
           />
         );
 
@@ -186,6 +322,8 @@ export const FilterConditionComponent: React.FC<FilterConditionProps> = ({
             value={Array.isArray(condition.value) ? condition.value : []}
             onChange={(val) => handleValueChange(val)}
             options={selectedField.options || []}
+            counts={stats?.facets}
+            label={`Select ${selectedField.label.toLowerCase()}`}
           />
         );
 
@@ -203,11 +341,21 @@ export const FilterConditionComponent: React.FC<FilterConditionProps> = ({
   };
 
   return (
-    <Card sx={{ mb: 2, backgroundColor: validationError ? '#ffebee' : '#f5f5f5', borderColor: validationError ? '#ef5350' : 'transparent', borderWidth: validationError ? 2 : 0, borderStyle: 'solid' }}>
+    <Card
+      data-condition-id={condition.id}
+      sx={{
+        mb: 2,
+        backgroundColor: error ? '#ffebee' : '#f5f5f5',
+        borderColor: error ? '#ef5350' : 'transparent',
+        borderWidth: error ? 2 : 0,
+        borderStyle: 'solid',
+        opacity: enabled ? 1 : 0.6
+      }}
+    >
       <CardContent>
-        {validationError && (
+        {error && (
           <Alert severity="error" sx={{ mb: 2 }} role="alert">
-            {validationError.field || validationError.operator || validationError.value || validationError.general}
+            {error.field || error.operator || error.value || error.general}
           </Alert>
         )}
         <Grid container spacing={2}>
@@ -223,7 +371,7 @@ export const FilterConditionComponent: React.FC<FilterConditionProps> = ({
                 aria-label="Select a field to filter on"
                 title="Choose which field you want to filter"
               >
-                {fieldDefinitions.map((field) => (
+                {schema.fields.map((field) => (
                   <MenuItem key={field.key} value={field.key}>
                     {field.label}
                   </MenuItem>
@@ -254,12 +402,35 @@ export const FilterConditionComponent: React.FC<FilterConditionProps> = ({
           </Grid>
 
           {/* Value Input */}
-          <Grid size={{ xs: 12, sm: 5 }}>
-            {renderValueInput()}
+          <Grid size={{ xs: 12, sm: 4 }}>
+            {renderValueSlot()}
           </Grid>
 
-          {/* Delete Button */}
-          <Grid size={{ xs: 12, sm: 1 }} sx={{ display: 'flex', justifyContent: 'flex-end' }}>
+          {/* Text options, Enable, Duplicate and Delete */}
+          <Grid size={{ xs: 12, sm: 2 }} sx={{ display: 'flex', justifyContent: 'flex-end', alignItems: 'flex-start' }}>
+            {selectedField?.type === 'text' && FilterValidator.requiresValue(condition.operator) && (
+              <TextMatchOptionsButton
+                operator={condition.operator}
+                options={condition.textOptions}
+                onChange={handleTextOptionsChange}
+              />
+            )}
+            <Switch
+              size="small"
+              checked={enabled}
+              onChange={(e) => onEnabledChange(e.target.checked)}
+              slotProps={{ input: { 'aria-label': `${enabled ? 'Disable' : 'Enable'} filter for ${selectedField?.label || 'field'}` } }}
+              title={enabled ? 'Disable this filter without removing it' : 'Enable this filter again'}
+              sx={{ mt: 0.5 }}
+            />
+            <IconButton
+              onClick={onDuplicate}
+              size="small"
+              title="Duplicate this filter"
+              aria-label={`Duplicate filter for ${selectedField?.label || 'field'}`}
+            >
+              <Copy size={18} />
+            </IconButton>
             <IconButton
               onClick={onRemove}
               color="error"
@@ -271,46 +442,31 @@ export const FilterConditionComponent: React.FC<FilterConditionProps> = ({
             </IconButton>
           </Grid>
         </Grid>
+
+        {/* Which condition is eliminating everything? The count drops to 0 at that one. */}
+        {enabled && stats?.matches !== undefined && (
+          <Typography
+            variant="caption"
+            color={stats.remaining === 0 ? 'error' : 'textSecondary'}
+            sx={{ display: 'block', mt: 1 }}
+          >
+            Matches {stats.matches} on its own · {stats.remaining} left after this filter
+          </Typography>
+        )}
       </CardContent>
     </Card>
   );
 };
 
-function getOperatorLabel(operator: string): string {
-  const labels: { [key: string]: string } = {
-    // Text operators
-    equals: 'Equals',
-    contains: 'Contains',
-    startsWith: 'Starts With',
-    endsWith: 'Ends With',
-    notContains: 'Does Not Contain',
-    regex: 'Regex Pattern',
-
-    // Number operators
-    greaterThan: 'Greater Than',
-    lessThan: 'Less Than',
-    greaterThanOrEqual: 'Greater Than or Equal',
-    lessThanOrEqual: 'Less Than or Equal',
-    between: 'Between',
-
-    // Date operators
-    before: 'Before',
-    after: 'After',
-
-    // Select operators
-    is: 'Is',
-    isNot: 'Is Not',
-
-    // Multi-select operators
-    in: 'In',
-    notIn: 'Not In',
-    containsAll: 'Contains All'
-  };
+function getDefaultValue(fieldType: string, operator?: string): any {
+  if (operator && RelativeDate.amountOperators.includes(operator)) {
+    return { amount: '', unit: 'days' };
+  }
 
-  return labels[operator] || operator;
-}
+  if (operator && !FilterValidator.requiresValue(operator)) {
+    return null;
+  }
 
-function getDefaultValue(fieldType: string, operator?: string): any {
   if (operator === 'between') {
     if (fieldType === 'date') {
       return { from: '', to: '' };
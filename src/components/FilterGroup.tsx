@@ -0,0 +1,348 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  IconButton,
+  MenuItem,
+  Select,
+  Stack,
+  Typography
+} from '@mui/material';
+import { ChevronDown, ChevronRight, Copy, FolderPlus, GripVertical, Plus, Trash2 } from 'lucide-react';
+import type { ConditionStats, DataSchema, EvaluationMode, FilterCondition, FilterGroup, FilterNode } from '../types';
+import { FilterConditionComponent } from './FilterCondition';
+import { FilterTree } from '../utils/filterTree';
+
+/**
+ * Rendering for the (possibly nested) filter tree.
+ *
+ * - FilterNodeList: renders a list of sibling nodes with a clickable AND/OR connector chip between them.
+ *   Each node has a drag handle to reorder it among its siblings - drag it with the mouse, or focus it
+ *   and use the up/down arrow keys.
+ * - FilterGroupComponent: a collapsible card for a nested group with its own AND/OR operator
+ *
+ * All callbacks are keyed by node id, so a change deep inside the tree is handed straight
+ * back to FilterBuilder, which applies it to the whole tree with FilterTree.updateNode.
+ */
+
+export interface FilterNodeCallbacks {
+  onUpdateCondition: (id: string, condition: FilterCondition) => void;
+  onUpdateGroup: (id: string, group: FilterGroup) => void;
+  onRemoveNode: (id: string) => void;
+  onDuplicateNode: (id: string) => void;
+  onMoveNode: (id: string, toIndex: number) => void;
+  onSetEnabled: (id: string, enabled: boolean) => void;
+  onToggleConnector: (id: string) => void;
+}
+
+interface ConnectorChipProps {
+  logicalOperator: 'AND' | 'OR';
+  onToggle: () => void;
+}
+
+const ConnectorChip: React.FC<ConnectorChipProps> = ({ logicalOperator, onToggle }) => {
+  const other = logicalOperator === 'AND' ? 'OR' : 'AND';
+  return (
+    <Box sx={{ mb: 1, display: 'flex', justifyContent: 'center' }}>
+      <Chip
+        label={logicalOperator}
+        size="small"
+        onClick={onToggle}
+        aria-label={`Combined with ${logicalOperator}. Click to switch to ${other}`}
+        title={`Click to switch to ${other}`}
+        sx={{
+          minWidth: 64,
+          fontWeight: 600,
+          backgroundColor: logicalOperator === 'AND' ? '#e3f2fd' : '#f3e5f5',
+          color: logicalOperator === 'AND' ? '#1565c0' : '#6a1b9a',
+          '&:hover': {
+            backgroundColor: logicalOperator === 'AND' ? '#bbdefb' : '#e1bee7'
+          }
+        }}
+      />
+    </Box>
+  );
+};
+
+// Keeps the move announcements for screen readers off screen
+const visuallyHidden = {
+  position: 'absolute',
+  width: 1,
+  height: 1,
+  overflow: 'hidden',
+  clip: 'rect(0 0 0 0)',
+  whiteSpace: 'nowrap'
+} as const;
+
+interface FilterNodeListProps extends FilterNodeCallbacks {
+  schema: DataSchema;
+  nodes: FilterNode[];
+  logicalOperator: 'AND' | 'OR';
+  evaluationMode?: EvaluationMode;
+  // Called when a connector chip is clicked in 'uniform' mode, since there the chips
+  // all show the list's single operator
+  onLogicalOperatorChange: (logicalOperator: 'AND' | 'OR') => void;
+  depth?: number;
+  conditionStats?: Map<string, ConditionStats>;
+}
+
+export const FilterNodeList: React.FC<FilterNodeListProps> = ({
+  schema,
+  nodes,
+  logicalOperator,
+  evaluationMode = 'uniform',
+  onLogicalOperatorChange,
+  depth = 0,
+  conditionStats,
+  ...callbacks
+}) => {
+  // The node being dragged, and where it would land if dropped now
+  const [dragId, setDragId] = useState<string | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  // Read out by screen readers after a keyboard move
+  const [announcement, setAnnouncement] = useState('');
+
+  const dragIndex = nodes.findIndex(node => node.id === dragId);
+
+  const endDrag = () => {
+    setDragId(null);
+    setDropIndex(null);
+  };
+
+  const handleDragStart = (e: React.DragEvent, node: FilterNode) => {
+    e.dataTransfer.effectAllowed = 'move';
+    e.dataTransfer.setData('text/plain', node.id);
+    // Show the whole card being dragged, not just the handle
+    const row = e.currentTarget.closest('[data-node-row]');
+    if (row) e.dataTransfer.setDragImage(row, 0, 0);
+    setDragId(node.id);
+  };
+
+  // Only siblings accept the drop. Anything else bubbles up, so a node dragged over a nested
+  // group's children can still be dropped onto the group itself.
+  const handleDragOver = (e: React.DragEvent, index: number) => {
+    if (dragIndex === -1) return;
+    e.preventDefault();
+    e.stopPropagation();
+    e.dataTransfer.dropEffect = 'move';
+    if (dropIndex !== index) setDropIndex(index);
+  };
+
+  const handleDrop = (e: React.DragEvent, index: number) => {
+    if (dragIndex === -1) return;
+    e.preventDefault();
+    e.stopPropagation();
+    if (index !== dragIndex) callbacks.onMoveNode(nodes[dragIndex].id, index);
+    endDrag();
+  };
+
+  const handleReorderKeyDown = (e: React.KeyboardEvent, node: FilterNode, index: number) => {
+    const toIndex = e.key === 'ArrowUp' ? index - 1 : e.key === 'ArrowDown' ? index + 1 : null;
+    if (toIndex === null) return;
+
+    e.preventDefault();
+    if (toIndex < 0 || toIndex >= nodes.length) return;
+    callbacks.onMoveNode(node.id, toIndex);
+    setAnnouncement(`Moved to position ${toIndex + 1} of ${nodes.length}`);
+  };
+
+  return (
+    <Box>
+      <Box aria-live="polite" sx={visuallyHidden}>
+        {announcement}
+      </Box>
+      {nodes.map((node, index) => (
+        <React.Fragment key={node.id}>
+          {index > 0 && (
+            evaluationMode === 'chain' ? (
+              <ConnectorChip
+                logicalOperator={FilterTree.getConnector(node)}
+                onToggle={() => callbacks.onToggleConnector(node.id)}
+              />
+            ) : (
+              <ConnectorChip
+                logicalOperator={logicalOperator}
+                onToggle={() => onLogicalOperatorChange(logicalOperator === 'AND' ? 'OR' : 'AND')}
+              />
+            )
+          )}
+          <Box
+            data-node-row
+            onDragOver={(e) => handleDragOver(e, index)}
+            onDrop={(e) => handleDrop(e, index)}
+            sx={{
+              display: 'flex',
+              alignItems: 'flex-start',
+              opacity: node.id === dragId ? 0.5 : 1,
+              // Show where the node will land: above this one when moving up, below it when moving down
+              ...(dropIndex === index && dragIndex !== -1 && dropIndex !== dragIndex && {
+                [dropIndex < dragIndex ? 'borderTop' : 'borderBottom']: '3px solid #1976d2'
+              })
+            }}
+          >
+            <IconButton
+              size="small"
+              draggable
+              onDragStart={(e) => handleDragStart(e, node)}
+              onDragEnd={endDrag}
+              onKeyDown={(e) => handleReorderKeyDown(e, node, index)}
+              aria-label={`Reorder ${FilterTree.isGroup(node) ? 'group' : 'filter'} ${index + 1} of ${nodes.length}. Use the up and down arrow keys to move it`}
+              title="Drag to reorder, or focus and use the arrow keys"
+              sx={{ cursor: 'grab', mt: 1.5, mr: 0.5 }}
+            >
+              <GripVertical size={18} />
+            </IconButton>
+            <Box sx={{ flex: 1, minWidth: 0 }}>
+              {FilterTree.isGroup(node) ? (
+                <FilterGroupComponent
+                  schema={schema}
+                  group={node}
+                  depth={depth + 1}
+                  conditionStats={conditionStats}
+                  {...callbacks}
+                />
+              ) : (
+                <FilterConditionComponent
+                  schema={schema}
+                  condition={node}
+                  onConditionChange={(updated) => callbacks.onUpdateCondition(node.id, updated)}
+                  onRemove={() => callbacks.onRemoveNode(node.id)}
+                  onDuplicate={() => callbacks.onDuplicateNode(node.id)}
+                  onEnabledChange={(enabled) => callbacks.onSetEnabled(node.id, enabled)}
+                  stats={conditionStats?.get(node.id)}
+                />
+              )}
+            </Box>
+          </Box>
+        </React.Fragment>
+      ))}
+    </Box>
+  );
+};
+
+interface FilterGroupProps extends FilterNodeCallbacks {
+  schema: DataSchema;
+  group: FilterGroup;
+  depth: number;
+  conditionStats?: Map<string, ConditionStats>;
+}
+
+export const FilterGroupComponent: React.FC<FilterGroupProps> = ({ schema, group, depth, conditionStats, ...callbacks }) => {
+  const { onUpdateGroup, onRemoveNode, onDuplicateNode } = callbacks;
+
+  const handleAddFilter = () => {
+    onUpdateGroup(group.id, {
+      ...group,
+      conditions: [...group.conditions, FilterTree.createCondition()]
+    });
+  };
+
+  const handleAddGroup = () => {
+    onUpdateGroup(group.id, {
+      ...group,
+      conditions: [...group.conditions, FilterTree.createGroup()]
+    });
+  };
+
+  const conditionCount = FilterTree.getConditions(group.conditions).length;
+
+  return (
+    <Card
+      variant="outlined"
+      sx={{ mb: 2, backgroundColor: depth % 2 === 1 ? '#fff' : '#fafafa', borderLeft: '4px solid #90caf9' }}
+      role="group"
+      aria-label="Filter group"
+    >
+      <CardContent sx={{ pb: '16px !important' }}>
+        <Stack direction="row" spacing={1} sx={{ alignItems: 'center', mb: group.collapsed ? 0 : 2 }}>
+          <IconButton
+            size="small"
+            onClick={() => onUpdateGroup(group.id, { ...group, collapsed: !group.collapsed })}
+            aria-label={group.collapsed ? 'Expand group' : 'Collapse group'}
+            aria-expanded={!group.collapsed}
+            title={group.collapsed ? 'Expand group' : 'Collapse group'}
+          >
+            {group.collapsed ? <ChevronRight size={18} /> : <ChevronDown size={18} />}
+          </IconButton>
+          <Typography variant="body2" sx={{ fontWeight: 600 }}>
+            Group
+          </Typography>
+          <Typography variant="body2" color="textSecondary">
+            match
+          </Typography>
+          <Select
+            size="small"
+            value={FilterTree.getMatchMode(group)}
+            onChange={(e) =>
+              onUpdateGroup(group.id, FilterTree.setMatchMode(group, e.target.value as 'AND' | 'OR' | 'chain'))
+            }
+            aria-label="Select how conditions in this group are combined"
+            sx={{ minWidth: 120 }}
+          >
+            <MenuItem value="AND">ALL (AND)</MenuItem>
+            <MenuItem value="OR">ANY (OR)</MenuItem>
+            <MenuItem value="chain">MIXED (per connector)</MenuItem>
+          </Select>
+          <Typography variant="caption" color="textSecondary" sx={{ flex: 1 }}>
+            {conditionCount} {conditionCount === 1 ? 'condition' : 'conditions'}
+          </Typography>
+          <IconButton
+            onClick={() => onDuplicateNode(group.id)}
+            size="small"
+            title="Duplicate this group"
+            aria-label="Duplicate this group and all its conditions"
+          >
+            <Copy size={18} />
+          </IconButton>
+          <IconButton
+            onClick={() => onRemoveNode(group.id)}
+            color="error"
+            size="small"
+            title="Remove this group"
+            aria-label="Remove this group and all its conditions"
+          >
+            <Trash2 size={20} />
+          </IconButton>
+        </Stack>
+
+        {!group.collapsed && (
+          <>
+            <FilterNodeList
+              schema={schema}
+              nodes={group.conditions}
+              logicalOperator={group.logicalOperator}
+              evaluationMode={group.evaluationMode}
+              onLogicalOperatorChange={(logicalOperator) => onUpdateGroup(group.id, { ...group, logicalOperator })}
+              depth={depth}
+              conditionStats={conditionStats}
+              {...callbacks}
+            />
+            <Stack direction="row" spacing={1}>
+              <Button
+                size="small"
+                startIcon={<Plus size={16} />}
+                onClick={handleAddFilter}
+                sx={{ textTransform: 'none' }}
+                aria-label="Add a filter condition to this group"
+              >
+                Add Filter
+              </Button>
+              <Button
+                size="small"
+                startIcon={<FolderPlus size={16} />}
+                onClick={handleAddGroup}
+                sx={{ textTransform: 'none' }}
+                aria-label="Add a nested group to this group"
+              >
+                Add Group
+              </Button>
+            </Stack>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,14 +1,16 @@
 import React from 'react';
-import { Box, TextField, MenuItem, Select, FormControl, InputLabel, FormControlLabel, Switch, Chip, Stack } from '@mui/material';
+import { Autocomplete, Box, TextField, MenuItem, Select, FormControl, InputLabel, FormControlLabel, Switch, Chip, Stack, Typography } from '@mui/material';
+import type { RelativeDateUnit, ValueSuggestion } from '../types';
 
 /**
  * Collection of reusable input components for different data types.
  * 
  * Each component is kept simple and focused on a single input type:
- * - TextInput: Simple text field
+ * - TextInput: Text field that suggests values as you type (free text is always fine)
  * - NumberInput: Numeric input with validation
  * - DateInput: Single date picker
  * - DateRangeInput: Two date pickers for "from" and "to" dates
+ * - RelativeDateInput: Amount + unit for rolling dates like "in the last 90 days"
  * - AmountRangeInput: Two number fields for min/max amounts (usually with currency formatting)
  * - SelectInput: Dropdown for single selection
  * - MultiSelectInput: Dropdown with checkboxes for multiple selections
@@ -21,15 +23,45 @@ interface TextInputProps {
   value: string;
   onChange: (value: string) => void;
   placeholder?: string;
+  suggestions?: ValueSuggestion[]; // Already ranked - see useValueSuggestions
+  loading?: boolean;
+  error?: boolean; // Outline the input, e.g. for a regex pattern that doesn't compile
+  suggestionsError?: boolean; // The suggestions couldn't be loaded - typing still works
 }
 
-export const TextInput: React.FC<TextInputProps> = ({ value, onChange, placeholder }) => (
-  <TextField
+export const TextInput: React.FC<TextInputProps> = ({
+  value,
+  onChange,
+  placeholder,
+  suggestions = [],
+  loading,
+  error,
+  suggestionsError
+}) => (
+  <Autocomplete
+    freeSolo
     size="small"
-    value={value}
-    onChange={(e) => onChange(e.target.value)}
-    placeholder={placeholder}
     fullWidth
+    options={suggestions.map(suggestion => suggestion.value)}
+    // The suggestions are already filtered for what's typed, in the order they should appear
+    filterOptions={(options) => options}
+    value={value}
+    inputValue={value}
+    onInputChange={(_, newValue) => onChange(newValue)}
+    loading={loading}
+    renderOption={({ key, ...optionProps }, option) => (
+      <li key={key} {...optionProps}>
+        <OptionLabel label={option} count={suggestions.find(s => s.value === option)?.count} />
+      </li>
+    )}
+    renderInput={(params) => (
+      <TextField
+        {...params}
+        placeholder={placeholder}
+        error={error}
+        helperText={suggestionsError ? 'Suggestions unavailable' : undefined}
+      />
+    )}
   />
 );
 
@@ -106,6 +138,43 @@ export const DateRangeInput: React.FC<DateRangeInputProps> = ({
   </Stack>
 );
 
+interface RelativeDateInputProps {
+  amount: number | string;
+  unit: RelativeDateUnit;
+  onAmountChange: (value: number | string) => void;
+  onUnitChange: (value: RelativeDateUnit) => void;
+}
+
+export const RelativeDateInput: React.FC<RelativeDateInputProps> = ({
+  amount,
+  unit,
+  onAmountChange,
+  onUnitChange
+}) => (
+  <Stack direction="row" spacing={1} sx={{ width: '100%' }}>
+    <TextField
+      size="small"
+      type="number"
+      value={amount}
+      onChange={(e) => onAmountChange(e.target.value === '' ? '' : Number(e.target.value))}
+      label="Amount"
+      inputProps={{ min: 1, step: 1 }}
+      sx={{ flex: 1 }}
+    />
+    <FormControl size="small" sx={{ flex: 1 }}>
+      <Select
+        value={unit}
+        onChange={(e) => onUnitChange(e.target.value as RelativeDateUnit)}
+        aria-label="Select a time unit"
+      >
+        <MenuItem value="days">Days</MenuItem>
+        <MenuItem value="weeks">Weeks</MenuItem>
+        <MenuItem value="months">Months</MenuItem>
+      </Select>
+    </FormControl>
+  </Stack>
+);
+
 interface AmountRangeInputProps {
   min: number | string;
   max: number | string;
@@ -139,24 +208,40 @@ export const AmountRangeInput: React.FC<AmountRangeInputProps> = ({
   </Stack>
 );
 
+// Option label with the number of records that have it (facet count). Options no record has
+// are greyed out but can still be picked.
+const OptionLabel: React.FC<{ label: string; count?: number }> = ({ label, count }) => (
+  <Box sx={{ display: 'flex', width: '100%', gap: 2, color: count === 0 ? 'text.disabled' : undefined }}>
+    <Box sx={{ flex: 1 }}>{label}</Box>
+    {count !== undefined && (
+      <Typography variant="caption" color="textSecondary" aria-label={`${count} records`}>
+        {count}
+      </Typography>
+    )}
+  </Box>
+);
+
 interface SelectInputProps {
   value: string;
   onChange: (value: string) => void;
-  options: Array<{ label: string; value: string | number }>;
+  options: Array<{ label: string; value: string | number; count?: number }>;
+  counts?: Record<string, number>; // Records per option value, shown next to each option
 }
 
-export const SelectInput: React.FC<SelectInputProps> = ({ value, onChange, options }) => (
+export const SelectInput: React.FC<SelectInputProps> = ({ value, onChange, options, counts }) => (
   <FormControl size="small" fullWidth>
     <Select
       value={value}
       onChange={(e) => onChange(e.target.value)}
+      // Just the label once picked - the count belongs in the list
+      renderValue={(selected) => options.find(o => String(o.value) === selected)?.label ?? selected}
     >
       <MenuItem value="">
         <em>Select an option</em>
       </MenuItem>
       {options.map((opt) => (
         <MenuItem key={opt.value} value={opt.value}>
-          {opt.label}
+          <OptionLabel label={opt.label} count={counts ? (counts[String(opt.value)] ?? 0) : opt.count} />
         </MenuItem>
       ))}
     </Select>
@@ -166,17 +251,21 @@ export const SelectInput: React.FC<SelectInputProps> = ({ value, onChange, optio
 interface MultiSelectInputProps {
   value: (string | number)[];
   onChange: (value: (string | number)[]) => void;
-  options: Array<{ label: string; value: string | number }>;
+  options: Array<{ label: string; value: string | number; count?: number }>;
+  counts?: Record<string, number>; // Records per option value, shown next to each option
+  label?: string; // e.g. "Select skills"
 }
 
 export const MultiSelectInput: React.FC<MultiSelectInputProps> = ({
   value,
   onChange,
-  options
+  options,
+  counts,
+  label = 'Select values'
 }) => {
   return (
     <FormControl size="small" fullWidth>
-      <InputLabel>Select skills</InputLabel>
+      <InputLabel>{label}</InputLabel>
       <Select
         multiple
         value={value}
@@ -195,7 +284,7 @@ export const MultiSelectInput: React.FC<MultiSelectInputProps> = ({
       >
         {options.map((opt) => (
           <MenuItem key={opt.value} value={opt.value}>
-            {opt.label}
+            <OptionLabel label={opt.label} count={counts ? (counts[String(opt.value)] ?? 0) : opt.count} />
           </MenuItem>
         ))}
       </Select>
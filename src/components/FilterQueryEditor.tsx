@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { Alert, Box, TextField, Typography } from '@mui/material';
+import type { DataSchema, FilterState } from '../types';
+import { FilterQuery, FilterQueryError } from '../utils/filterQuery';
+import { FilterTree } from '../utils/filterTree';
+import { FilterValidator } from '../utils/filterValidator';
+
+/**
+ * Text mode for the filter builder
+ *
+ * Shows the current filters as query text (e.g. department = Engineering AND salary > 100000)
+ * and applies the text back as filters whenever it parses. If it doesn't, we show where the
+ * problem is and keep the last valid filters applied, so a half-typed query never breaks the table.
+ */
+
+interface FilterQueryEditorProps {
+  schema: DataSchema;
+  filterState: FilterState;
+  onFiltersChange: (filterState: FilterState) => void;
+}
+
+// Only what the query language can express - unfinished and invalid conditions would not parse back
+const printQuery = (schema: DataSchema, filterState: FilterState) =>
+  FilterQuery.print({ ...filterState, conditions: FilterValidator.getValidNodes(schema, filterState.conditions) });
+
+const countFilters = (count: number, kind: string) => (count === 1 ? `1 ${kind} filter` : `${count} ${kind} filters`);
+
+export const FilterQueryEditor: React.FC<FilterQueryEditorProps> = ({ schema, filterState, onFiltersChange }) => {
+  // Printed when the editor opens - re-printing on every change would fight the user's typing
+  const [text, setText] = useState(() => printQuery(schema, filterState));
+  const [error, setError] = useState<FilterQueryError | null>(null);
+
+  // The filters we last sent up. Anything else arriving in filterState was replaced from
+  // outside (a preset was loaded, another tab changed them), so the text is re-printed.
+  const [ownFilterState, setOwnFilterState] = useState(filterState);
+  if (filterState !== ownFilterState) {
+    setOwnFilterState(filterState);
+    setText(printQuery(schema, filterState));
+    setError(null);
+  }
+
+  // Disabled, unfinished and invalid conditions aren't in the text, so editing it drops them
+  const conditions = FilterTree.getConditions(filterState.conditions);
+  const disabledCount = conditions.filter(c => !FilterTree.isEnabled(c)).length;
+  const invalidCount = conditions.filter(c => FilterTree.isEnabled(c) && FilterValidator.validateCondition(schema, c)).length;
+  const hidden = [
+    disabledCount > 0 && countFilters(disabledCount, 'disabled'),
+    invalidCount > 0 && countFilters(invalidCount, 'unfinished or invalid')
+  ].filter(Boolean);
+
+  const handleChange = (newText: string) => {
+    setText(newText);
+    try {
+      // Parsed against the previous filters, so conditions keep their ids (and their stats) while typing
+      const parsed = FilterQuery.parse(schema, newText, ownFilterState);
+      setError(null);
+      setOwnFilterState(parsed);
+      onFiltersChange(parsed);
+    } catch (err) {
+      if (err instanceof FilterQueryError) {
+        setError(err);
+      } else {
+        throw err;
+      }
+    }
+  };
+
+  return (
+    <Box>
+      {hidden.length > 0 && (
+        <Alert severity="info" sx={{ mb: 1 }}>
+          {hidden.join(' and ')} {disabledCount + invalidCount === 1 ? 'is' : 'are'} not shown here, and will be
+          removed if you edit the query.
+        </Alert>
+      )}
+      <TextField
+        multiline
+        minRows={3}
+        fullWidth
+        value={text}
+        onChange={(e) => handleChange(e.target.value)}
+        placeholder={schema.queryExamples?.query}
+        error={!!error}
+        inputProps={{
+          'aria-label': 'Filter query',
+          spellCheck: false,
+          style: { fontFamily: 'monospace' }
+        }}
+      />
+
+      {error ? (
+        <Alert severity="error" sx={{ mt: 1 }} role="alert">
+          <Typography variant="body2">{error.message}</Typography>
+          {/* Point at the problem: the query with a caret under the offending position */}
+          <Box
+            component="pre"
+            sx={{ fontFamily: 'monospace', fontSize: '0.8rem', m: 0, mt: 1, whiteSpace: 'pre', overflowX: 'auto' }}
+          >
+            {text.replace(/\n/g, ' ')}
+            {'\n'}
+            {' '.repeat(error.position)}^
+          </Box>
+        </Alert>
+      ) : (
+        <Typography variant="caption" color="textSecondary" sx={{ display: 'block', mt: 1 }}>
+          Use field names or labels (quoted if they have spaces), AND/OR and parentheses. AND binds tighter than OR.
+          Compare with another field using @{schema.queryExamples && `, e.g. ${schema.queryExamples.fieldComparison}`}.
+        </Typography>
+      )}
+    </Box>
+  );
+};
@@ -0,0 +1,281 @@
+import React, { useRef, useState } from 'react';
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  IconButton,
+  ListItemIcon,
+  ListItemText,
+  Menu,
+  MenuItem,
+  Snackbar,
+  Stack,
+  TextField,
+  Typography
+} from '@mui/material';
+import { Bookmark, Copy, Download, Pencil, Save, Star, Trash2, Upload } from 'lucide-react';
+import type { FilterPreset, FilterState } from '../types';
+import type { PresetActions } from '../hooks/usePresets';
+import { PresetImportError, PresetStore } from '../utils/presetStore';
+
+/**
+ * Presets menu in the filter builder header
+ *
+ * Save the current filters under a name, load them again with one click, and manage the list:
+ * rename, duplicate, delete and star a preset to have it loaded when the app starts.
+ * Preset collections can be exported to a JSON file and imported elsewhere.
+ */
+
+interface PresetMenuProps extends PresetActions {
+  filterState: FilterState;
+  onLoadPreset: (preset: FilterPreset) => void;
+}
+
+// Which dialog is open: saving the current filters, or editing an existing preset's name/description
+type DialogState = { mode: 'save' } | { mode: 'rename'; preset: FilterPreset } | null;
+
+export const PresetMenu: React.FC<PresetMenuProps> = ({
+  filterState,
+  onLoadPreset,
+  presets,
+  savePreset,
+  renamePreset,
+  duplicatePreset,
+  deletePreset,
+  setDefaultPreset,
+  importPresets,
+  exportPresets
+}) => {
+  const [menuAnchor, setMenuAnchor] = useState<HTMLElement | null>(null);
+  const [dialog, setDialog] = useState<DialogState>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const closeMenu = () => setMenuAnchor(null);
+
+  const handleLoad = (preset: FilterPreset) => {
+    onLoadPreset(preset);
+    closeMenu();
+  };
+
+  const handleDelete = (preset: FilterPreset) => {
+    if (window.confirm(`Delete the preset "${preset.name}"?`)) {
+      deletePreset(preset.id);
+    }
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow importing the same file again
+    if (!file) return;
+
+    try {
+      const { presets: imported, repairs } = importPresets(await file.text());
+      const count = imported.length;
+      const fixed = repairs.length ? ` - ${repairs.length} filter${repairs.length === 1 ? ' was' : 's were'} fixed for the current fields` : '';
+      setMessage(`Imported ${count} preset${count === 1 ? '' : 's'}${fixed}`);
+    } catch (err) {
+      if (!(err instanceof PresetImportError)) throw err;
+      setMessage(`Import failed: ${err.message}`);
+    }
+    closeMenu();
+  };
+
+  const handleDialogConfirm = (name: string, description: string) => {
+    if (dialog?.mode === 'save') {
+      savePreset(name, filterState, description || undefined);
+      setMessage(`Saved preset "${name}"`);
+    } else if (dialog?.mode === 'rename') {
+      renamePreset(dialog.preset.id, name, description || undefined);
+    }
+    setDialog(null);
+  };
+
+  return (
+    <>
+      <Button
+        size="small"
+        variant="outlined"
+        startIcon={<Bookmark size={16} />}
+        onClick={(e) => setMenuAnchor(e.currentTarget)}
+        aria-haspopup="true"
+        aria-label="Saved filter presets"
+        sx={{ textTransform: 'none' }}
+      >
+        Presets
+      </Button>
+
+      <Menu anchorEl={menuAnchor} open={Boolean(menuAnchor)} onClose={closeMenu} slotProps={{ paper: { sx: { minWidth: 320 } } }}>
+        <MenuItem
+          onClick={() => {
+            setDialog({ mode: 'save' });
+            closeMenu();
+          }}
+          disabled={filterState.conditions.length === 0}
+        >
+          <ListItemIcon><Save size={16} /></ListItemIcon>
+          <ListItemText primary="Save current filters..." />
+        </MenuItem>
+
+        <Divider />
+
+        {presets.length === 0 && (
+          <MenuItem disabled>
+            <ListItemText primary="No saved presets yet" />
+          </MenuItem>
+        )}
+
+        {presets.map(preset => (
+          <MenuItem key={preset.id} onClick={() => handleLoad(preset)} title="Load this preset">
+            <ListItemText
+              primary={preset.name}
+              secondary={preset.description || `Updated ${new Date(preset.updatedAt).toLocaleDateString()}`}
+              sx={{ mr: 1 }}
+            />
+            {/* Stop clicks on the actions from also loading the preset */}
+            <Stack direction="row" onClick={(e) => e.stopPropagation()}>
+              <IconButton
+                size="small"
+                onClick={() => setDefaultPreset(preset.isDefault ? null : preset.id)}
+                aria-label={preset.isDefault ? `Stop loading ${preset.name} on start` : `Load ${preset.name} on start`}
+                title={preset.isDefault ? 'Loaded on start - click to unset' : 'Load this preset on start'}
+              >
+                <Star size={16} fill={preset.isDefault ? '#f9a825' : 'none'} color={preset.isDefault ? '#f9a825' : undefined} />
+              </IconButton>
+              <IconButton
+                size="small"
+                onClick={() => {
+                  setDialog({ mode: 'rename', preset });
+                  closeMenu();
+                }}
+                aria-label={`Rename ${preset.name}`}
+                title="Rename"
+              >
+                <Pencil size={16} />
+              </IconButton>
+              <IconButton size="small" onClick={() => duplicatePreset(preset.id)} aria-label={`Duplicate ${preset.name}`} title="Duplicate">
+                <Copy size={16} />
+              </IconButton>
+              <IconButton size="small" onClick={() => handleDelete(preset)} aria-label={`Delete ${preset.name}`} title="Delete">
+                <Trash2 size={16} />
+              </IconButton>
+            </Stack>
+          </MenuItem>
+        ))}
+
+        <Divider />
+
+        <MenuItem onClick={() => fileInputRef.current?.click()}>
+          <ListItemIcon><Upload size={16} /></ListItemIcon>
+          <ListItemText primary="Import presets..." />
+        </MenuItem>
+        <MenuItem
+          onClick={() => {
+            exportPresets();
+            closeMenu();
+          }}
+          disabled={presets.length === 0}
+        >
+          <ListItemIcon><Download size={16} /></ListItemIcon>
+          <ListItemText primary="Export presets" />
+        </MenuItem>
+      </Menu>
+
+      <input ref={fileInputRef} type="file" accept="application/json,.json" hidden onChange={handleImportFile} />
+
+      {dialog && (
+        <PresetDialog
+          title={dialog.mode === 'save' ? 'Save filters as preset' : 'Rename preset'}
+          initialName={dialog.mode === 'rename' ? dialog.preset.name : ''}
+          initialDescription={dialog.mode === 'rename' ? dialog.preset.description ?? '' : ''}
+          presets={presets}
+          editingId={dialog.mode === 'rename' ? dialog.preset.id : undefined}
+          onConfirm={handleDialogConfirm}
+          onClose={() => setDialog(null)}
+        />
+      )}
+
+      <Snackbar open={!!message} autoHideDuration={3000} onClose={() => setMessage(null)} message={message} />
+    </>
+  );
+};
+
+interface PresetDialogProps {
+  title: string;
+  initialName: string;
+  initialDescription: string;
+  presets: FilterPreset[];
+  editingId?: string; // Set when renaming, so the preset doesn't clash with its own name
+  onConfirm: (name: string, description: string) => void;
+  onClose: () => void;
+}
+
+const PresetDialog: React.FC<PresetDialogProps> = ({
+  title,
+  initialName,
+  initialDescription,
+  presets,
+  editingId,
+  onConfirm,
+  onClose
+}) => {
+  const [name, setName] = useState(initialName);
+  const [description, setDescription] = useState(initialDescription);
+
+  const clash = PresetStore.findByName(presets, name);
+  const clashesWithOther = !!clash && clash.id !== editingId;
+
+  // Saving over an existing name updates that preset; renaming onto one is not allowed
+  const nameError = !name.trim() ? 'Name is required' : editingId && clashesWithOther ? 'Another preset has this name' : '';
+  const replaces = !editingId && clashesWithOther;
+
+  return (
+    <Dialog open onClose={onClose} fullWidth maxWidth="xs">
+      <Box
+        component="form"
+        onSubmit={(e: React.FormEvent) => {
+          e.preventDefault();
+          if (!nameError) onConfirm(name.trim(), description.trim());
+        }}
+      >
+        <DialogTitle>{title}</DialogTitle>
+        <DialogContent>
+          <Stack spacing={2} sx={{ pt: 1 }}>
+            <TextField
+              autoFocus
+              label="Name"
+              size="small"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              error={!!name && !!nameError}
+              helperText={name && nameError}
+            />
+            <TextField
+              label="Description (optional)"
+              size="small"
+              multiline
+              minRows={2}
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+            {replaces && (
+              <Typography variant="caption" color="warning.main">
+                A preset called "{clash!.name}" already exists - saving will replace its filters.
+              </Typography>
+            )}
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={onClose} sx={{ textTransform: 'none' }}>Cancel</Button>
+          <Button type="submit" variant="contained" disabled={!!nameError} sx={{ textTransform: 'none' }}>
+            {replaces ? 'Replace' : 'Save'}
+          </Button>
+        </DialogActions>
+      </Box>
+    </Dialog>
+  );
+};
@@ -0,0 +1,76 @@
+import React, { useMemo, useState } from 'react';
+import { Alert, Box, Paper, Tab, Tabs, Typography } from '@mui/material';
+import type { DataSchema, FilterState } from '../types';
+import { FilterCompiler, FilterCompileError } from '../utils/filterCompiler';
+
+/**
+ * "Show query" panel - the current filters compiled to a SQL WHERE clause and a MongoDB filter,
+ * so the backend team can see exactly what would be pushed down to the database.
+ */
+
+interface QueryPreviewProps {
+  schema: DataSchema;
+  filterState: FilterState;
+}
+
+type QueryTarget = 'sql' | 'mongo';
+
+export const QueryPreview: React.FC<QueryPreviewProps> = ({ schema, filterState }) => {
+  const [target, setTarget] = useState<QueryTarget>('sql');
+
+  // Compile both targets up front - it's cheap and lets us show errors per tab
+  const compiled = useMemo(() => {
+    const compile = (fn: () => string) => {
+      try {
+        return { text: fn(), error: null };
+      } catch (err) {
+        if (err instanceof FilterCompileError) {
+          return { text: '', error: err.message };
+        }
+        throw err;
+      }
+    };
+
+    return {
+      sql: compile(() => {
+        const { where, params } = FilterCompiler.toSql(schema, filterState);
+        return `WHERE ${where}\n\n-- params\n${JSON.stringify(params, null, 2)}`;
+      }),
+      mongo: compile(() => JSON.stringify(FilterCompiler.toMongo(schema, filterState), null, 2))
+    };
+  }, [schema, filterState]);
+
+  const current = compiled[target];
+
+  return (
+    <Paper elevation={0} sx={{ p: 2, backgroundColor: '#fff' }} role="region" aria-label="Compiled query">
+      <Tabs value={target} onChange={(_, value) => setTarget(value)} sx={{ mb: 2 }}>
+        <Tab value="sql" label="SQL" sx={{ textTransform: 'none' }} />
+        <Tab value="mongo" label="MongoDB" sx={{ textTransform: 'none' }} />
+      </Tabs>
+
+      {current.error ? (
+        <Alert severity="warning">{current.error}</Alert>
+      ) : (
+        <Box
+          component="pre"
+          sx={{
+            m: 0,
+            p: 2,
+            backgroundColor: '#f5f5f5',
+            borderRadius: 1,
+            fontFamily: 'monospace',
+            fontSize: '0.85rem',
+            overflowX: 'auto'
+          }}
+        >
+          {current.text}
+        </Box>
+      )}
+
+      <Typography variant="caption" color="textSecondary" sx={{ display: 'block', mt: 1 }}>
+        Only valid filters are included. Relative dates are resolved to today's date.
+      </Typography>
+    </Paper>
+  );
+};
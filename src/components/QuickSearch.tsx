@@ -0,0 +1,75 @@
+import React, { useRef } from 'react';
+import { IconButton, InputAdornment, TextField } from '@mui/material';
+import { Search, X } from 'lucide-react';
+import type { DataSchema } from '../types';
+import { getFieldDefinition } from '../data/fieldDefinitions';
+import { TextSearch } from '../utils/textSearch';
+import { useRegisterCommands } from '../hooks/useCommands';
+
+/**
+ * Quick search box above the results table
+ *
+ * Searches the schema's search fields all at once and narrows down whatever the filters
+ * matched (see TextSearch for the syntax and ranking). Matches are highlighted in the table.
+ */
+
+interface QuickSearchProps {
+  schema: DataSchema;
+  value: string;
+  onChange: (value: string) => void;
+}
+
+export const QuickSearch: React.FC<QuickSearchProps> = ({ schema, value, onChange }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // e.g. "Name, Email, Role, ..." - so it's clear what the box looks at
+  const fieldLabels = TextSearch.getSearchFields(schema)
+    .map(key => getFieldDefinition(schema, key)?.label ?? key)
+    .join(', ');
+
+  useRegisterCommands([
+    {
+      id: 'table.quickSearch',
+      label: 'Focus quick search',
+      group: 'Table',
+      shortcuts: ['Ctrl+Alt+F'],
+      run: () => inputRef.current?.focus()
+    }
+  ]);
+
+  return (
+    <TextField
+      size="small"
+      fullWidth
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      onKeyDown={(e) => {
+        if (e.key === 'Escape' && value) {
+          e.stopPropagation();
+          onChange('');
+        }
+      }}
+      inputRef={inputRef}
+      placeholder={`Search ${schema.label.toLowerCase()}...`}
+      helperText={`Looks in ${fieldLabels}. Use "quotes" for phrases and -word to leave matches out.`}
+      slotProps={{
+        input: {
+          startAdornment: (
+            <InputAdornment position="start">
+              <Search size={18} />
+            </InputAdornment>
+          ),
+          endAdornment: value && (
+            <InputAdornment position="end">
+              <IconButton size="small" onClick={() => onChange('')} aria-label="Clear search">
+                <X size={16} />
+              </IconButton>
+            </InputAdornment>
+          )
+        },
+        htmlInput: { 'aria-label': 'Quick search (Ctrl+Alt+F)' }
+      }}
+      sx={{ backgroundColor: '#fff' }}
+    />
+  );
+};
@@ -0,0 +1,214 @@
+import React, { useMemo } from 'react';
+import { Alert, Autocomplete, Box, Chip, Drawer, IconButton, Stack, TextField, Typography } from '@mui/material';
+import { Check, Minus, X } from 'lucide-react';
+import type { ConditionTrace, DataSchema, FilterState, GroupTrace, NodeTrace, TraceStatus } from '../types';
+import { getFieldDefinition, getOperatorLabel } from '../data/fieldDefinitions';
+import { FilterEngine } from '../utils/filterEngine';
+import { FilterTree } from '../utils/filterTree';
+import { FilterValidator } from '../utils/filterValidator';
+
+/**
+ * Explain-why drawer for the results table
+ *
+ * Shows how the current filters were evaluated for one record: which conditions and groups
+ * passed or failed, with the record's actual value next to the expected one. Any record
+ * can be looked up, including ones the filters exclude ("why not?").
+ */
+
+interface RecordTraceDrawerProps<T> {
+  open: boolean;
+  schema: DataSchema<T>;
+  // null until a record is picked in the lookup
+  record: T | null;
+  // Everything the lookup can pick from, not just the filtered results
+  records: T[];
+  filterState: FilterState;
+  onRecordChange: (record: T | null) => void;
+  onClose: () => void;
+}
+
+const statusColors: Record<TraceStatus, string> = {
+  passed: '#2e7d32',
+  failed: '#d32f2f',
+  skipped: '#9e9e9e'
+};
+
+const StatusIcon: React.FC<{ status: TraceStatus }> = ({ status }) => {
+  const Icon = status === 'passed' ? Check : status === 'failed' ? X : Minus;
+  return (
+    <Box component="span" sx={{ display: 'inline-flex', color: statusColors[status], flexShrink: 0, mt: 0.25 }}>
+      <Icon size={16} aria-label={status} />
+    </Box>
+  );
+};
+
+// Turn a condition or record value into something readable, e.g. { min: 1, max: 5 } -> "1 and 5"
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '(empty)';
+  if (Array.isArray(value)) return value.length > 0 ? value.map(item => String(item)).join(', ') : '(empty)';
+  if (typeof value === 'object') {
+    const v = value as Record<string, unknown>;
+    if ('min' in v || 'max' in v) return `${formatValue(v.min)} and ${formatValue(v.max)}`;
+    if ('from' in v || 'to' in v) return `${formatValue(v.from)} and ${formatValue(v.to)}`;
+    if ('amount' in v) return `${formatValue(v.amount)} ${v.unit ?? 'days'}`;
+    return JSON.stringify(value);
+  }
+  return String(value);
+};
+
+const ConditionTraceView: React.FC<{ schema: DataSchema; trace: ConditionTrace }> = ({ schema, trace }) => {
+  const { condition } = trace;
+  const fieldLabel = getFieldDefinition(schema, condition.field)?.label ?? (condition.field || 'No field selected');
+  const comparedField = condition.valueSource === 'field' && condition.valueField
+    ? getFieldDefinition(schema, condition.valueField)?.label ?? condition.valueField
+    : null;
+
+  const expected = !FilterValidator.requiresValue(condition.operator)
+    ? ''
+    : comparedField
+      ? ` ${comparedField} (${formatValue(trace.expected)})`
+      : ` ${formatValue(trace.expected)}`;
+
+  return (
+    <Stack direction="row" spacing={1} sx={{ py: 0.5, opacity: trace.status === 'skipped' ? 0.7 : 1 }}>
+      <StatusIcon status={trace.status} />
+      <Box>
+        <Typography variant="body2">
+          <strong>{fieldLabel}</strong> {getOperatorLabel(condition.operator).toLowerCase()}
+          {expected}
+        </Typography>
+        <Typography variant="caption" color="textSecondary">
+          {trace.status === 'skipped'
+            ? `Skipped - ${trace.skipReason === 'disabled' ? 'this filter is disabled' : 'this filter is incomplete or invalid'}`
+            : `Actual: ${formatValue(trace.actual)}`}
+        </Typography>
+      </Box>
+    </Stack>
+  );
+};
+
+// How a node joins the previous one in 'chain' mode
+const getConnector = (trace: NodeTrace): 'AND' | 'OR' =>
+  trace.type === 'group' ? trace.connector ?? 'AND' : FilterTree.getConnector(trace.condition);
+
+const GroupTraceView: React.FC<{ schema: DataSchema; trace: GroupTrace }> = ({ schema, trace }) => (
+  <Box>
+    {trace.children.map((child, index) => (
+      <React.Fragment key={child.type === 'group' ? child.id : child.condition.id}>
+        {index > 0 && (
+          <Typography variant="caption" sx={{ display: 'block', fontWeight: 600, color: 'text.secondary', pl: 3 }}>
+            {trace.evaluationMode === 'chain' ? getConnector(child) : trace.logicalOperator}
+          </Typography>
+        )}
+        {child.type === 'group' ? (
+          <Box sx={{ borderLeft: `3px solid ${statusColors[child.status]}`, pl: 1.5, my: 0.5 }}>
+            <Stack direction="row" spacing={1} sx={{ alignItems: 'center' }}>
+              <StatusIcon status={child.status} />
+              <Typography variant="body2" sx={{ fontWeight: 600 }}>
+                Group - {child.evaluationMode === 'chain' ? 'mixed' : child.logicalOperator === 'AND' ? 'all' : 'any'} of
+              </Typography>
+            </Stack>
+            <GroupTraceView schema={schema} trace={child} />
+          </Box>
+        ) : (
+          <ConditionTraceView schema={schema} trace={child} />
+        )}
+      </React.Fragment>
+    ))}
+  </Box>
+);
+
+// Generic over the record type, so it can't be a React.FC
+export const RecordTraceDrawer = <T,>({
+  open,
+  schema,
+  record,
+  records,
+  filterState,
+  onRecordChange,
+  onClose
+}: RecordTraceDrawerProps<T>) => {
+  const trace = useMemo(
+    () => (record ? FilterEngine.traceRecord(schema, record, filterState) : null),
+    [schema, record, filterState]
+  );
+  const title = record ? schema.getTitle(record) : '';
+
+  return (
+    <Drawer anchor="right" open={open} onClose={onClose}>
+      <Box sx={{ width: { xs: '100vw', sm: 440 }, p: 3 }} role="region" aria-label="Why this record matches or not">
+        <Stack direction="row" sx={{ justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+          <Typography variant="h6" sx={{ fontWeight: 600 }}>
+            Explain filter result
+          </Typography>
+          <IconButton size="small" onClick={onClose} aria-label="Close">
+            <X size={18} />
+          </IconButton>
+        </Stack>
+
+        <Autocomplete
+          size="small"
+          options={records}
+          value={record}
+          onChange={(_, value) => onRecordChange(value)}
+          getOptionLabel={(option) => schema.getTitle(option)}
+          isOptionEqualToValue={(option, value) => schema.getId(option) === schema.getId(value)}
+          renderOption={({ key, ...props }, option) => (
+            <li key={key} {...props}>
+              <Box>
+                <Typography variant="body2">{schema.getTitle(option)}</Typography>
+                {schema.getSubtitle && (
+                  <Typography variant="caption" color="textSecondary">
+                    {schema.getSubtitle(option)}
+                  </Typography>
+                )}
+              </Box>
+            </li>
+          )}
+          renderInput={(params) => <TextField {...params} label={`Look up a record (${schema.label})`} placeholder="Why not?" />}
+          sx={{ mb: 2 }}
+        />
+
+        {record && trace && (
+          <>
+            <Alert severity={trace.status === 'passed' ? 'success' : 'warning'} sx={{ mb: 2 }}>
+              {trace.status === 'passed'
+                ? `${title} matches the current filters and is shown.`
+                : `${title} is excluded by the current filters.`}
+            </Alert>
+
+            {trace.children.length === 0 ? (
+              <Typography variant="body2" color="textSecondary">
+                No filters are applied, so every record is shown.
+              </Typography>
+            ) : (
+              <>
+                <Stack direction="row" spacing={1} sx={{ alignItems: 'center', mb: 1 }}>
+                  <Typography variant="body2" sx={{ fontWeight: 600 }}>
+                    Records must match
+                  </Typography>
+                  <Chip
+                    size="small"
+                    label={
+                      trace.evaluationMode === 'chain'
+                        ? 'MIXED (per connector)'
+                        : trace.logicalOperator === 'AND' ? 'ALL filters' : 'ANY filter'
+                    }
+                  />
+                </Stack>
+                <GroupTraceView schema={schema} trace={trace} />
+              </>
+            )}
+          </>
+        )}
+
+        {!record && (
+          <Typography variant="body2" color="textSecondary">
+            Pick a record to see which filters it passes or fails - including {schema.label.toLowerCase()} the
+            filters leave out.
+          </Typography>
+        )}
+      </Box>
+    </Drawer>
+  );
+};
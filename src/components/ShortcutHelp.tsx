@@ -0,0 +1,63 @@
+import React from 'react';
+import { Box, Chip, Dialog, DialogContent, DialogTitle, Stack, Table, TableBody, TableCell, TableRow, Typography } from '@mui/material';
+import type { Command } from '../types';
+import { KeyboardShortcuts } from '../utils/keyboardShortcuts';
+
+/**
+ * Help overlay (? or Ctrl+/) listing every keyboard shortcut, grouped like the command palette
+ */
+
+interface ShortcutHelpProps {
+  commands: Command[];
+  onClose: () => void;
+}
+
+export const ShortcutHelp: React.FC<ShortcutHelpProps> = ({ commands, onClose }) => {
+  // Only commands with a binding - presets and the like are reachable through the palette
+  const groups = commands
+    .filter(command => command.shortcuts?.length)
+    .reduce((acc, command) => {
+      acc.set(command.group, [...(acc.get(command.group) ?? []), command]);
+      return acc;
+    }, new Map<string, Command[]>());
+
+  return (
+    <Dialog open onClose={onClose} fullWidth maxWidth="sm" aria-labelledby="shortcut-help-title">
+      <DialogTitle id="shortcut-help-title">Keyboard shortcuts</DialogTitle>
+      <DialogContent>
+        {Array.from(groups).map(([group, groupCommands]) => (
+          <Box key={group} sx={{ mb: 2 }}>
+            <Typography variant="subtitle2" sx={{ fontWeight: 600 }}>
+              {group}
+            </Typography>
+            <Table size="small">
+              <TableBody>
+                {groupCommands.map(command => (
+                  <TableRow key={command.id}>
+                    <TableCell sx={{ pl: 0 }}>{command.label}</TableCell>
+                    <TableCell align="right" sx={{ pr: 0 }}>
+                      <Stack direction="row" spacing={0.5} sx={{ justifyContent: 'flex-end' }}>
+                        {command.shortcuts!.map(shortcut => (
+                          <Chip
+                            key={shortcut}
+                            label={KeyboardShortcuts.format(shortcut)}
+                            size="small"
+                            variant="outlined"
+                            sx={{ fontFamily: 'monospace' }}
+                          />
+                        ))}
+                      </Stack>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </Box>
+        ))}
+        <Typography variant="caption" color="textSecondary">
+          {KeyboardShortcuts.isMac ? '⌘ is Cmd, ⌥ is Option.' : 'Cmd works in place of Ctrl on Mac.'} Press Ctrl+K to search all commands and presets.
+        </Typography>
+      </DialogContent>
+    </Dialog>
+  );
+};
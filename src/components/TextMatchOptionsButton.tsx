@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { Badge, Box, FormControlLabel, IconButton, Popover, Slider, Stack, Switch, Typography } from '@mui/material';
+import { SlidersHorizontal } from 'lucide-react';
+import type { Operator, TextMatchOptions } from '../types';
+import { TextMatch } from '../utils/textMatch';
+
+/**
+ * Options button for a text condition - opens a popover to change how text is compared:
+ * case sensitivity, accents, whitespace, for "Similar To" how many typos are allowed and
+ * for "Regex Pattern" the regex flags.
+ * A dot on the button shows that something differs from the defaults.
+ */
+
+interface TextMatchOptionsButtonProps {
+  operator: Operator;
+  options: TextMatchOptions | undefined;
+  onChange: (options: TextMatchOptions | undefined) => void;
+}
+
+type ToggleOption = 'caseSensitive' | 'ignoreDiacritics' | 'collapseWhitespace';
+
+const toggles: Array<{ key: ToggleOption; label: string; hint: string }> = [
+  { key: 'caseSensitive', label: 'Case sensitive', hint: '"react" no longer matches "React"' },
+  { key: 'ignoreDiacritics', label: 'Ignore accents', hint: '"Jose" matches "José"' },
+  { key: 'collapseWhitespace', label: 'Collapse spaces', hint: 'Extra spaces are ignored (not for regex)' }
+];
+
+// The flags from RegexPattern.FLAGS - "i" isn't one, it follows "Case sensitive"
+const regexFlags: Array<{ flag: string; label: string; hint: string }> = [
+  { flag: 'm', label: 'Multiline (m)', hint: '^ and $ match at every line break' },
+  { flag: 's', label: 'Dot matches all (s)', hint: '. matches line breaks too' },
+  { flag: 'u', label: 'Unicode (u)', hint: 'Allows \\p{L} for any letter, and stricter escapes' }
+];
+
+export const TextMatchOptionsButton: React.FC<TextMatchOptionsButtonProps> = ({ operator, options = {}, onChange }) => {
+  const [anchor, setAnchor] = useState<HTMLElement | null>(null);
+  const isFuzzy = operator === 'fuzzy';
+  const isRegex = operator === 'regex';
+  const changed =
+    TextMatch.hasOptions(options) ||
+    (isFuzzy && options.maxDistance !== undefined) ||
+    (isRegex && !!options.regexFlags);
+
+  // Only keep what's switched on, so untouched conditions stay free of textOptions
+  const update = (patch: Partial<TextMatchOptions>) => {
+    const next = { ...options, ...patch };
+    const cleaned = Object.fromEntries(
+      Object.entries(next).filter(([, value]) => value !== false && value !== undefined && value !== '')
+    ) as TextMatchOptions;
+    onChange(Object.keys(cleaned).length > 0 ? cleaned : undefined);
+  };
+
+  // Flags are kept in the order of the list, so the same choice always reads the same ("su", never "us")
+  const toggleFlag = (flag: string, on: boolean) => {
+    const current = options.regexFlags ?? '';
+    update({
+      regexFlags: regexFlags
+        .map(option => option.flag)
+        .filter(f => (f === flag ? on : current.includes(f)))
+        .join('')
+    });
+  };
+
+  return (
+    <>
+      <IconButton
+        size="small"
+        onClick={(e) => setAnchor(e.currentTarget)}
+        title="Text matching options"
+        aria-label="Text matching options"
+        aria-haspopup="true"
+        color={changed ? 'primary' : 'default'}
+      >
+        <Badge variant="dot" color="primary" invisible={!changed}>
+          <SlidersHorizontal size={18} />
+        </Badge>
+      </IconButton>
+      <Popover
+        open={Boolean(anchor)}
+        anchorEl={anchor}
+        onClose={() => setAnchor(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+        transformOrigin={{ vertical: 'top', horizontal: 'right' }}
+      >
+        <Stack spacing={1} sx={{ p: 2, width: 280 }}>
+          <Typography variant="subtitle2">Text matching</Typography>
+          {toggles.map(({ key, label, hint }) => (
+            <Box key={key}>
+              <FormControlLabel
+                control={
+                  <Switch size="small" checked={!!options[key]} onChange={(e) => update({ [key]: e.target.checked })} />
+                }
+                label={label}
+              />
+              <Typography variant="caption" color="textSecondary" sx={{ display: 'block', ml: 5.5, mt: -0.5 }}>
+                {hint}
+              </Typography>
+            </Box>
+          ))}
+          {isRegex && (
+            <Box sx={{ pt: 1 }}>
+              <Typography variant="body2">Regex flags</Typography>
+              {regexFlags.map(({ flag, label, hint }) => (
+                <Box key={flag}>
+                  <FormControlLabel
+                    control={
+                      <Switch
+                        size="small"
+                        checked={(options.regexFlags ?? '').includes(flag)}
+                        onChange={(e) => toggleFlag(flag, e.target.checked)}
+                      />
+                    }
+                    label={label}
+                  />
+                  <Typography variant="caption" color="textSecondary" sx={{ display: 'block', ml: 5.5, mt: -0.5 }}>
+                    {hint}
+                  </Typography>
+                </Box>
+              ))}
+            </Box>
+          )}
+          {isFuzzy && (
+            <Box sx={{ pt: 1 }}>
+              <Typography variant="body2" id="fuzzy-distance-label">
+                Typos allowed: {options.maxDistance ?? TextMatch.DEFAULT_FUZZY_DISTANCE}
+              </Typography>
+              <Slider
+                size="small"
+                min={0}
+                max={TextMatch.MAX_FUZZY_DISTANCE}
+                step={1}
+                marks
+                value={options.maxDistance ?? TextMatch.DEFAULT_FUZZY_DISTANCE}
+                onChange={(_, value) => update({ maxDistance: value as number })}
+                aria-labelledby="fuzzy-distance-label"
+              />
+              <Typography variant="caption" color="textSecondary">
+                Never more than a third of what you typed, so short words stay precise
+              </Typography>
+            </Box>
+          )}
+        </Stack>
+      </Popover>
+    </>
+  );
+};
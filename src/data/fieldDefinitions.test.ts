@@ -0,0 +1,44 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { Clock } from '../utils/clock';
+import { FilterEngine } from '../utils/filterEngine';
+import { SortUtil } from '../utils/sortUtil';
+import { condition } from '../utils/testFixtures';
+import { employeeData } from './employees';
+import { employeeSchema } from './schemas';
+import { daysSince, getComputedFields, getFieldValue } from './fieldDefinitions';
+
+describe('computed fields', () => {
+  beforeEach(() => Clock.set(() => new Date(2024, 2, 15, 12)));
+  afterEach(() => Clock.reset());
+
+  const [john] = employeeData; // joined 2021-03-15, last reviewed 2024-01-15
+
+  it('are derived from the record whenever they are read', () => {
+    expect(getComputedFields(employeeSchema).map(field => field.key)).toEqual([
+      'tenureYears',
+      'daysSinceReview',
+      'skillCount',
+      'salaryPerProject'
+    ]);
+    expect(getFieldValue(employeeSchema, john, 'tenureYears')).toBe(3);
+    expect(getFieldValue(employeeSchema, john, 'daysSinceReview')).toBe(60);
+    expect(getFieldValue(employeeSchema, john, 'skillCount')).toBe(4);
+    expect(getFieldValue(employeeSchema, john, 'salaryPerProject')).toBe(31667);
+  });
+
+  it('are missing when what they are derived from is', () => {
+    expect(daysSince('')).toBeNull();
+    expect(getFieldValue(employeeSchema, { ...john, joinDate: '' }, 'tenureYears')).toBeNull();
+    expect(getFieldValue(employeeSchema, { ...john, projects: 0 }, 'salaryPerProject')).toBeNull();
+  });
+
+  it('can be filtered and sorted like stored fields', () => {
+    const skillCount = (e: (typeof employeeData)[number]) => e.skills.length;
+    const manySkills = condition({ field: 'skillCount', fieldType: 'number', operator: 'greaterThan', value: 4 });
+    expect(FilterEngine.applyFilters(employeeSchema, employeeData, [manySkills])).toEqual(
+      employeeData.filter(e => skillCount(e) > 4)
+    );
+    const sorted = SortUtil.sortRecords(employeeSchema, employeeData, { field: 'skillCount', order: 'desc' });
+    expect(sorted.map(skillCount)).toEqual(employeeData.map(skillCount).sort((a, b) => b - a));
+  });
+});
@@ -1,23 +1,45 @@
-import type { FieldDefinition } from '../types';
+import type { DataSchema, Employee, FieldDefinition, FieldType } from '../types';
+import { Clock } from '../utils/clock';
+import { RelativeDate } from '../utils/relativeDate';
 
-export const fieldDefinitions: FieldDefinition[] = [
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Whole days between a date string and now (negative for future dates), or null if the date is missing
+export const daysSince = (value: string): number | null => {
+  const date = RelativeDate.parseDate(value);
+  if (!date) return null;
+  return Math.floor((Clock.now().getTime() - date.getTime()) / MS_PER_DAY);
+};
+
+export const numberOperators: FieldDefinition['operators'] = [
+  'equals', 'greaterThan', 'lessThan', 'greaterThanOrEqual', 'lessThanOrEqual', 'between', 'isEmpty', 'isNotEmpty'
+];
+
+export const dateOperators: FieldDefinition['operators'] = [
+  'equals', 'before', 'after', 'between',
+  'inLast', 'inNext', 'olderThan', 'thisQuarter', 'lastCalendarYear',
+  'isEmpty', 'isNotEmpty'
+];
+
+// The employee fields - see employeeSchema in schemas.ts
+export const employeeFieldDefinitions: FieldDefinition<Employee>[] = [
   {
     key: 'name',
     label: 'Name',
     type: 'text',
-    operators: ['equals', 'contains', 'startsWith', 'endsWith', 'notContains', 'regex']
+    operators: ['equals', 'contains', 'startsWith', 'endsWith', 'notContains', 'regex', 'fuzzy', 'isEmpty', 'isNotEmpty']
   },
   {
     key: 'email',
     label: 'Email',
     type: 'text',
-    operators: ['equals', 'contains', 'endsWith', 'regex']
+    operators: ['equals', 'contains', 'endsWith', 'regex', 'isEmpty', 'isNotEmpty']
   },
   {
     key: 'department',
     label: 'Department',
     type: 'singleSelect',
-    operators: ['is', 'isNot'],
+    operators: ['is', 'isNot', 'isEmpty', 'isNotEmpty'],
     options: [
       { label: 'Engineering', value: 'Engineering' },
       { label: 'Product', value: 'Product' },
@@ -28,106 +50,205 @@ export const fieldDefinitions: FieldDefinition[] = [
       { label: 'HR', value: 'HR' },
       { label: 'Operations', value: 'Operations' },
       { label: 'Legal', value: 'Legal' }
-    ]
+    ],
+    // Curated order, plus any department that only the data has
+    derivedOptions: { keepStatic: true }
   },
   {
     key: 'role',
     label: 'Role',
     type: 'text',
-    operators: ['equals', 'contains']
+    operators: ['equals', 'contains', 'fuzzy', 'isEmpty', 'isNotEmpty']
   },
   {
     key: 'salary',
     label: 'Salary',
     type: 'amount',
-    operators: ['equals', 'between', 'greaterThan', 'lessThan']
+    operators: ['equals', 'between', 'greaterThan', 'lessThan', 'isEmpty', 'isNotEmpty']
   },
   {
     key: 'joinDate',
     label: 'Join Date',
     type: 'date',
-    operators: ['equals', 'before', 'after', 'between']
+    operators: dateOperators
   },
   {
     key: 'isActive',
     label: 'Active Status',
     type: 'boolean',
-    operators: ['is']
+    operators: ['is', 'isEmpty', 'isNotEmpty']
   },
   {
     key: 'skills',
     label: 'Skills',
     type: 'multiSelect',
-    operators: ['in', 'notIn', 'containsAll'],
-    options: [
-      { label: 'React', value: 'React' },
-      { label: 'TypeScript', value: 'TypeScript' },
-      { label: 'Node.js', value: 'Node.js' },
-      { label: 'Python', value: 'Python' },
-      { label: 'GraphQL', value: 'GraphQL' },
-      { label: 'PostgreSQL', value: 'PostgreSQL' },
-      { label: 'AWS', value: 'AWS' },
-      { label: 'Docker', value: 'Docker' },
-      { label: 'Kubernetes', value: 'Kubernetes' },
-      { label: 'Vue.js', value: 'Vue.js' },
-      { label: 'Angular', value: 'Angular' },
-      { label: 'Java', value: 'Java' },
-      { label: 'Go', value: 'Go' },
-      { label: 'Scala', value: 'Scala' },
-      { label: 'Machine Learning', value: 'Machine Learning' }
-    ]
+    operators: ['in', 'notIn', 'containsAll', 'isEmpty', 'isNotEmpty'],
+    // Every skill someone has, most common first
+    derivedOptions: { sortBy: 'frequency' }
   },
   {
     key: 'address.city',
     label: 'City',
     type: 'text',
-    operators: ['equals', 'contains'],
+    operators: ['equals', 'contains', 'fuzzy', 'isEmpty', 'isNotEmpty'],
     nestedKey: 'address.city'
   },
   {
     key: 'address.state',
     label: 'State',
     type: 'singleSelect',
-    operators: ['is', 'isNot'],
-    options: [
-      { label: 'CA', value: 'CA' },
-      { label: 'NY', value: 'NY' },
-      { label: 'TX', value: 'TX' },
-      { label: 'WA', value: 'WA' },
-      { label: 'MA', value: 'MA' },
-      { label: 'OR', value: 'OR' },
-      { label: 'CO', value: 'CO' },
-      { label: 'FL', value: 'FL' },
-      { label: 'IL', value: 'IL' },
-      { label: 'GA', value: 'GA' },
-      { label: 'AZ', value: 'AZ' },
-      { label: 'DC', value: 'DC' },
-      { label: 'NV', value: 'NV' },
-      { label: 'NC', value: 'NC' }
-    ]
+    operators: ['is', 'isNot', 'isEmpty', 'isNotEmpty'],
+    derivedOptions: { sortBy: 'alphabetical' }
   },
   {
     key: 'projects',
     label: 'Number of Projects',
     type: 'number',
-    operators: ['equals', 'greaterThan', 'lessThan', 'greaterThanOrEqual', 'lessThanOrEqual', 'between']
+    operators: numberOperators
   },
   {
     key: 'lastReview',
     label: 'Last Review Date',
     type: 'date',
-    operators: ['equals', 'before', 'after', 'between']
+    operators: dateOperators
   },
   {
     key: 'performanceRating',
     label: 'Performance Rating',
     type: 'number',
-    operators: ['equals', 'greaterThan', 'lessThan', 'greaterThanOrEqual', 'lessThanOrEqual', 'between']
+    operators: numberOperators
+  },
+
+  // Computed fields - not stored on Employee, derived from other fields whenever they're read.
+  // They can be filtered, sorted, shown as table columns and exported like any other field.
+  {
+    key: 'tenureYears',
+    label: 'Tenure (Years)',
+    type: 'number',
+    operators: numberOperators,
+    compute: (employee: Employee) => {
+      const days = daysSince(employee.joinDate);
+      return days === null ? null : Math.round((days / 365.25) * 10) / 10;
+    }
+  },
+  {
+    key: 'daysSinceReview',
+    label: 'Days Since Last Review',
+    type: 'number',
+    operators: numberOperators,
+    compute: (employee: Employee) => daysSince(employee.lastReview)
+  },
+  {
+    key: 'skillCount',
+    label: 'Skill Count',
+    type: 'number',
+    operators: numberOperators,
+    compute: (employee: Employee) => (Array.isArray(employee.skills) ? employee.skills.length : 0)
+  },
+  {
+    key: 'salaryPerProject',
+    label: 'Salary per Project',
+    type: 'amount',
+    operators: ['equals', 'between', 'greaterThan', 'lessThan', 'isEmpty', 'isNotEmpty'],
+    // Nobody's salary is "per project" if they have no projects
+    compute: (employee: Employee) =>
+      employee.projects > 0 ? Math.round(employee.salary / employee.projects) : null
   }
 ];
 
-export const getFieldDefinition = (fieldKey: string): FieldDefinition | undefined => {
-  return fieldDefinitions.find(f => f.key === fieldKey);
+// The helpers below work on any schema's fields
+
+export const getFieldDefinition = <T>(schema: DataSchema<T>, fieldKey: string): FieldDefinition<T> | undefined => {
+  return schema.fields.find(f => f.key === fieldKey);
+};
+
+export const getComputedFields = <T>(schema: DataSchema<T>): FieldDefinition<T>[] => {
+  return schema.fields.filter(f => f.compute);
+};
+
+// Operators that can compare a field against another field of the same record
+// (e.g. "lastReview before joinDate") instead of a literal value
+export const fieldComparisonOperators: string[] = [
+  'equals', 'contains', 'startsWith', 'endsWith', 'notContains',
+  'greaterThan', 'lessThan', 'greaterThanOrEqual', 'lessThanOrEqual',
+  'before', 'after',
+  'is', 'isNot',
+  'in', 'notIn', 'containsAll'
+];
+
+// How operators are shown to the user, e.g. greaterThan -> "Greater Than"
+export const getOperatorLabel = (operator: string): string => {
+  const labels: { [key: string]: string } = {
+    // Text operators
+    equals: 'Equals',
+    contains: 'Contains',
+    startsWith: 'Starts With',
+    endsWith: 'Ends With',
+    notContains: 'Does Not Contain',
+    regex: 'Regex Pattern',
+    fuzzy: 'Similar To',
+
+    // Number operators
+    greaterThan: 'Greater Than',
+    lessThan: 'Less Than',
+    greaterThanOrEqual: 'Greater Than or Equal',
+    lessThanOrEqual: 'Less Than or Equal',
+    between: 'Between',
+
+    // Date operators
+    before: 'Before',
+    after: 'After',
+    inLast: 'In the Last',
+    inNext: 'In the Next',
+    olderThan: 'Older Than',
+    thisQuarter: 'This Quarter',
+    lastCalendarYear: 'Last Calendar Year',
+
+    // Select operators
+    is: 'Is',
+    isNot: 'Is Not',
+
+    // Available for every field type
+    isEmpty: 'Is Empty',
+    isNotEmpty: 'Is Not Empty',
+
+    // Multi-select operators
+    in: 'In',
+    notIn: 'Not In',
+    containsAll: 'Contains All'
+  };
+
+  return labels[operator] || operator;
+};
+
+// Field types that hold the same kind of value and can be compared with each other
+const comparableTypeGroups: FieldType[][] = [
+  ['text', 'singleSelect'],
+  ['number', 'amount'],
+  ['date'],
+  ['boolean'],
+  ['multiSelect']
+];
+
+export const areFieldTypesComparable = (a: FieldType, b: FieldType): boolean => {
+  return comparableTypeGroups.some(group => group.includes(a) && group.includes(b));
+};
+
+// Other fields that the given field can be compared against
+export const getComparableFields = <T>(schema: DataSchema<T>, fieldKey: string): FieldDefinition<T>[] => {
+  const field = getFieldDefinition(schema, fieldKey);
+  if (!field) return [];
+  return schema.fields.filter(f => f.key !== field.key && areFieldTypesComparable(field.type, f.type));
+};
+
+/**
+ * Read the value of a field from a record - computes it for computed fields,
+ * follows dot notation (address.city) for nested ones
+ */
+export const getFieldValue = <T>(schema: DataSchema<T>, record: T, fieldKey: string): unknown => {
+  const field = getFieldDefinition(schema, fieldKey);
+  if (field?.compute) return field.compute(record);
+  return getNestedValue(record, field?.nestedKey || fieldKey);
 };
 
 export const getNestedValue = (obj: any, path: string): any => {
@@ -0,0 +1,50 @@
+import type { FieldDefinition, Project } from '../types';
+import { FieldInference } from '../utils/fieldInference';
+import { daysSince, numberOperators } from './fieldDefinitions';
+import { projectData } from './projects';
+
+const toOptions = (values: string[]) => values.map(value => ({ label: value, value }));
+
+// The project fields - see projectSchema in schemas.ts.
+// Inferred from the project records (see FieldInference), with nicer labels and the
+// status and priority options in their natural order rather than alphabetical.
+export const projectFieldDefinitions: FieldDefinition<Project>[] = FieldInference.inferFields(projectData, {
+  overrides: {
+    id: { label: 'Project ID' },
+    name: { label: 'Project Name' },
+    status: { options: toOptions(['Planning', 'Active', 'On Hold', 'Completed', 'Cancelled']) },
+    priority: { options: toOptions(['Low', 'Medium', 'High', 'Critical']) },
+    isBillable: { label: 'Billable' },
+    'lead.name': { label: 'Project Lead' },
+    'lead.department': { label: 'Lead Department' }
+  },
+  // Computed fields
+  extraFields: [
+    {
+      key: 'budgetRemaining',
+      label: 'Budget Remaining',
+      type: 'amount',
+      operators: ['equals', 'between', 'greaterThan', 'lessThan', 'isEmpty', 'isNotEmpty'],
+      // Negative when the project is over budget
+      compute: (project: Project) => project.budget - project.spent
+    },
+    {
+      key: 'percentSpent',
+      label: 'Budget Spent (%)',
+      type: 'number',
+      operators: numberOperators,
+      compute: (project: Project) => (project.budget > 0 ? Math.round((project.spent / project.budget) * 100) : null)
+    },
+    {
+      key: 'daysUntilDue',
+      label: 'Days Until Due',
+      type: 'number',
+      operators: numberOperators,
+      // Negative once the due date has passed
+      compute: (project: Project) => {
+        const days = daysSince(project.dueDate);
+        return days === null ? null : -days;
+      }
+    }
+  ]
+});
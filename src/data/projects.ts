@@ -0,0 +1,364 @@
+import type { Project } from '../types';
+
+export const projectData: Project[] = [
+  {
+    id: "PRJ-001",
+    name: "Customer Portal Redesign",
+    client: "Acme Corp",
+    status: "Active",
+    priority: "High",
+    budget: 240000,
+    spent: 131500,
+    startDate: "2024-02-01",
+    dueDate: "2025-03-31",
+    technologies: ["React", "TypeScript", "GraphQL"],
+    teamSize: 6,
+    isBillable: true,
+    lead: { name: "John Smith", department: "Engineering" }
+  },
+  {
+    id: "PRJ-002",
+    name: "Billing Service Migration",
+    client: "Globex",
+    status: "Active",
+    priority: "Critical",
+    budget: 410000,
+    spent: 298000,
+    startDate: "2023-09-15",
+    dueDate: "2025-01-31",
+    technologies: ["Java", "PostgreSQL", "AWS"],
+    teamSize: 9,
+    isBillable: true,
+    lead: { name: "Michael Chen", department: "Engineering" }
+  },
+  {
+    id: "PRJ-003",
+    name: "Mobile Onboarding",
+    client: "Initech",
+    status: "Planning",
+    priority: "Medium",
+    budget: 95000,
+    spent: 4200,
+    startDate: "2025-01-06",
+    dueDate: "2025-06-30",
+    technologies: ["React", "Node.js"],
+    teamSize: 3,
+    isBillable: true,
+    lead: { name: "Sarah Johnson", department: "Engineering" }
+  },
+  {
+    id: "PRJ-004",
+    name: "Data Warehouse",
+    client: "Internal",
+    status: "Active",
+    priority: "High",
+    budget: 520000,
+    spent: 377000,
+    startDate: "2023-05-01",
+    dueDate: "2025-04-30",
+    technologies: ["Python", "PostgreSQL", "Scala", "AWS"],
+    teamSize: 8,
+    isBillable: false,
+    lead: { name: "David Kim", department: "Engineering" }
+  },
+  {
+    id: "PRJ-005",
+    name: "Brand Refresh",
+    client: "Internal",
+    status: "Completed",
+    priority: "Low",
+    budget: 60000,
+    spent: 57400,
+    startDate: "2023-03-01",
+    dueDate: "2023-08-31",
+    technologies: ["Figma"],
+    teamSize: 4,
+    isBillable: false,
+    lead: { name: "Emily Davis", department: "Design" }
+  },
+  {
+    id: "PRJ-006",
+    name: "Recommendation Engine",
+    client: "Umbrella Health",
+    status: "On Hold",
+    priority: "High",
+    budget: 350000,
+    spent: 142000,
+    startDate: "2024-01-15",
+    dueDate: "2025-02-28",
+    technologies: ["Python", "Machine Learning", "Kubernetes"],
+    teamSize: 5,
+    isBillable: true,
+    lead: { name: "Priya Patel", department: "Engineering" }
+  },
+  {
+    id: "PRJ-007",
+    name: "Sales Dashboard",
+    client: "Stark Industries",
+    status: "Completed",
+    priority: "Medium",
+    budget: 120000,
+    spent: 118900,
+    startDate: "2023-06-01",
+    dueDate: "2023-12-15",
+    technologies: ["Vue.js", "Node.js", "PostgreSQL"],
+    teamSize: 4,
+    isBillable: true,
+    lead: { name: "Robert Wilson", department: "Sales" }
+  },
+  {
+    id: "PRJ-008",
+    name: "Compliance Audit Tooling",
+    client: "Internal",
+    status: "Active",
+    priority: "Critical",
+    budget: 180000,
+    spent: 96000,
+    startDate: "2024-04-01",
+    dueDate: "2024-12-20",
+    technologies: ["Python", "Docker"],
+    teamSize: 3,
+    isBillable: false,
+    lead: { name: "Laura Martinez", department: "Legal" }
+  },
+  {
+    id: "PRJ-009",
+    name: "Partner API",
+    client: "Wayne Enterprises",
+    status: "Active",
+    priority: "High",
+    budget: 275000,
+    spent: 203000,
+    startDate: "2023-11-01",
+    dueDate: "2024-11-30",
+    technologies: ["Go", "GraphQL", "Kubernetes"],
+    teamSize: 7,
+    isBillable: true,
+    lead: { name: "James Brown", department: "Engineering" }
+  },
+  {
+    id: "PRJ-010",
+    name: "Marketing Site Localization",
+    client: "Internal",
+    status: "Planning",
+    priority: "Low",
+    budget: 45000,
+    spent: 0,
+    startDate: "2025-02-01",
+    dueDate: "2025-05-31",
+    technologies: ["React", "TypeScript"],
+    teamSize: 2,
+    isBillable: false,
+    lead: { name: "Olivia Taylor", department: "Marketing" }
+  },
+  {
+    id: "PRJ-011",
+    name: "Warehouse Scanner App",
+    client: "Globex",
+    status: "Cancelled",
+    priority: "Medium",
+    budget: 150000,
+    spent: 38000,
+    startDate: "2023-07-01",
+    dueDate: "2024-03-31",
+    technologies: ["Angular", "Java"],
+    teamSize: 4,
+    isBillable: true,
+    lead: { name: "Daniel Garcia", department: "Operations" }
+  },
+  {
+    id: "PRJ-012",
+    name: "Payroll Integration",
+    client: "Internal",
+    status: "Completed",
+    priority: "High",
+    budget: 90000,
+    spent: 94500,
+    startDate: "2023-01-09",
+    dueDate: "2023-06-30",
+    technologies: ["Node.js", "AWS"],
+    teamSize: 3,
+    isBillable: false,
+    lead: { name: "Sophia Lee", department: "HR" }
+  },
+  {
+    id: "PRJ-013",
+    name: "Fraud Detection",
+    client: "Initech",
+    status: "Active",
+    priority: "Critical",
+    budget: 460000,
+    spent: 301000,
+    startDate: "2024-03-01",
+    dueDate: "2025-05-31",
+    technologies: ["Python", "Machine Learning", "AWS"],
+    teamSize: 6,
+    isBillable: true,
+    lead: { name: "Ethan Wright", department: "Engineering" }
+  },
+  {
+    id: "PRJ-014",
+    name: "Design System",
+    client: "Internal",
+    status: "Active",
+    priority: "Medium",
+    budget: 130000,
+    spent: 71000,
+    startDate: "2024-05-15",
+    dueDate: "2025-01-31",
+    technologies: ["React", "TypeScript", "Figma"],
+    teamSize: 5,
+    isBillable: false,
+    lead: { name: "Emily Davis", department: "Design" }
+  },
+  {
+    id: "PRJ-015",
+    name: "Support Chatbot",
+    client: "Umbrella Health",
+    status: "Planning",
+    priority: "Medium",
+    budget: 110000,
+    spent: 8500,
+    startDate: "2024-12-01",
+    dueDate: "2025-07-31",
+    technologies: ["Python", "Node.js"],
+    teamSize: 3,
+    isBillable: true,
+    lead: { name: "Ava Thompson", department: "Product" }
+  },
+  {
+    id: "PRJ-016",
+    name: "Infrastructure as Code",
+    client: "Internal",
+    status: "Active",
+    priority: "High",
+    budget: 160000,
+    spent: 88000,
+    startDate: "2024-02-15",
+    dueDate: "2024-12-31",
+    technologies: ["Go", "Docker", "Kubernetes", "AWS"],
+    teamSize: 4,
+    isBillable: false,
+    lead: { name: "Michael Chen", department: "Engineering" }
+  },
+  {
+    id: "PRJ-017",
+    name: "Event Ticketing Platform",
+    client: "Stark Industries",
+    status: "Active",
+    priority: "High",
+    budget: 380000,
+    spent: 402000,
+    startDate: "2023-10-01",
+    dueDate: "2024-10-31",
+    technologies: ["Vue.js", "Node.js", "PostgreSQL"],
+    teamSize: 8,
+    isBillable: true,
+    lead: { name: "Noah Anderson", department: "Engineering" }
+  },
+  {
+    id: "PRJ-018",
+    name: "Quarterly Forecast Model",
+    client: "Internal",
+    status: "Completed",
+    priority: "Medium",
+    budget: 70000,
+    spent: 66000,
+    startDate: "2023-04-01",
+    dueDate: "2023-09-30",
+    technologies: ["Python", "Scala"],
+    teamSize: 2,
+    isBillable: false,
+    lead: { name: "Mia Robinson", department: "Finance" }
+  },
+  {
+    id: "PRJ-019",
+    name: "Retail Loyalty Program",
+    client: "Wayne Enterprises",
+    status: "On Hold",
+    priority: "Low",
+    budget: 140000,
+    spent: 22000,
+    startDate: "2024-06-01",
+    dueDate: "2025-03-31",
+    technologies: ["Angular", "Java", "PostgreSQL"],
+    teamSize: 4,
+    isBillable: true,
+    lead: { name: "Lucas Clark", department: "Product" }
+  },
+  {
+    id: "PRJ-020",
+    name: "Accessibility Audit",
+    client: "Acme Corp",
+    status: "Completed",
+    priority: "Medium",
+    budget: 55000,
+    spent: 49800,
+    startDate: "2024-01-08",
+    dueDate: "2024-04-30",
+    technologies: ["React"],
+    teamSize: 2,
+    isBillable: true,
+    lead: { name: "Isabella Lewis", department: "Design" }
+  },
+  {
+    id: "PRJ-021",
+    name: "Telemetry Pipeline",
+    client: "Internal",
+    status: "Active",
+    priority: "Medium",
+    budget: 210000,
+    spent: 97000,
+    startDate: "2024-07-01",
+    dueDate: "2025-06-30",
+    technologies: ["Go", "Kubernetes", "PostgreSQL"],
+    teamSize: 5,
+    isBillable: false,
+    lead: { name: "David Kim", department: "Engineering" }
+  },
+  {
+    id: "PRJ-022",
+    name: "Contract Management",
+    client: "Globex",
+    status: "Planning",
+    priority: "High",
+    budget: 190000,
+    spent: 12000,
+    startDate: "2025-01-15",
+    dueDate: "2025-12-31",
+    technologies: ["TypeScript", "Node.js", "GraphQL"],
+    teamSize: 5,
+    isBillable: true,
+    lead: { name: "Laura Martinez", department: "Legal" }
+  },
+  {
+    id: "PRJ-023",
+    name: "Field Service Scheduling",
+    client: "Acme Corp",
+    status: "Active",
+    priority: "Medium",
+    budget: 230000,
+    spent: 154000,
+    startDate: "2024-03-18",
+    dueDate: "2025-02-14",
+    technologies: ["React", "Java", "AWS"],
+    teamSize: 6,
+    isBillable: true,
+    lead: { name: "Daniel Garcia", department: "Operations" }
+  },
+  {
+    id: "PRJ-024",
+    name: "Recruiting Portal",
+    client: "Internal",
+    status: "Cancelled",
+    priority: "Low",
+    budget: 80000,
+    spent: 15000,
+    startDate: "2023-08-01",
+    dueDate: "2024-01-31",
+    technologies: ["Vue.js", "Python"],
+    teamSize: 2,
+    isBillable: false,
+    lead: { name: "Sophia Lee", department: "HR" }
+  }
+];
@@ -0,0 +1,61 @@
+import type { DataSchema, Employee, Project } from '../types';
+import { employeeFieldDefinitions } from './fieldDefinitions';
+import { projectFieldDefinitions } from './projectFieldDefinitions';
+
+export const employeeSchema: DataSchema<Employee> = {
+  id: 'employees',
+  label: 'Employees',
+  recordLabel: 'employee',
+  fields: employeeFieldDefinitions,
+  columns: [
+    { key: 'name', label: 'Name', sortable: true, width: '15%' },
+    { key: 'email', label: 'Email', sortable: true, width: '18%' },
+    { key: 'department', label: 'Department', sortable: true, width: '12%' },
+    { key: 'role', label: 'Role', sortable: true, width: '15%' },
+    { key: 'salary', label: 'Salary', sortable: true, width: '12%' },
+    { key: 'joinDate', label: 'Join Date', sortable: true, width: '12%' },
+    { key: 'isActive', label: 'Status', sortable: true, width: '10%' },
+    { key: 'skills', label: 'Skills', sortable: true, width: '16%' }
+  ],
+  queryExamples: {
+    query: 'department = Engineering AND (salary > 100000 OR skills has all [React, TypeScript])',
+    fieldComparison: 'lastReview before @joinDate'
+  },
+  searchFields: ['name', 'email', 'role', 'department', 'skills', 'address.city', 'address.state', 'address.country'],
+  getId: employee => employee.id,
+  getTitle: employee => employee.name,
+  getSubtitle: employee => employee.email
+};
+
+export const projectSchema: DataSchema<Project> = {
+  id: 'projects',
+  label: 'Projects',
+  recordLabel: 'project',
+  fields: projectFieldDefinitions,
+  columns: [
+    { key: 'name', label: 'Project', sortable: true, width: '20%' },
+    { key: 'client', label: 'Client', sortable: true, width: '13%' },
+    { key: 'status', label: 'Status', sortable: true, width: '10%' },
+    { key: 'priority', label: 'Priority', sortable: true, width: '9%' },
+    { key: 'budget', label: 'Budget', sortable: true, width: '11%' },
+    { key: 'dueDate', label: 'Due', sortable: true, width: '11%' },
+    { key: 'isBillable', label: 'Billable', sortable: true, width: '8%' },
+    { key: 'technologies', label: 'Technologies', sortable: true, width: '18%' }
+  ],
+  storageNamespace: 'projects',
+  queryExamples: {
+    query: 'status = Active AND (priority = Critical OR percentSpent > 90)',
+    fieldComparison: 'spent > @budget'
+  },
+  searchFields: ['name', 'id', 'client', 'technologies', 'lead.name', 'lead.department'],
+  getId: project => project.id,
+  getTitle: project => project.name,
+  getSubtitle: project => `${project.id} · ${project.client}`
+};
+
+// Every built-in dataset schema - the first one is the default
+export const dataSchemas: DataSchema[] = [employeeSchema, projectSchema];
+
+// A localStorage key (or channel name) for a schema, e.g. "filterState" -> "filterState:projects"
+export const getStorageKey = (schema: DataSchema, key: string): string =>
+  schema.storageNamespace ? `${key}:${schema.storageNamespace}` : key;
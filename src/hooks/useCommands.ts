@@ -0,0 +1,36 @@
+import { createContext, useContext, useEffect, useRef } from 'react';
+import type { Command } from '../types';
+
+export interface CommandRegistry {
+  // Register a source of commands - returns a function that unregisters it
+  register: (getCommands: () => Command[]) => () => void;
+  getCommands: () => Command[];
+  openPalette: () => void;
+  openHelp: () => void;
+}
+
+// Without a CommandProvider, registering does nothing - components still work on their own
+export const CommandContext = createContext<CommandRegistry>({
+  register: () => () => {},
+  getCommands: () => [],
+  openPalette: () => {},
+  openHelp: () => {}
+});
+
+/**
+ * Make commands available to keyboard shortcuts and the command palette for as long as
+ * the component is mounted. The latest commands are always used, so they can close over
+ * current state without being re-registered.
+ */
+export const useRegisterCommands = (commands: Command[]) => {
+  const { register } = useContext(CommandContext);
+  const commandsRef = useRef(commands);
+
+  useEffect(() => {
+    commandsRef.current = commands;
+  });
+
+  useEffect(() => register(() => commandsRef.current), [register]);
+};
+
+export const useCommandRegistry = () => useContext(CommandContext);
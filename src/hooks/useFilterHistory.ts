@@ -0,0 +1,57 @@
+import { useCallback, useRef, useState } from 'react';
+import type { FilterChangeOptions, FilterState } from '../types';
+import { FilterHistory, type HistoryStacks, type LastChange } from '../utils/filterHistory';
+
+// Oldest steps are dropped beyond this
+export const HISTORY_LIMIT = 50;
+
+/**
+ * Undo/redo for filter editing
+ *
+ * `record` replaces the filters and remembers the previous ones; `undo`/`redo` step through them.
+ * Keystrokes in the same input arrive as separate changes with the same coalesceKey,
+ * and are merged into one step so undo takes back the whole word rather than one letter.
+ */
+export const useFilterHistory = (
+  filterState: FilterState,
+  applyFilterState: (filterState: FilterState) => void,
+  limit: number = HISTORY_LIMIT
+) => {
+  const [stacks, setStacks] = useState<HistoryStacks>(FilterHistory.empty);
+  const lastChangeRef = useRef<LastChange | null>(null);
+
+  const record = useCallback((newFilterState: FilterState, options?: FilterChangeOptions) => {
+    const now = Date.now();
+    const merge = FilterHistory.continues(lastChangeRef.current, options?.coalesceKey, now);
+    lastChangeRef.current = { coalesceKey: options?.coalesceKey, at: now };
+
+    setStacks(prev => FilterHistory.record(prev, filterState, merge, limit));
+    applyFilterState(newFilterState);
+  }, [filterState, applyFilterState, limit]);
+
+  const undo = useCallback(() => {
+    const step = FilterHistory.undo(stacks, filterState);
+    if (!step) return;
+
+    setStacks(step.stacks);
+    lastChangeRef.current = null; // The next edit starts a new step
+    applyFilterState(step.filterState);
+  }, [stacks, filterState, applyFilterState]);
+
+  const redo = useCallback(() => {
+    const step = FilterHistory.redo(stacks, filterState);
+    if (!step) return;
+
+    setStacks(step.stacks);
+    lastChangeRef.current = null;
+    applyFilterState(step.filterState);
+  }, [stacks, filterState, applyFilterState]);
+
+  return {
+    record,
+    undo,
+    redo,
+    canUndo: stacks.past.length > 0,
+    canRedo: stacks.future.length > 0
+  };
+};
@@ -0,0 +1,67 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { DataSchema, FilterPreset, FilterState } from '../types';
+import { PresetStore, type ImportedPresets } from '../utils/presetStore';
+import { FilterStorage, type LoadedFilterState } from '../utils/filterStorage';
+
+/**
+ * Saved filter presets of a dataset, kept in localStorage
+ *
+ * Every change is written back straight away, like the current filter state in App.
+ * A preset may have been saved before the fields changed, so loadPreset repairs its filters
+ * the same way restored filters are, and lists what it changed.
+ */
+export const usePresets = (schema: DataSchema) => {
+  const [presets, setPresets] = useState<FilterPreset[]>(() => PresetStore.load(schema));
+
+  useEffect(() => {
+    PresetStore.save(schema, presets);
+  }, [schema, presets]);
+
+  const loadPreset = useCallback(
+    (preset: FilterPreset): LoadedFilterState => FilterStorage.repair(schema, preset.filterState),
+    [schema]
+  );
+
+  const savePreset = useCallback((name: string, filterState: FilterState, description?: string) => {
+    setPresets(prev => PresetStore.savePreset(prev, name, filterState, description));
+  }, []);
+
+  const renamePreset = useCallback((id: string, name: string, description?: string) => {
+    setPresets(prev => PresetStore.renamePreset(prev, id, name, description));
+  }, []);
+
+  const duplicatePreset = useCallback((id: string) => {
+    setPresets(prev => PresetStore.duplicatePreset(prev, id));
+  }, []);
+
+  const deletePreset = useCallback((id: string) => {
+    setPresets(prev => PresetStore.deletePreset(prev, id));
+  }, []);
+
+  const setDefaultPreset = useCallback((id: string | null) => {
+    setPresets(prev => PresetStore.setDefault(prev, id));
+  }, []);
+
+  // Returns the imported presets and what was fixed in them - throws PresetImportError for a bad file
+  const importPresets = useCallback((fileText: string): ImportedPresets => {
+    const imported = PresetStore.parseFile(schema, fileText);
+    setPresets(prev => PresetStore.importPresets(prev, imported.presets));
+    return imported;
+  }, [schema]);
+
+  const exportPresets = useCallback(() => PresetStore.exportToFile(schema, presets), [schema, presets]);
+
+  return {
+    presets,
+    loadPreset,
+    savePreset,
+    renamePreset,
+    duplicatePreset,
+    deletePreset,
+    setDefaultPreset,
+    importPresets,
+    exportPresets
+  };
+};
+
+export type PresetActions = ReturnType<typeof usePresets>;
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { isConflict, type SyncMessage, type SyncPosition } from './useTabSync';
+import { state } from '../utils/testFixtures';
+
+const message = (parentId: string | null): SyncMessage => ({ tabId: 'other', id: 'theirs', parentId, filterState: state([]) });
+
+describe('isConflict', () => {
+  const now = 100_000;
+  const edited = (secondsAgo: number): SyncPosition => ({ id: 'mine', isLocalEdit: true, editedAt: now - secondsAgo * 1000 });
+
+  it('flags a change made alongside our own recent edit', () => {
+    expect(isConflict(edited(1), message('base'), now)).toBe(true);
+    expect(isConflict(edited(1), message(null), now)).toBe(true);
+  });
+
+  it('applies a change made on top of our edit', () => {
+    expect(isConflict(edited(1), message('mine'), now)).toBe(false);
+  });
+
+  it('lets the latest change win once our edit is a while ago, or was not ours', () => {
+    expect(isConflict(edited(10), message('base'), now)).toBe(false);
+    expect(isConflict({ id: 'received', isLocalEdit: false }, message('base'), now)).toBe(false);
+  });
+});
@@ -0,0 +1,204 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import type { DataSchema, FilterState } from '../types';
+import { getStorageKey } from '../data/schemas';
+import { FilterStorage } from '../utils/filterStorage';
+
+// Each dataset syncs on its own channel and keys (see getStorageKey)
+const CHANNEL_NAME = 'dynamic-filter-sync';
+// Fallback for browsers without BroadcastChannel - other tabs get a storage event when this key is written
+const SYNC_STORAGE_KEY = 'dynamicFilterSync';
+// Per tab (sessionStorage), so a detached tab stays detached when reloaded
+const DETACHED_SESSION_KEY = 'dynamicFilterDetached';
+// A change from another tab only counts as a conflict if we edited this recently ourselves
+const CONFLICT_WINDOW_MS = 5000;
+
+export interface SyncMessage {
+  tabId: string;
+  // Every filter change gets an id, and remembers the id of the state it was made from
+  id: string;
+  parentId: string | null;
+  filterState: FilterState;
+}
+
+// What this tab's current filters are, as far as syncing is concerned
+export interface SyncPosition {
+  id: string | null;
+  // True when the current filters are an edit made in this tab (rather than loaded or received)
+  isLocalEdit: boolean;
+  editedAt?: number;
+}
+
+/**
+ * Whether a change from another tab collides with our own: we edited the filters just now, and the
+ * change wasn't made on top of that edit. Anything else is simply applied - the latest change wins.
+ */
+export const isConflict = (position: SyncPosition, message: SyncMessage, now: number = Date.now()): boolean => {
+  const editingNow = position.isLocalEdit && now - (position.editedAt ?? 0) < CONFLICT_WINDOW_MS;
+  return editingNow && message.parentId !== position.id;
+};
+
+/**
+ * Keep the filters in sync across browser tabs
+ *
+ * Each change is broadcast to the other tabs, which apply it right away. If two tabs edit at the
+ * same time - a change arrives that wasn't made on top of this tab's own latest edit, and we made
+ * that edit just now - nothing is overwritten; instead `conflict` holds the other tab's filters
+ * until the user picks a side. Otherwise the latest change wins.
+ * A detached tab neither sends nor receives changes, and doesn't save its filters to localStorage.
+ * Only tabs showing the same dataset are kept in sync.
+ * Edits reach filterState as they're made (only the filtering waits, see App), so there is never a
+ * local edit still on its way that could land on top of a change from another tab and be sent back.
+ */
+export const useTabSync = (
+  schema: DataSchema,
+  filterState: FilterState,
+  onRemoteChange: (filterState: FilterState) => void
+) => {
+  const [tabId] = useState(() => uuidv4());
+  const [detached, setDetachedState] = useState(() => {
+    try {
+      return sessionStorage.getItem(getStorageKey(schema, DETACHED_SESSION_KEY)) === 'true';
+    } catch {
+      return false;
+    }
+  });
+  const [conflict, setConflict] = useState<SyncMessage | null>(null);
+
+  // A new schema object arrives whenever the records load, so everything below is keyed on these
+  // strings instead - reopening the channel for the same dataset would lose messages in between
+  const channelName = getStorageKey(schema, CHANNEL_NAME);
+  const syncKey = getStorageKey(schema, SYNC_STORAGE_KEY);
+
+  const positionRef = useRef<SyncPosition>({ id: null, isLocalEdit: false });
+  // The last state we applied from another tab - it must not be broadcast back as a local edit
+  const appliedRemoteRef = useRef<FilterState | null>(null);
+  const channelRef = useRef<BroadcastChannel | null>(null);
+
+  // Keep the latest values in refs so the message listener doesn't need to be re-registered
+  const onRemoteChangeRef = useRef(onRemoteChange);
+  const detachedRef = useRef(detached);
+  useEffect(() => {
+    onRemoteChangeRef.current = onRemoteChange;
+    detachedRef.current = detached;
+  });
+
+  const send = useCallback((message: SyncMessage) => {
+    if (channelRef.current) {
+      channelRef.current.postMessage(message);
+      return;
+    }
+    try {
+      localStorage.setItem(syncKey, JSON.stringify(message));
+    } catch (err) {
+      console.warn('Failed to sync filters with other tabs:', err);
+    }
+  }, [syncKey]);
+  // Switching datasets mustn't look like a filter change below
+  const sendRef = useRef(send);
+  useEffect(() => {
+    sendRef.current = send;
+  });
+
+  const applyRemote = useCallback((message: SyncMessage) => {
+    positionRef.current = { id: message.id, isLocalEdit: false };
+    appliedRemoteRef.current = message.filterState;
+    onRemoteChangeRef.current(message.filterState);
+  }, []);
+
+  // Listen for changes from other tabs
+  useEffect(() => {
+    const handleMessage = (message: SyncMessage) => {
+      if (!message || message.tabId === tabId || detachedRef.current) return;
+
+      if (isConflict(positionRef.current, message)) {
+        // Both tabs changed the filters from the same starting point - let the user decide
+        setConflict(message);
+      } else {
+        setConflict(null);
+        applyRemote(message);
+      }
+    };
+
+    if (typeof BroadcastChannel !== 'undefined') {
+      const channel = new BroadcastChannel(channelName);
+      channel.onmessage = (e: MessageEvent<SyncMessage>) => handleMessage(e.data);
+      channelRef.current = channel;
+      return () => {
+        channel.close();
+        channelRef.current = null;
+      };
+    }
+
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key !== syncKey || !e.newValue) return;
+      try {
+        handleMessage(JSON.parse(e.newValue));
+      } catch {
+        // Ignore anything we can't read
+      }
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, [channelName, syncKey, tabId, applyRemote]);
+
+  // Broadcast local changes. The filters this tab started with (maybe from a shared link)
+  // are not a change, so opening a tab never overwrites the others.
+  // Only a new filterState triggers this - detaching and sending are read through refs.
+  const initialStateRef = useRef(filterState);
+  useEffect(() => {
+    if (detachedRef.current || filterState === appliedRemoteRef.current || filterState === initialStateRef.current) return;
+
+    const message: SyncMessage = { tabId, id: uuidv4(), parentId: positionRef.current.id, filterState };
+    positionRef.current = { id: message.id, isLocalEdit: true, editedAt: Date.now() };
+    sendRef.current(message);
+  }, [filterState, tabId]);
+
+  /**
+   * Settle a conflict: take the other tab's filters, or keep ours and send them to the other tabs
+   */
+  const resolveConflict = useCallback((choice: 'theirs' | 'mine') => {
+    if (!conflict) return;
+
+    if (choice === 'theirs') {
+      applyRemote(conflict);
+    } else {
+      // Made "on top of" theirs, so the other tabs take it without another conflict
+      const message: SyncMessage = { tabId, id: uuidv4(), parentId: conflict.id, filterState };
+      positionRef.current = { id: message.id, isLocalEdit: true, editedAt: Date.now() };
+      send(message);
+    }
+    setConflict(null);
+  }, [conflict, filterState, tabId, applyRemote, send]);
+
+  /**
+   * Detach this tab (keep its own filters) or re-attach it (pick up the filters the other tabs share)
+   */
+  const setDetached = useCallback((value: boolean) => {
+    setDetachedState(value);
+    setConflict(null);
+    try {
+      sessionStorage.setItem(getStorageKey(schema, DETACHED_SESSION_KEY), String(value));
+    } catch {
+      // Not being able to remember it across reloads is fine
+    }
+
+    if (!value) {
+      // The attached tabs kept saving while we were away, so localStorage has their filters
+      const shared = FilterStorage.load(schema);
+      if (shared) {
+        positionRef.current = { id: null, isLocalEdit: false };
+        appliedRemoteRef.current = shared.filterState;
+        onRemoteChangeRef.current(shared.filterState);
+      }
+    }
+  }, [schema]);
+
+  return {
+    detached,
+    setDetached,
+    // The other tab's filters while a conflict is waiting to be resolved
+    conflict: conflict?.filterState ?? null,
+    resolveConflict
+  };
+};
@@ -0,0 +1,48 @@
+import { createContext, useContext, useEffect, useState } from 'react';
+import type { Operator, SuggestionRequest, ValueSuggestion } from '../types';
+import { ValueSuggestions } from '../utils/valueSuggestions';
+import { useDebouncedValue } from '../utils/debounce';
+
+export type SuggestionSource = (request: SuggestionRequest) => Promise<ValueSuggestion[]>;
+
+// Where text inputs get their suggestions - the app provides one that asks the server in
+// server mode and looks through the loaded records otherwise. Without one there are none.
+export const SuggestionContext = createContext<SuggestionSource>(() => Promise.resolve([]));
+
+/**
+ * Suggestions for a text condition's value, fetched as the user types (debounced).
+ * Pass a null field to turn them off, e.g. for non-text fields.
+ * Responses for an earlier query are dropped if a newer one has been asked for.
+ * If the source fails there are no suggestions, and `error` is set until the next request succeeds.
+ */
+export const useValueSuggestions = (field: string | null, operator: Operator, query: string) => {
+  const source = useContext(SuggestionContext);
+  const debouncedQuery = useDebouncedValue(query, 150);
+  const enabled = field !== null && ValueSuggestions.supports(operator);
+  const requestKey = JSON.stringify([field, operator, debouncedQuery]);
+  const [result, setResult] = useState<{ key: string; suggestions: ValueSuggestion[]; failed: boolean } | null>(null);
+
+  useEffect(() => {
+    if (field === null || !ValueSuggestions.supports(operator)) return;
+
+    let cancelled = false;
+    source({ field, operator, query: debouncedQuery }).then(
+      suggestions => {
+        if (!cancelled) setResult({ key: requestKey, suggestions, failed: false });
+      },
+      () => {
+        if (!cancelled) setResult({ key: requestKey, suggestions: [], failed: true });
+      }
+    );
+
+    return () => {
+      cancelled = true;
+    };
+  }, [source, field, operator, debouncedQuery, requestKey]);
+
+  return {
+    suggestions: enabled ? (result?.suggestions ?? []) : [],
+    loading: enabled && result?.key !== requestKey,
+    error: enabled && !!result?.failed
+  };
+};
@@ -3,6 +3,7 @@ import { createRoot } from 'react-dom/client'
 import { CssBaseline, ThemeProvider, createTheme } from '@mui/material'
 import './index.css'
 import App from './App.tsx'
+import { CommandProvider } from './components/CommandProvider'
 
 const theme = createTheme({
   palette: {
@@ -22,7 +23,9 @@ createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <ThemeProvider theme={theme}>
       <CssBaseline />
-      <App />
+      <CommandProvider>
+        <App />
+      </CommandProvider>
     </ThemeProvider>
   </StrictMode>,
 )
\ No newline at end of file
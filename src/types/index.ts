@@ -21,16 +21,63 @@ export interface Employee {
   performanceRating: number;
 }
 
+// Project data types - the second built-in dataset
+export type ProjectStatus = 'Planning' | 'Active' | 'On Hold' | 'Completed' | 'Cancelled';
+
+export interface Project {
+  id: string; // e.g. "PRJ-001"
+  name: string;
+  client: string;
+  status: ProjectStatus;
+  priority: 'Low' | 'Medium' | 'High' | 'Critical';
+  budget: number;
+  spent: number;
+  startDate: string;
+  dueDate: string;
+  technologies: string[];
+  teamSize: number;
+  isBillable: boolean;
+  lead: { name: string; department: string };
+}
+
 // Filter types
 export type FieldType = 'text' | 'number' | 'date' | 'amount' | 'singleSelect' | 'multiSelect' | 'boolean';
 
-export type TextOperator = 'equals' | 'contains' | 'startsWith' | 'endsWith' | 'notContains' | 'regex';
-export type NumberOperator = 'equals' | 'greaterThan' | 'lessThan' | 'greaterThanOrEqual' | 'lessThanOrEqual' | 'between';
-export type DateOperator = 'equals' | 'before' | 'after' | 'between';
-export type AmountOperator = 'equals' | 'between' | 'greaterThan' | 'lessThan';
-export type SelectOperator = 'is' | 'isNot';
-export type MultiSelectOperator = 'in' | 'notIn' | 'containsAll';
-export type BooleanOperator = 'is';
+// Available for every field type - they test whether the field has a value at all
+export type EmptinessOperator = 'isEmpty' | 'isNotEmpty';
+
+export type TextOperator =
+  | 'equals'
+  | 'contains'
+  | 'startsWith'
+  | 'endsWith'
+  | 'notContains'
+  | 'regex'
+  | 'fuzzy'
+  | EmptinessOperator;
+export type NumberOperator =
+  | 'equals'
+  | 'greaterThan'
+  | 'lessThan'
+  | 'greaterThanOrEqual'
+  | 'lessThanOrEqual'
+  | 'between'
+  | EmptinessOperator;
+export type DateOperator =
+  | 'equals'
+  | 'before'
+  | 'after'
+  | 'between'
+  | 'inLast'
+  | 'inNext'
+  | 'olderThan'
+  | 'thisQuarter'
+  | 'lastCalendarYear'
+  | EmptinessOperator;
+export type AmountOperator = 'equals' | 'between' | 'greaterThan' | 'lessThan' | EmptinessOperator;
+export type SelectOperator = 'is' | 'isNot' | EmptinessOperator;
+export type MultiSelectOperator = 'in' | 'notIn' | 'containsAll' | EmptinessOperator;
+export type BooleanOperator = 'is' | EmptinessOperator;
 
 export type Operator =
   | TextOperator
@@ -41,6 +88,23 @@ export type Operator =
   | MultiSelectOperator
   | BooleanOperator;
 
+// Value of the relative date operators (inLast, inNext, olderThan), e.g. { amount: 90, unit: 'days' }
+export type RelativeDateUnit = 'days' | 'weeks' | 'months';
+
+export interface RelativeDateValue {
+  amount: number | string;
+  unit: RelativeDateUnit;
+}
+
+// How a text condition compares text (see TextMatch). Left out = case-insensitive, otherwise as written.
+export interface TextMatchOptions {
+  caseSensitive?: boolean;
+  ignoreDiacritics?: boolean; // "Jose" matches "José"
+  collapseWhitespace?: boolean; // Ignore leading/trailing spaces, and runs of spaces count as one
+  maxDistance?: number; // fuzzy only: typos allowed (default 2)
+  regexFlags?: string; // regex only: extra RegExp flags - any of "m", "s" and "u" (case goes by caseSensitive)
+}
+
 export interface FilterCondition {
   id: string;
   field: string;
@@ -48,21 +112,163 @@ export interface FilterCondition {
   operator: Operator;
   value: any;
   nestedKey?: string; // For nested objects like address.city
-  logicalOperator?: 'AND' | 'OR'; // For combining conditions
+  logicalOperator?: 'AND' | 'OR'; // How this condition joins the previous one in 'chain' mode
+  valueSource?: 'value' | 'field'; // Compare against a literal value (default) or another field
+  valueField?: string; // Key of the field to compare against when valueSource is 'field'
+  enabled?: boolean; // false mutes the condition - it stays in the builder but doesn't filter anything
+  textOptions?: TextMatchOptions; // Text fields only
+}
+
+// Live counts shown with a condition in the builder (see FilterEngine.getConditionStats)
+export interface ConditionStats {
+  matches?: number; // Records this condition matches on its own
+  remaining?: number; // Records left after applying every condition up to and including this one
+  facets?: Record<string, number>; // Select fields: records per option value, given the other conditions
+}
+
+// Values offered while typing a text condition (see ValueSuggestions)
+export interface SuggestionRequest {
+  field: string;
+  operator: Operator; // startsWith only suggests values starting with the query, endsWith ending with it
+  query: string;
+  limit?: number;
+}
+
+export interface ValueSuggestion {
+  value: string;
+  count: number; // Records with this value
+}
+
+// Why a record did or didn't match the filters - see FilterEngine.traceRecord
+// 'skipped' nodes had no say: disabled or invalid conditions, and groups with nothing usable in them
+export type TraceStatus = 'passed' | 'failed' | 'skipped';
+
+export interface ConditionTrace {
+  type: 'condition';
+  condition: FilterCondition;
+  status: TraceStatus;
+  skipReason?: 'disabled' | 'invalid';
+  actual: unknown; // The record's value for the field
+  expected: unknown; // The condition's value, or the record's value of the other field when comparing fields
+}
+
+export interface GroupTrace {
+  type: 'group';
+  id: string | null; // null for the top level (the filter state itself)
+  logicalOperator: 'AND' | 'OR';
+  evaluationMode: EvaluationMode;
+  connector?: 'AND' | 'OR';
+  status: TraceStatus;
+  children: NodeTrace[];
+}
+
+export type NodeTrace = ConditionTrace | GroupTrace;
+
+// How the children of a group are combined:
+// - 'uniform': every child is joined by the group's logicalOperator
+// - 'chain': each child's own connector decides how it joins the previous one (AND binds tighter than OR)
+export type EvaluationMode = 'uniform' | 'chain';
+
+// A group of conditions (and/or nested groups) combined by a single logical operator.
+// Groups can be nested to any depth, e.g. (A AND B) OR (C AND D).
+export interface FilterGroup {
+  id: string;
+  type: 'group';
+  logicalOperator: 'AND' | 'OR';
+  evaluationMode?: EvaluationMode;
+  connector?: 'AND' | 'OR'; // How this group joins the previous sibling in 'chain' mode
+  conditions: FilterNode[];
+  collapsed?: boolean; // UI only - whether the group is folded in the builder
 }
 
-export interface FieldDefinition {
-  key: keyof Employee | string;
+export type FilterNode = FilterCondition | FilterGroup;
+
+export interface FieldOption {
+  label: string;
+  value: any;
+  count?: number; // Records with this value - only set on options derived from the data
+}
+
+// Options for a select field taken from the loaded records - see FieldOptions.resolveSchema
+export interface DerivedOptions {
+  sortBy?: 'frequency' | 'alphabetical'; // Default: frequency, most common first
+  // Keep the static options first, in their curated order, and add the values only the data has after them
+  keepStatic?: boolean;
+}
+
+// T is the record type the field belongs to, e.g. FieldDefinition<Employee>
+export interface FieldDefinition<T = unknown> {
+  key: string;
   label: string;
   type: FieldType;
   operators: Operator[];
-  options?: Array<{ label: string; value: any }>;
+  options?: FieldOption[];
+  derivedOptions?: DerivedOptions; // Work the options out from the records instead of (or on top of) options
   nestedKey?: string; // For nested objects like address.city
+  compute?(record: T): unknown; // For computed fields - derives the value instead of reading it
+}
+
+/**
+ * Everything the filters, the builder and the table need to know about a kind of record:
+ * its fields, which of them are table columns, and how to name a record.
+ * See src/data/schemas.ts for the built-in ones.
+ */
+export interface DataSchema<T = unknown> {
+  id: string; // e.g. "employees" - used in share links and storage keys
+  label: string; // e.g. "Employees"
+  recordLabel: string; // One record, e.g. "employee"
+  fields: FieldDefinition<T>[];
+  columns: TableColumn[]; // Shown by default - computed fields can be added from the Columns menu
+  // Suffix for localStorage keys and the tab sync channel. Left out for employees,
+  // so filters and presets saved before there were other datasets still load.
+  storageNamespace?: string;
+  // Shown in the text query editor
+  queryExamples?: { query: string; fieldComparison: string };
+  // Fields the quick search looks through, most important first (see TextSearch).
+  // Defaults to every text and select field.
+  searchFields?: string[];
+  getId(record: T): string | number;
+  getTitle(record: T): string; // e.g. the employee's name, shown in the record lookup
+  getSubtitle?(record: T): string;
 }
 
+// The filter state is the top-level group of the filter tree
 export interface FilterState {
-  conditions: FilterCondition[];
+  conditions: FilterNode[];
   logicalOperator: 'AND' | 'OR';
+  evaluationMode?: EvaluationMode;
+}
+
+// Extra information about a filter change, used by the undo history
+export interface FilterChangeOptions {
+  // Changes with the same key in quick succession (typing in one input) become a single undo step
+  coalesceKey?: string;
+  // Set for destructive changes - offers an "Undo" right away, e.g. "All filters cleared"
+  undoMessage?: string;
+  // Set when loading saved filters (a preset) that had to be fixed for the current fields - see FilterStorage.repair
+  repairs?: string[];
+}
+
+// An action that can be run from a keyboard shortcut or the command palette
+export interface Command {
+  id: string;
+  label: string;
+  group: string; // Heading in the palette and the shortcut help, e.g. "Filters"
+  shortcuts?: string[]; // e.g. ['Ctrl+Alt+A'] - see KeyboardShortcuts
+  disabled?: boolean;
+  global?: boolean; // Its shortcuts also work while typing - leave out for anything the key could mean to the input
+  run: () => void;
+}
+
+// A named, saved filter the user can load again later
+export interface FilterPreset {
+  id: string;
+  name: string;
+  description?: string;
+  filterState: FilterState;
+  createdAt: string; // ISO timestamp
+  updatedAt: string; // ISO timestamp
+  isDefault?: boolean; // Loaded automatically when the app starts
 }
 
 export interface TableColumn {
@@ -71,3 +277,10 @@ export interface TableColumn {
   sortable: boolean;
   width?: string;
 }
+
+export type SortOrder = 'asc' | 'desc';
+
+export interface SortState {
+  field: string | null;
+  order: SortOrder;
+}
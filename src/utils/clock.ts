@@ -0,0 +1,24 @@
+/**
+ * Source of "now" for anything time-dependent (relative date filters, computed fields, etc.)
+ *
+ * Everything reads the current time through Clock.now() instead of calling new Date() directly.
+ * That way a test (or a demo) can freeze time with Clock.set(() => new Date('2024-06-30'))
+ * and get the same results every time, then call Clock.reset() to go back to the real time.
+ */
+export class Clock {
+  private static nowFn: () => Date = () => new Date();
+
+  static now(): Date {
+    return this.nowFn();
+  }
+
+  static set(nowFn: () => Date): void {
+    this.nowFn = nowFn;
+  }
+
+  static reset(): void {
+    this.nowFn = () => new Date();
+  }
+}
+
+export default Clock;
@@ -1,4 +1,5 @@
-import type { Employee, FilterState } from '../types';
+import type { DataSchema, FilterState } from '../types';
+import { getComputedFields } from '../data/fieldDefinitions';
 
 export class ExportUtil {
   /**
@@ -7,17 +8,18 @@ export class ExportUtil {
    * Includes metadata about when the export happened and which filters were applied.
    * This way when the user opens the JSON file later, they know exactly what data this represents.
    */
-  static exportToJSON(data: Employee[], filterState?: FilterState): void {
+  static exportToJSON<T extends object>(schema: DataSchema<T>, data: T[], filterState?: FilterState): void {
     const exportData = {
       exportDate: new Date().toISOString(),
+      dataset: schema.id,
       recordCount: data.length,
       filters: filterState || null,
-      data
+      data: this.withComputedFields(schema, data)
     };
 
     const jsonString = JSON.stringify(exportData, null, 2);
     const blob = new Blob([jsonString], { type: 'application/json' });
-    this.downloadFile(blob, `employee-export-${Date.now()}.json`);
+    this.downloadFile(blob, `${schema.recordLabel}-export-${Date.now()}.json`);
   }
 
   /**
@@ -26,20 +28,21 @@ export class ExportUtil {
    * CSV (Comma-Separated Values) is a universal format that works with Excel, Google Sheets, etc.
    * We handle nested objects (like address.city) and arrays (like skills) by flattening them.
    */
-  static exportToCSV(data: Employee[]): void {
+  static exportToCSV<T extends object>(schema: DataSchema<T>, data: T[]): void {
     if (!data || data.length === 0) {
       alert('No data to export');
       return;
     }
 
     // Get all unique keys from all records (including nested ones like address.city)
-    const keys = this.getAllKeys(data);
+    const records = this.withComputedFields(schema, data);
+    const keys = this.getAllKeys(records);
 
     // Create the header row with all column names
     const header = keys.join(',');
 
-    // Create data rows - one row per employee with values matching the header columns
-    const rows = data.map(record => {
+    // Create data rows - one row per record with values matching the header columns
+    const rows = records.map(record => {
       return keys.map(key => {
         const value = this.getNestedValue(record, key);
         // Escape special characters that would break CSV format
@@ -50,17 +53,31 @@ export class ExportUtil {
 
     const csvContent = [header, ...rows].join('\n');
     const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    this.downloadFile(blob, `employee-export-${Date.now()}.csv`);
+    this.downloadFile(blob, `${schema.recordLabel}-export-${Date.now()}.csv`);
+  }
+
+  /**
+   * Add the schema's computed fields (tenure, days since review, ...) to each record
+   *
+   * They aren't stored on the record, so without this the export would be missing
+   * columns the user can see and filter on in the app.
+   */
+  private static withComputedFields<T extends object>(schema: DataSchema<T>, data: T[]): Array<T & Record<string, unknown>> {
+    const computedFields = getComputedFields(schema);
+    return data.map(record => ({
+      ...record,
+      ...Object.fromEntries(computedFields.map(field => [field.key, field.compute!(record)]))
+    }));
   }
 
   /**
    * Get all unique keys from records (including nested keys)
    * 
-   * Since different employees might have different data, we need to find ALL possible
+   * Since different records might have different data, we need to find ALL possible
    * keys/properties. For example, we'll get both "name", "email", and also nested ones like "address.city".
-   * We use a Set to avoid duplicates across all employees.
+   * We use a Set to avoid duplicates across all records.
    */
-  private static getAllKeys(data: Employee[]): string[] {
+  private static getAllKeys(data: Record<string, unknown>[]): string[] {
     const keys = new Set<string>();
 
     data.forEach(record => {
@@ -146,7 +163,7 @@ export class ExportUtil {
    * The browser will then download the file with the specified filename.
    * Clean up the object URL when done to avoid memory leaks.
    */
-  private static downloadFile(blob: Blob, filename: string): void {
+  static downloadFile(blob: Blob, filename: string): void {
     // Create a temporary URL that points to the blob data
     const url = window.URL.createObjectURL(blob);
     // Create an invisible anchor element (download link)
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import type { FieldDefinition } from '../types';
+import { FieldInference } from './fieldInference';
+
+const project = (
+  id: number,
+  name: string,
+  status: string,
+  budget: number | null,
+  startDate: string,
+  billable: boolean,
+  tags: string[],
+  city: string
+) => ({ id, name, status, budget, startDate, billable, tags, owner: { city } });
+
+const records = [
+  project(1, 'Apollo', 'Active', 1000, '2024-01-15', true, ['web'], 'Oslo'),
+  project(2, 'Borealis', 'Active', 2500, '2024-03-01', false, ['web', 'api'], 'Bergen'),
+  project(3, 'Cassini', 'Done', 500, '2023-11-30T09:00:00Z', true, [], 'Oslo'),
+  project(4, 'Dawn', 'Done', null, '', true, ['api'], 'Oslo')
+];
+
+const byKey = (fields: FieldDefinition[]) => Object.fromEntries(fields.map(field => [field.key, field]));
+
+describe('FieldInference.inferFields', () => {
+  it('works out each field\'s type from the values', () => {
+    const fields = byKey(FieldInference.inferFields(records));
+    expect(Object.fromEntries(Object.entries(fields).map(([key, field]) => [key, field.type]))).toEqual({
+      id: 'number',
+      name: 'text',
+      status: 'singleSelect',
+      budget: 'amount',
+      startDate: 'date',
+      billable: 'boolean',
+      tags: 'multiSelect',
+      'owner.city': 'singleSelect'
+    });
+  });
+
+  it('labels fields, follows nested keys and lists the options', () => {
+    const fields = byKey(FieldInference.inferFields(records));
+    expect(fields['owner.city']).toMatchObject({
+      label: 'Owner City',
+      nestedKey: 'owner.city',
+      options: [
+        { label: 'Bergen', value: 'Bergen' },
+        { label: 'Oslo', value: 'Oslo' }
+      ]
+    });
+    expect(fields.tags.options?.map(option => option.value)).toEqual(['api', 'web']);
+    expect(fields.startDate.operators).toEqual(FieldInference.defaultOperators.date);
+  });
+
+  it('falls back to text when the values disagree or are all missing', () => {
+    const fields = byKey(FieldInference.inferFields([{ code: 1, note: null }, { code: 'A1', note: undefined }]));
+    expect(fields.code.type).toBe('text');
+    expect(fields.note.type).toBe('text');
+  });
+
+  it('applies overrides, leaves out fields and adds extra ones', () => {
+    const extra: FieldDefinition = { key: 'age', label: 'Age', type: 'number', operators: ['equals'] };
+    const fields = FieldInference.inferFields(records, {
+      overrides: { id: false, billable: { label: 'Billable?' } },
+      extraFields: [extra],
+      maxSelectOptions: 1
+    });
+    const keyed = byKey(fields);
+    expect(keyed.id).toBeUndefined();
+    expect(keyed.billable.label).toBe('Billable?');
+    expect(keyed.status.type).toBe('text');
+    expect(fields[fields.length - 1]).toBe(extra);
+  });
+
+  it('turns keys into labels', () => {
+    expect(FieldInference.toLabel('joinDate')).toBe('Join Date');
+    expect(FieldInference.toLabel('team_size')).toBe('Team Size');
+  });
+});
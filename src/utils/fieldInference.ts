@@ -0,0 +1,148 @@
+import type { FieldDefinition, FieldType, Operator } from '../types';
+import { dateOperators, numberOperators } from '../data/fieldDefinitions';
+import { RelativeDate } from './relativeDate';
+
+export interface FieldInferenceOptions<T> {
+  // Tweaks per field key, merged over what was inferred (e.g. a nicer label or a curated option order).
+  // false leaves the field out.
+  overrides?: Record<string, Partial<FieldDefinition<T>> | false>;
+  // Added after the inferred fields, e.g. computed fields
+  extraFields?: FieldDefinition<T>[];
+  // A string field with at most this many distinct values becomes a singleSelect (default 12)...
+  maxSelectOptions?: number;
+  // ...as long as values repeat: distinct values / records with a value at most this (default 0.5)
+  maxSelectRatio?: number;
+  // Number fields whose key matches become amounts (default: salary, price, budget, ...)
+  amountKeyPattern?: RegExp;
+}
+
+// Values collected for one (possibly nested) key across all records
+interface FieldSamples {
+  values: unknown[];
+}
+
+/**
+ * Field definitions inferred from the records themselves
+ *
+ * Scans every record and works out a field per key:
+ * - booleans -> boolean, numbers -> number (amount if the key looks like money)
+ * - YYYY-MM-DD strings (optionally with a time) -> date
+ * - arrays -> multiSelect, with the distinct items as options
+ * - strings with few, repeating values -> singleSelect with those values as options, other strings -> text
+ * - nested objects -> one field per leaf, with dotted keys (address.city) and nestedKey set
+ * Keys whose values don't agree on a type fall back to text. Options are sorted alphabetically.
+ *
+ *   const fields = FieldInference.inferFields(projectData, {
+ *     overrides: { id: false, isBillable: { label: 'Billable' } }
+ *   });
+ */
+export class FieldInference {
+  // The operators a field gets unless overridden - the same sets the hand-written fields use
+  static readonly defaultOperators: Record<FieldType, Operator[]> = {
+    text: ['equals', 'contains', 'startsWith', 'endsWith', 'notContains', 'regex', 'fuzzy', 'isEmpty', 'isNotEmpty'],
+    number: numberOperators,
+    amount: ['equals', 'between', 'greaterThan', 'lessThan', 'isEmpty', 'isNotEmpty'],
+    date: dateOperators,
+    singleSelect: ['is', 'isNot', 'isEmpty', 'isNotEmpty'],
+    multiSelect: ['in', 'notIn', 'containsAll', 'isEmpty', 'isNotEmpty'],
+    boolean: ['is', 'isEmpty', 'isNotEmpty']
+  };
+
+  private static readonly defaultAmountKeyPattern = /salary|price|cost|amount|budget|spent|revenue|fee/i;
+
+  static inferFields<T extends object>(records: T[], options: FieldInferenceOptions<T> = {}): FieldDefinition<T>[] {
+    const samples = new Map<string, FieldSamples>();
+    records.forEach(record => this.collectSamples(record, '', samples));
+
+    const inferred = Array.from(samples).flatMap(([key, { values }]): FieldDefinition<T>[] => {
+      const override = options.overrides?.[key];
+      if (override === false) return [];
+
+      const field = this.inferField<T>(key, values, options);
+      return [{ ...field, ...override }];
+    });
+
+    return [...inferred, ...(options.extraFields ?? [])];
+  }
+
+  /**
+   * Turn a key into a label, e.g. joinDate -> "Join Date", address.city -> "Address City"
+   */
+  static toLabel(key: string): string {
+    return key
+      .split('.')
+      .map(part => part.replace(/([a-z0-9])([A-Z])/g, '$1 $2').replace(/[_-]+/g, ' '))
+      .join(' ')
+      .replace(/\b\w/g, char => char.toUpperCase());
+  }
+
+  // Record every leaf value under its dotted key, in the order keys are first seen
+  private static collectSamples(value: object, prefix: string, samples: Map<string, FieldSamples>): void {
+    Object.entries(value).forEach(([name, item]) => {
+      const key = prefix ? `${prefix}.${name}` : name;
+      if (this.isPlainObject(item)) {
+        this.collectSamples(item, key, samples);
+        return;
+      }
+
+      const entry = samples.get(key) ?? { values: [] };
+      entry.values.push(item);
+      samples.set(key, entry);
+    });
+  }
+
+  private static inferField<T>(key: string, values: unknown[], options: FieldInferenceOptions<T>): FieldDefinition<T> {
+    const present = values.filter(value => value !== null && value !== undefined && value !== '');
+    const type = this.inferType(key, present, options);
+
+    const field: FieldDefinition<T> = {
+      key,
+      label: this.toLabel(key),
+      type,
+      operators: this.defaultOperators[type],
+      ...(key.includes('.') && { nestedKey: key })
+    };
+
+    if (type === 'singleSelect' || type === 'multiSelect') {
+      const distinct = new Set(type === 'multiSelect' ? present.flat() : present);
+      field.options = Array.from(distinct, String)
+        .sort((a, b) => a.localeCompare(b))
+        .map(value => ({ label: value, value }));
+    }
+
+    return field;
+  }
+
+  private static inferType<T>(key: string, values: unknown[], options: FieldInferenceOptions<T>): FieldType {
+    // Nothing to go on - text accepts anything
+    if (values.length === 0) return 'text';
+
+    if (values.every(value => typeof value === 'boolean')) return 'boolean';
+
+    if (values.every(value => typeof value === 'number')) {
+      return (options.amountKeyPattern ?? this.defaultAmountKeyPattern).test(key) ? 'amount' : 'number';
+    }
+
+    if (values.every(value => Array.isArray(value) && value.every(item => typeof item !== 'object' || item === null))) {
+      return 'multiSelect';
+    }
+
+    if (!values.every(value => typeof value === 'string')) return 'text';
+    const strings = values as string[];
+
+    if (strings.every(value => /^\d{4}-\d{2}-\d{2}(T[\d:.]+(Z|[+-]\d{2}:?\d{2})?)?$/.test(value) && RelativeDate.parseDate(value))) {
+      return 'date';
+    }
+
+    const distinct = new Set(strings).size;
+    const isSelect =
+      distinct <= (options.maxSelectOptions ?? 12) && distinct / strings.length <= (options.maxSelectRatio ?? 0.5);
+    return isSelect ? 'singleSelect' : 'text';
+  }
+
+  private static isPlainObject(value: unknown): value is object {
+    return value !== null && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date);
+  }
+}
+
+export default FieldInference;
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import type { FieldDefinition } from '../types';
+import { employeeSchema } from '../data/schemas';
+import { employeeData } from '../data/employees';
+import { getFieldDefinition } from '../data/fieldDefinitions';
+import { FieldOptions } from './fieldOptions';
+
+const [first, second] = employeeData;
+const records = [
+  { ...first, department: 'Engineering', skills: ['React', 'Go'], address: { ...first.address, city: 'Oslo' } },
+  { ...second, department: 'Research', skills: ['Go'], address: { ...second.address, city: 'Bergen' } },
+  { ...second, id: -1, department: '', skills: ['Go', 'Rust'], address: { ...second.address, city: 'Oslo' } }
+];
+
+const field = (key: string, derivedOptions?: FieldDefinition['derivedOptions']): FieldDefinition => ({
+  ...getFieldDefinition(employeeSchema, key)!,
+  derivedOptions
+});
+
+describe('FieldOptions.deriveOptions', () => {
+  it('lists distinct values with counts, most common first', () => {
+    expect(FieldOptions.deriveOptions(employeeSchema, field('skills', { sortBy: 'frequency' }), records)).toEqual([
+      { label: 'Go', value: 'Go', count: 3 },
+      { label: 'React', value: 'React', count: 1 },
+      { label: 'Rust', value: 'Rust', count: 1 }
+    ]);
+  });
+
+  it('sorts alphabetically when asked', () => {
+    const options = FieldOptions.deriveOptions(employeeSchema, field('address.city', { sortBy: 'alphabetical' }), records);
+    expect(options.map(option => [option.value, option.count])).toEqual([
+      ['Bergen', 1],
+      ['Oslo', 2]
+    ]);
+  });
+
+  it('keeps the static options in front, and skips empty values', () => {
+    const options = FieldOptions.deriveOptions(employeeSchema, field('department', { keepStatic: true }), records);
+    const staticCount = getFieldDefinition(employeeSchema, 'department')!.options!.length;
+    expect(options).toHaveLength(staticCount + 1);
+    expect(options[0]).toEqual({ label: 'Engineering', value: 'Engineering', count: 1 });
+    expect(options[1].count).toBe(0);
+    expect(options[staticCount]).toEqual({ label: 'Research', value: 'Research', count: 1 });
+  });
+});
+
+describe('FieldOptions.resolveSchema', () => {
+  it('fills in derived options and passes other fields through', () => {
+    const resolved = FieldOptions.resolveSchema(employeeSchema, records);
+    expect(getFieldDefinition(resolved, 'skills')?.options?.[0]).toEqual({ label: 'Go', value: 'Go', count: 3 });
+    expect(getFieldDefinition(resolved, 'name')).toBe(getFieldDefinition(employeeSchema, 'name'));
+  });
+});
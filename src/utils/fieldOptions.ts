@@ -0,0 +1,64 @@
+import type { DataSchema, FieldDefinition, FieldOption } from '../types';
+import { getFieldValue } from '../data/fieldDefinitions';
+
+/**
+ * Option lists worked out from the loaded records
+ *
+ * A select field with derivedOptions gets one option per distinct value in the records,
+ * with the number of records that have it. Multi-select values count once per item.
+ * Static options stay as they are unless the field asks for derivedOptions - and with
+ * keepStatic they stay in front, so a curated order survives new values showing up.
+ *
+ *   { key: 'skills', type: 'multiSelect', derivedOptions: { sortBy: 'alphabetical' }, ... }
+ */
+export class FieldOptions {
+  /**
+   * The schema with derived options filled in from these records. Fields without
+   * derivedOptions are passed through untouched.
+   */
+  static resolveSchema<T>(schema: DataSchema<T>, records: T[]): DataSchema<T> {
+    if (!schema.fields.some(field => field.derivedOptions)) return schema;
+
+    return {
+      ...schema,
+      fields: schema.fields.map(field =>
+        field.derivedOptions ? { ...field, options: this.deriveOptions(schema, field, records) } : field
+      )
+    };
+  }
+
+  /**
+   * Distinct values of a field across the records, with counts, sorted as the field asks
+   */
+  static deriveOptions<T>(schema: DataSchema<T>, field: FieldDefinition<T>, records: T[]): FieldOption[] {
+    const counts = new Map<string, { value: unknown; count: number }>();
+    records.forEach(record => {
+      const value = getFieldValue(schema, record, field.key);
+      const items = Array.isArray(value) ? value : [value];
+      items.forEach(item => {
+        if (item === null || item === undefined || item === '') return;
+        const entry = counts.get(String(item)) ?? { value: item, count: 0 };
+        entry.count++;
+        counts.set(String(item), entry);
+      });
+    });
+
+    const { sortBy = 'frequency', keepStatic = false } = field.derivedOptions ?? {};
+    const curated = keepStatic ? (field.options ?? []) : [];
+    const curatedValues = new Set(curated.map(option => String(option.value)));
+
+    const derived = Array.from(counts.values())
+      .filter(({ value }) => !curatedValues.has(String(value)))
+      .map(({ value, count }): FieldOption => ({ label: String(value), value, count }))
+      .sort((a, b) =>
+        (sortBy === 'frequency' ? (b.count ?? 0) - (a.count ?? 0) : 0) || a.label.localeCompare(b.label)
+      );
+
+    return [
+      ...curated.map(option => ({ ...option, count: counts.get(String(option.value))?.count ?? 0 })),
+      ...derived
+    ];
+  }
+}
+
+export default FieldOptions;
@@ -0,0 +1,187 @@
+import { describe, expect, it } from 'vitest';
+import type { FilterCondition, FilterState } from '../types';
+import { employeeSchema } from '../data/schemas';
+import { Clock } from './clock';
+import { FilterCompileError, FilterCompiler } from './filterCompiler';
+import { condition, engineering, group, state } from './testFixtures';
+
+const highEarners = condition({ field: 'salary', fieldType: 'number', operator: 'greaterThan', value: 100000 });
+const inBoston = condition({ field: 'address.city', nestedKey: 'address.city', fieldType: 'text', operator: 'contains', value: 'boston' });
+
+const nameVsEmail = (operator: FilterCondition['operator'], textOptions?: FilterCondition['textOptions']) =>
+  state([
+    condition({ field: 'name', fieldType: 'text', operator, value: '', valueSource: 'field', valueField: 'email', textOptions })
+  ]);
+
+describe('FilterCompiler.toSql', () => {
+  it('returns a WHERE that matches everything without conditions', () => {
+    expect(FilterCompiler.toSql(employeeSchema, state([]))).toEqual({ where: '1=1', params: [] });
+  });
+
+  it('combines conditions and groups with parameters in order', () => {
+    const query = FilterCompiler.toSql(employeeSchema, state([engineering, group('OR', [highEarners, inBoston])]));
+    expect(query.where).toBe(
+      `("department" = $1 AND ("salary" > $2 OR LOWER("address_city") LIKE $3 ESCAPE '\\'))`
+    );
+    expect(query.params).toEqual(['Engineering', 100000, '%boston%']);
+  });
+
+  it('treats blank text and empty arrays as empty', () => {
+    const empty = (field: string, fieldType: FilterCondition['fieldType'], operator: 'isEmpty' | 'isNotEmpty' = 'isEmpty') =>
+      FilterCompiler.toSql(employeeSchema, state([condition({ field, fieldType, operator })])).where;
+    expect(empty('name', 'text')).toBe(`("name" IS NULL OR TRIM("name") = '')`);
+    expect(empty('skills', 'multiSelect', 'isNotEmpty')).toBe('NOT ("skills" IS NULL OR cardinality("skills") = 0)');
+    expect(empty('salary', 'number')).toBe('"salary" IS NULL');
+  });
+
+  it('uses question marks when asked', () => {
+    expect(FilterCompiler.toSql(employeeSchema, state([engineering]), { placeholder: 'question' }).where).toBe('"department" = ?');
+  });
+
+  it('joins chain mode as AND runs separated by OR', () => {
+    const chain: FilterState = {
+      conditions: [engineering, { ...highEarners, logicalOperator: 'AND' }, { ...inBoston, logicalOperator: 'OR' }],
+      logicalOperator: 'AND',
+      evaluationMode: 'chain'
+    };
+    expect(FilterCompiler.toSql(employeeSchema, chain).where).toBe(
+      `(("department" = $1 AND "salary" > $2) OR LOWER("address_city") LIKE $3 ESCAPE '\\')`
+    );
+  });
+
+  it('escapes LIKE wildcards and applies text options to the column', () => {
+    const query = FilterCompiler.toSql(
+      employeeSchema,
+      state([condition({ field: 'name', fieldType: 'text', operator: 'startsWith', value: 'José_', textOptions: { ignoreDiacritics: true } })])
+    );
+    expect(query).toEqual({ where: `LOWER(unaccent("name")) LIKE $1 ESCAPE '\\'`, params: ['jose\\_%'] });
+  });
+
+  it('skips invalid conditions like the app does', () => {
+    const incomplete = condition({ field: 'name', fieldType: 'text', operator: 'contains', value: '' });
+    expect(FilterCompiler.toSql(employeeSchema, state([incomplete, engineering])).where).toBe('"department" = $1');
+  });
+
+  it('resolves relative dates against the clock', () => {
+    Clock.set(() => new Date('2024-06-30T12:00:00Z'));
+    try {
+      const recent = condition({ field: 'joinDate', fieldType: 'date', operator: 'inLast', value: { amount: 30, unit: 'days' } });
+      expect(FilterCompiler.toSql(employeeSchema, state([recent])).params).toEqual(['2024-05-31', '2024-07-01']);
+    } finally {
+      Clock.reset();
+    }
+  });
+
+  it('needs a column mapping for computed fields', () => {
+    const tenure = state([condition({ field: 'tenureYears', fieldType: 'number', operator: 'greaterThan', value: 5 })]);
+    expect(() => FilterCompiler.toSql(employeeSchema, tenure)).toThrow(FilterCompileError);
+    expect(FilterCompiler.toSql(employeeSchema, tenure, { columnMapping: { tenureYears: 'tenure' } }).where).toBe('tenure > $1');
+  });
+
+  describe('field comparisons', () => {
+    it('compares text case-insensitively by default', () => {
+      expect(FilterCompiler.toSql(employeeSchema, nameVsEmail('endsWith')).where).toBe(
+        'RIGHT(LOWER("name"), LENGTH(LOWER("email"))) = LOWER("email")'
+      );
+    });
+
+    it('applies the text options to both fields', () => {
+      expect(FilterCompiler.toSql(employeeSchema, nameVsEmail('equals', { caseSensitive: true })).where).toBe('"name" = "email"');
+      expect(
+        FilterCompiler.toSql(employeeSchema, nameVsEmail('contains', { ignoreDiacritics: true, collapseWhitespace: true })).where
+      ).toBe(
+        `POSITION(LOWER(unaccent(regexp_replace(TRIM("email"), '\\s+', ' ', 'g'))) IN LOWER(unaccent(regexp_replace(TRIM("name"), '\\s+', ' ', 'g')))) > 0`
+      );
+    });
+
+    it('compares single selects case-sensitively, like the engine', () => {
+      const sameDepartment = state([
+        condition({ field: 'department', fieldType: 'singleSelect', operator: 'is', value: '', valueSource: 'field', valueField: 'role' })
+      ]);
+      expect(FilterCompiler.toSql(employeeSchema, sameDepartment).where).toBe('"department" = "role"');
+      expect(FilterCompiler.toMongo(employeeSchema, sameDepartment)).toEqual({ $expr: { $eq: ['$department', '$role'] } });
+    });
+
+    it('lets a missing field match only the negated operators', () => {
+      expect(FilterCompiler.toSql(employeeSchema, nameVsEmail('notContains')).where).toBe(
+        '("name" IS NULL OR "email" IS NULL OR POSITION(LOWER("email") IN LOWER("name")) = 0)'
+      );
+      expect(FilterCompiler.toSql(employeeSchema, nameVsEmail('contains')).where).toBe('POSITION(LOWER("email") IN LOWER("name")) > 0');
+    });
+
+    it('compares dates as they are', () => {
+      const reviewedBeforeJoining = state([
+        condition({ field: 'lastReview', fieldType: 'date', operator: 'before', value: '', valueSource: 'field', valueField: 'joinDate' })
+      ]);
+      expect(FilterCompiler.toSql(employeeSchema, reviewedBeforeJoining)).toEqual({ where: '"lastReview" < "joinDate"', params: [] });
+    });
+  });
+});
+
+describe('FilterCompiler.toMongo', () => {
+  it('returns an empty filter without conditions', () => {
+    expect(FilterCompiler.toMongo(employeeSchema, state([]))).toEqual({});
+  });
+
+  it('builds $and/$or documents with dotted paths', () => {
+    expect(FilterCompiler.toMongo(employeeSchema, state([engineering, group('OR', [highEarners, inBoston])]))).toEqual({
+      $and: [
+        { department: { $eq: 'Engineering' } },
+        { $or: [{ salary: { $gt: 100000 } }, { 'address.city': { $regex: 'boston', $options: 'i' } }] }
+      ]
+    });
+  });
+
+  it('escapes regex characters in values', () => {
+    const dotted = condition({ field: 'email', fieldType: 'text', operator: 'endsWith', value: '.com', textOptions: { caseSensitive: true } });
+    expect(FilterCompiler.toMongo(employeeSchema, state([dotted]))).toEqual({ email: { $regex: '\\.com$' } });
+  });
+
+  it('keeps whitespace-insensitive equality anchored around the words', () => {
+    const spaced = condition({ field: 'name', fieldType: 'text', operator: 'equals', value: ' John  Smith ', textOptions: { collapseWhitespace: true } });
+    expect(FilterCompiler.toMongo(employeeSchema, state([spaced]))).toEqual({
+      name: { $regex: '^\\s*John\\s+Smith\\s*$', $options: 'i' }
+    });
+  });
+
+  it('refuses accent-insensitive matching', () => {
+    const accents = condition({ field: 'name', fieldType: 'text', operator: 'contains', value: 'jose', textOptions: { ignoreDiacritics: true } });
+    expect(() => FilterCompiler.toMongo(employeeSchema, state([accents]))).toThrow(FilterCompileError);
+  });
+
+  describe('field comparisons', () => {
+    it('compiles every field comparison operator of text fields', () => {
+      for (const operator of ['equals', 'contains', 'startsWith', 'endsWith', 'notContains'] as const) {
+        expect(() => FilterCompiler.toMongo(employeeSchema, nameVsEmail(operator)), operator).not.toThrow();
+      }
+    });
+
+    it('lowercases both sides unless the comparison is case-sensitive', () => {
+      expect(FilterCompiler.toMongo(employeeSchema, nameVsEmail('equals'))).toEqual({
+        $expr: { $eq: [{ $toLower: '$name' }, { $toLower: '$email' }] }
+      });
+      expect(FilterCompiler.toMongo(employeeSchema, nameVsEmail('equals', { caseSensitive: true }))).toEqual({
+        $expr: { $eq: ['$name', '$email'] }
+      });
+    });
+
+    it('only runs string operators on strings, so missing fields cannot fail the query', () => {
+      const bothStrings = { $and: [{ $eq: [{ $type: '$name' }, 'string'] }, { $eq: [{ $type: '$email' }, 'string'] }] };
+      expect(FilterCompiler.toMongo(employeeSchema, nameVsEmail('contains', { caseSensitive: true }))).toEqual({
+        $expr: { $cond: [bothStrings, { $gte: [{ $indexOfCP: ['$name', '$email'] }, 0] }, false] }
+      });
+      expect(FilterCompiler.toMongo(employeeSchema, nameVsEmail('notContains', { caseSensitive: true }))).toEqual({
+        $expr: { $cond: [bothStrings, { $lt: [{ $indexOfCP: ['$name', '$email'] }, 0] }, true] }
+      });
+    });
+
+    it('refuses text options it cannot apply to both sides', () => {
+      expect(() => FilterCompiler.toMongo(employeeSchema, nameVsEmail('equals', { ignoreDiacritics: true }))).toThrow(
+        'Accent-insensitive matching cannot be compiled to MongoDB'
+      );
+      expect(() => FilterCompiler.toMongo(employeeSchema, nameVsEmail('equals', { collapseWhitespace: true }))).toThrow(
+        'Whitespace-insensitive field comparisons cannot be compiled to MongoDB'
+      );
+    });
+  });
+});
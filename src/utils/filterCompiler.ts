@@ -0,0 +1,506 @@
+import type { DataSchema, FilterCondition, FilterNode, FilterState, TextMatchOptions } from '../types';
+import { getFieldDefinition } from '../data/fieldDefinitions';
+import { FilterTree } from './filterTree';
+import { FilterValidator } from './filterValidator';
+import { RelativeDate } from './relativeDate';
+import { Clock } from './clock';
+import { TextMatch } from './textMatch';
+
+/**
+ * Compiles a filter state into database queries, so the filters built in the UI
+ * can be pushed down to a real backend:
+ *
+ * - toSql: a parameterized WHERE fragment (PostgreSQL flavour) plus its parameter list
+ * - toMongo: a MongoDB filter document
+ *
+ * Both follow the same semantics as FilterEngine: text matching is case-insensitive (unless a
+ * condition's textOptions say otherwise - accent-insensitive SQL needs the unaccent extension),
+ * missing values never match positive operators but do match negated ones (notContains, isNot, notIn),
+ * and relative dates are resolved against Clock.now() at compile time.
+ *
+ * Invalid conditions are skipped just like in the app, so what you compile is what you see.
+ */
+
+// Maps a field key (e.g. "address.city") to a column name / document path.
+// Return undefined to fall back to the default mapping.
+export type ColumnMapping = Record<string, string> | ((fieldKey: string) => string | undefined);
+
+export interface CompileOptions {
+  columnMapping?: ColumnMapping;
+}
+
+export interface SqlCompileOptions extends CompileOptions {
+  placeholder?: 'numbered' | 'question'; // $1, $2... (default) or ?
+}
+
+export interface SqlQuery {
+  where: string;
+  params: unknown[];
+}
+
+export type MongoFilter = Record<string, unknown>;
+
+export class FilterCompileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FilterCompileError';
+  }
+}
+
+export class FilterCompiler {
+  /**
+   * Compile to a SQL WHERE fragment
+   *
+   * Values are never inlined - they're returned in params in placeholder order.
+   * By default "address.city" maps to the column "address_city"; multi-select fields
+   * are expected to be array columns (text[]).
+   */
+  static toSql(schema: DataSchema, filterState: FilterState, options: SqlCompileOptions = {}): SqlQuery {
+    const params: unknown[] = [];
+    const addParam = (value: unknown): string => {
+      params.push(value);
+      return options.placeholder === 'question' ? '?' : `$${params.length}`;
+    };
+
+    const column = (fieldKey: string): string => this.resolveColumn(schema, fieldKey, options.columnMapping, 'sql');
+    const nodes = FilterValidator.getValidNodes(schema, filterState.conditions);
+
+    const compileCondition = (condition: FilterCondition) =>
+      this.conditionToSql(condition, column, addParam);
+
+    const where = this.combineNodes(
+      nodes,
+      filterState.logicalOperator,
+      filterState.evaluationMode,
+      compileCondition,
+      (parts, op) => (parts.length === 1 ? parts[0] : `(${parts.join(` ${op} `)})`)
+    );
+
+    return { where: where ?? '1=1', params };
+  }
+
+  /**
+   * Compile to a MongoDB filter document
+   *
+   * Nested keys like "address.city" are used as dotted paths by default, which is
+   * exactly how MongoDB addresses embedded documents.
+   */
+  static toMongo(schema: DataSchema, filterState: FilterState, options: CompileOptions = {}): MongoFilter {
+    const path = (fieldKey: string): string => this.resolveColumn(schema, fieldKey, options.columnMapping, 'mongo');
+    const nodes = FilterValidator.getValidNodes(schema, filterState.conditions);
+
+    const filter = this.combineNodes<MongoFilter>(
+      nodes,
+      filterState.logicalOperator,
+      filterState.evaluationMode,
+      condition => this.conditionToMongo(condition, path),
+      (parts, op) => (parts.length === 1 ? parts[0] : { [op === 'AND' ? '$and' : '$or']: parts })
+    );
+
+    return filter ?? {};
+  }
+
+  /**
+   * Walk the filter tree and combine compiled conditions with the right AND/OR structure.
+   * Chain mode is split into AND-runs joined by OR, same as FilterEngine.evaluateChain.
+   */
+  private static combineNodes<T>(
+    nodes: FilterNode[],
+    logicalOperator: 'AND' | 'OR',
+    evaluationMode: FilterState['evaluationMode'],
+    compileCondition: (condition: FilterCondition) => T,
+    combine: (parts: T[], op: 'AND' | 'OR') => T
+  ): T | null {
+    const compileNode = (node: FilterNode): T | null =>
+      FilterTree.isGroup(node)
+        ? this.combineNodes(node.conditions, node.logicalOperator, node.evaluationMode, compileCondition, combine)
+        : compileCondition(node);
+
+    if (evaluationMode === 'chain') {
+      const runs: FilterNode[][] = [];
+      nodes.forEach((node, index) => {
+        if (index === 0 || FilterTree.getConnector(node) === 'OR') runs.push([node]);
+        else runs[runs.length - 1].push(node);
+      });
+
+      const compiledRuns = runs
+        .map(run => run.map(compileNode).filter((part): part is T => part !== null))
+        .filter(parts => parts.length > 0)
+        .map(parts => combine(parts, 'AND'));
+      return compiledRuns.length > 0 ? combine(compiledRuns, 'OR') : null;
+    }
+
+    const parts = nodes.map(compileNode).filter((part): part is T => part !== null);
+    return parts.length > 0 ? combine(parts, logicalOperator) : null;
+  }
+
+  private static resolveColumn(
+    schema: DataSchema,
+    fieldKey: string,
+    mapping: ColumnMapping | undefined,
+    target: 'sql' | 'mongo'
+  ): string {
+    const mapped = typeof mapping === 'function' ? mapping(fieldKey) : mapping?.[fieldKey];
+    if (mapped) return mapped;
+
+    // Computed fields (tenure, ...) only exist in the app - the database needs to be told what they are
+    if (getFieldDefinition(schema, fieldKey)?.compute) {
+      throw new FilterCompileError(`Computed field "${fieldKey}" needs a column mapping to be compiled`);
+    }
+
+    return target === 'sql' ? `"${fieldKey.replace(/\./g, '_')}"` : fieldKey;
+  }
+
+  // ---------------------------------------------------------------------------
+  // SQL
+  // ---------------------------------------------------------------------------
+
+  private static conditionToSql(
+    condition: FilterCondition,
+    column: (fieldKey: string) => string,
+    addParam: (value: unknown) => string
+  ): string {
+    const col = column(condition.nestedKey || condition.field);
+    const { operator, fieldType, value } = condition;
+    const textOptions = condition.textOptions ?? {};
+
+    if (operator === 'isEmpty' || operator === 'isNotEmpty') {
+      const empty =
+        fieldType === 'text' || fieldType === 'singleSelect'
+          ? `(${col} IS NULL OR TRIM(${col}) = '')`
+          : fieldType === 'multiSelect'
+            ? `(${col} IS NULL OR cardinality(${col}) = 0)`
+            : `${col} IS NULL`;
+      return operator === 'isEmpty' ? empty : `NOT ${empty}`;
+    }
+
+    if (condition.valueSource === 'field' && condition.valueField) {
+      return this.fieldComparisonToSql(condition, col, column(condition.valueField));
+    }
+
+    switch (operator) {
+      case 'equals':
+        if (fieldType === 'text') {
+          return `${this.sqlText(col, textOptions)} = ${this.sqlText(addParam(String(value)), textOptions)}`;
+        }
+        return `${col} = ${addParam(fieldType === 'date' ? value : Number(value))}`;
+      case 'contains':
+        return `${this.sqlText(col, textOptions)} LIKE ${addParam(`%${this.escapeLike(value, textOptions)}%`)} ESCAPE '\\'`;
+      case 'startsWith':
+        return `${this.sqlText(col, textOptions)} LIKE ${addParam(`${this.escapeLike(value, textOptions)}%`)} ESCAPE '\\'`;
+      case 'endsWith':
+        return `${this.sqlText(col, textOptions)} LIKE ${addParam(`%${this.escapeLike(value, textOptions)}`)} ESCAPE '\\'`;
+      case 'notContains':
+        return `(${col} IS NULL OR ${this.sqlText(col, textOptions)} NOT LIKE ${addParam(`%${this.escapeLike(value, textOptions)}%`)} ESCAPE '\\')`;
+      case 'regex': {
+        // Like the engine: the pattern decides about case (~ or ~*) and whitespace
+        const subject = this.sqlText(col, { ...textOptions, caseSensitive: true, collapseWhitespace: false });
+        const pattern = textOptions.ignoreDiacritics ? TextMatch.stripDiacritics(String(value)) : String(value);
+        return `${subject} ${textOptions.caseSensitive ? '~' : '~*'} ${addParam(`${this.sqlRegexOptions(textOptions)}${pattern}`)}`;
+      }
+      case 'greaterThan':
+        return `${col} > ${addParam(Number(value))}`;
+      case 'lessThan':
+        return `${col} < ${addParam(Number(value))}`;
+      case 'greaterThanOrEqual':
+        return `${col} >= ${addParam(Number(value))}`;
+      case 'lessThanOrEqual':
+        return `${col} <= ${addParam(Number(value))}`;
+      case 'between':
+        return fieldType === 'date'
+          ? `${col} BETWEEN ${addParam(value.from)} AND ${addParam(value.to)}`
+          : `${col} BETWEEN ${addParam(Number(value.min))} AND ${addParam(Number(value.max))}`;
+      case 'before':
+        return `${col} < ${addParam(value)}`;
+      case 'after':
+        return `${col} > ${addParam(value)}`;
+      case 'inLast':
+      case 'inNext':
+      case 'olderThan':
+      case 'thisQuarter':
+      case 'lastCalendarYear': {
+        const range = RelativeDate.getRange(operator, value, Clock.now());
+        const parts: string[] = [];
+        if (range.from) parts.push(`${col} >= ${addParam(RelativeDate.formatDate(range.from))}`);
+        if (range.to) parts.push(`${col} < ${addParam(RelativeDate.formatDate(range.to))}`);
+        return parts.length === 1 ? parts[0] : `(${parts.join(' AND ')})`;
+      }
+      case 'is':
+        return fieldType === 'boolean'
+          ? `${col} = ${addParam(String(value).toLowerCase() === 'true')}`
+          : `${col} = ${addParam(value)}`;
+      case 'isNot':
+        return `(${col} IS NULL OR ${col} <> ${addParam(value)})`;
+      case 'in':
+        return `${col} && ${addParam(this.toArray(value))}`;
+      case 'notIn':
+        return `(${col} IS NULL OR NOT (${col} && ${addParam(this.toArray(value))}))`;
+      case 'containsAll':
+        return `${col} @> ${addParam(this.toArray(value))}`;
+      default:
+        throw new FilterCompileError(`Operator "${operator}" cannot be compiled to SQL`);
+    }
+  }
+
+  // Both sides get the condition's text options, like the value does in conditionToSql
+  private static fieldComparisonToSql(condition: FilterCondition, col: string, other: string): string {
+    const textOptions = this.comparisonTextOptions(condition);
+    const a = textOptions ? this.sqlText(col, textOptions) : col;
+    const b = textOptions ? this.sqlText(other, textOptions) : other;
+
+    switch (condition.operator) {
+      case 'equals':
+      case 'is':
+        return `${a} = ${b}`;
+      case 'isNot':
+        return `(${col} IS NULL OR ${other} IS NULL OR ${a} <> ${b})`;
+      case 'greaterThan':
+      case 'after':
+        return `${a} > ${b}`;
+      case 'lessThan':
+      case 'before':
+        return `${a} < ${b}`;
+      case 'greaterThanOrEqual':
+        return `${a} >= ${b}`;
+      case 'lessThanOrEqual':
+        return `${a} <= ${b}`;
+      case 'contains':
+        return `POSITION(${b} IN ${a}) > 0`;
+      case 'notContains':
+        return `(${col} IS NULL OR ${other} IS NULL OR POSITION(${b} IN ${a}) = 0)`;
+      case 'startsWith':
+        return `LEFT(${a}, LENGTH(${b})) = ${b}`;
+      case 'endsWith':
+        return `RIGHT(${a}, LENGTH(${b})) = ${b}`;
+      case 'in':
+        return `${col} && ${other}`;
+      case 'notIn':
+        return `(${col} IS NULL OR ${other} IS NULL OR NOT (${col} && ${other}))`;
+      case 'containsAll':
+        return `${col} @> ${other}`;
+      default:
+        throw new FilterCompileError(`Operator "${condition.operator}" cannot compare two fields in SQL`);
+    }
+  }
+
+  /**
+   * PostgreSQL embedded options for the regex flags. Without any, "." already matches newlines and
+   * ^/$ only the ends of the text, which is the "s" flag. "m" alone is newline-sensitive (?n),
+   * "m" and "s" together is (?w). "u" needs nothing, PostgreSQL regexes are Unicode-aware.
+   */
+  private static sqlRegexOptions(options: TextMatchOptions): string {
+    const flags = options.regexFlags ?? '';
+    if (!flags.includes('m')) return '';
+    return flags.includes('s') ? '(?w)' : '(?n)';
+  }
+
+  // A text expression with the condition's text options applied, e.g. LOWER(name) by default
+  private static sqlText(expression: string, options: TextMatchOptions): string {
+    let result = expression;
+    if (options.collapseWhitespace) result = `regexp_replace(TRIM(${result}), '\\s+', ' ', 'g')`;
+    if (options.ignoreDiacritics) result = `unaccent(${result})`;
+    if (!options.caseSensitive) result = `LOWER(${result})`;
+    return result;
+  }
+
+  // Normalize like the column (lowercase to match LOWER(), etc.), and escape LIKE wildcards in user input
+  private static escapeLike(value: unknown, options: TextMatchOptions): string {
+    return TextMatch.normalize(String(value), options).replace(/[\\%_]/g, char => `\\${char}`);
+  }
+
+  // ---------------------------------------------------------------------------
+  // MongoDB
+  // ---------------------------------------------------------------------------
+
+  private static conditionToMongo(condition: FilterCondition, path: (fieldKey: string) => string): MongoFilter {
+    const field = path(condition.nestedKey || condition.field);
+    const { operator, fieldType, value } = condition;
+
+    if (operator === 'isEmpty' || operator === 'isNotEmpty') {
+      // { field: null } also matches documents where the field is missing
+      const empty: MongoFilter =
+        fieldType === 'text' || fieldType === 'singleSelect'
+          ? { $or: [{ [field]: null }, { [field]: { $regex: '^\\s*$' } }] }
+          : fieldType === 'multiSelect'
+            ? { $or: [{ [field]: null }, { [field]: { $size: 0 } }] }
+            : { [field]: null };
+      return operator === 'isEmpty' ? empty : { $nor: [empty] };
+    }
+
+    if (condition.valueSource === 'field' && condition.valueField) {
+      return { $expr: this.fieldComparisonToMongo(condition, `$${field}`, `$${path(condition.valueField)}`) };
+    }
+
+    // Text options become regex flags and patterns - there's no regex-friendly way to ignore accents
+    const textOptions = condition.textOptions ?? {};
+    if (fieldType === 'text' && textOptions.ignoreDiacritics) {
+      throw new FilterCompileError('Accent-insensitive matching cannot be compiled to MongoDB');
+    }
+    const flags: { $options?: string } = textOptions.caseSensitive ? {} : { $options: 'i' };
+    const collapse = fieldType === 'text' && !!textOptions.collapseWhitespace;
+    const escaped = collapse
+      ? String(value).trim().split(/\s+/).map(word => this.escapeRegex(word)).join('\\s+')
+      : this.escapeRegex(String(value));
+    const [start, end] = collapse ? ['^\\s*', '\\s*$'] : ['^', '$'];
+
+    switch (operator) {
+      case 'equals':
+        if (fieldType === 'text') return { [field]: { $regex: `${start}${escaped}${end}`, ...flags } };
+        return { [field]: { $eq: fieldType === 'date' ? value : Number(value) } };
+      case 'contains':
+        return { [field]: { $regex: escaped, ...flags } };
+      case 'startsWith':
+        return { [field]: { $regex: `${start}${escaped}`, ...flags } };
+      case 'endsWith':
+        return { [field]: { $regex: `${escaped}${end}`, ...flags } };
+      case 'notContains':
+        // $not also matches documents where the field is missing
+        return { [field]: { $not: { $regex: escaped, ...flags } } };
+      case 'regex': {
+        // MongoDB knows "m" and "s" too. Its regexes are always Unicode-aware, so "u" is left out.
+        const options = `${flags.$options ?? ''}${(textOptions.regexFlags ?? '').replace('u', '')}`;
+        return { [field]: { $regex: String(value), ...(options && { $options: options }) } };
+      }
+      case 'greaterThan':
+        return { [field]: { $gt: Number(value) } };
+      case 'lessThan':
+        return { [field]: { $lt: Number(value) } };
+      case 'greaterThanOrEqual':
+        return { [field]: { $gte: Number(value) } };
+      case 'lessThanOrEqual':
+        return { [field]: { $lte: Number(value) } };
+      case 'between':
+        return fieldType === 'date'
+          ? { [field]: { $gte: value.from, $lte: value.to } }
+          : { [field]: { $gte: Number(value.min), $lte: Number(value.max) } };
+      case 'before':
+        return { [field]: { $lt: value } };
+      case 'after':
+        return { [field]: { $gt: value } };
+      case 'inLast':
+      case 'inNext':
+      case 'olderThan':
+      case 'thisQuarter':
+      case 'lastCalendarYear': {
+        // Dates are stored as ISO strings (YYYY-MM-DD), which compare correctly as strings
+        const range = RelativeDate.getRange(operator, value, Clock.now());
+        return {
+          [field]: {
+            ...(range.from && { $gte: RelativeDate.formatDate(range.from) }),
+            ...(range.to && { $lt: RelativeDate.formatDate(range.to) })
+          }
+        };
+      }
+      case 'is':
+        return fieldType === 'boolean'
+          ? { [field]: { $eq: String(value).toLowerCase() === 'true' } }
+          : { [field]: { $eq: value } };
+      case 'isNot':
+        return { [field]: { $ne: value } };
+      case 'in':
+        return { [field]: { $in: this.toArray(value) } };
+      case 'notIn':
+        return { [field]: { $nin: this.toArray(value) } };
+      case 'containsAll':
+        return { [field]: { $all: this.toArray(value) } };
+      default:
+        throw new FilterCompileError(`Operator "${operator}" cannot be compiled to MongoDB`);
+    }
+  }
+
+  // $expr has no regexes to build on, so only the case option can be applied to both sides
+  private static fieldComparisonToMongo(condition: FilterCondition, a: string, b: string): MongoFilter {
+    const textOptions = this.comparisonTextOptions(condition);
+    if (textOptions?.ignoreDiacritics) {
+      throw new FilterCompileError('Accent-insensitive matching cannot be compiled to MongoDB');
+    }
+    if (textOptions?.collapseWhitespace) {
+      throw new FilterCompileError('Whitespace-insensitive field comparisons cannot be compiled to MongoDB');
+    }
+    const lower = textOptions && !textOptions.caseSensitive;
+    const left = lower ? { $toLower: a } : a;
+    const right = lower ? { $toLower: b } : b;
+
+    // The string and set operators fail the whole query on anything else (e.g. a missing field), so they only
+    // run when both fields hold the right type - otherwise only the negated operators match, like in the engine
+    const whenBoth = (type: 'string' | 'array', test: MongoFilter): MongoFilter => ({
+      $cond: [
+        { $and: [a, b].map(side => (type === 'string' ? { $eq: [{ $type: side }, 'string'] } : { $isArray: [side] })) },
+        test,
+        condition.operator === 'notContains' || condition.operator === 'notIn'
+      ]
+    });
+
+    switch (condition.operator) {
+      case 'equals':
+      case 'is':
+        return { $eq: [left, right] };
+      case 'isNot':
+        return { $ne: [left, right] };
+      case 'greaterThan':
+      case 'after':
+        return { $gt: [left, right] };
+      case 'lessThan':
+      case 'before':
+        return { $lt: [left, right] };
+      case 'greaterThanOrEqual':
+        return { $gte: [left, right] };
+      case 'lessThanOrEqual':
+        return { $lte: [left, right] };
+      case 'contains':
+        return whenBoth('string', { $gte: [{ $indexOfCP: [left, right] }, 0] });
+      case 'notContains':
+        return whenBoth('string', { $lt: [{ $indexOfCP: [left, right] }, 0] });
+      case 'startsWith':
+        return whenBoth('string', { $eq: [{ $indexOfCP: [left, right] }, 0] });
+      case 'endsWith':
+        // $cond so the substring is only taken from values at least as long as the ending
+        return whenBoth('string', {
+          $let: {
+            vars: { value: left, ending: right },
+            in: {
+              $cond: [
+                { $gte: [{ $strLenCP: '$$value' }, { $strLenCP: '$$ending' }] },
+                {
+                  $eq: [
+                    {
+                      $substrCP: [
+                        '$$value',
+                        { $subtract: [{ $strLenCP: '$$value' }, { $strLenCP: '$$ending' }] },
+                        { $strLenCP: '$$ending' }
+                      ]
+                    },
+                    '$$ending'
+                  ]
+                },
+                false
+              ]
+            }
+          }
+        });
+      case 'in':
+        return whenBoth('array', { $gt: [{ $size: { $setIntersection: [a, b] } }, 0] });
+      case 'notIn':
+        return whenBoth('array', { $eq: [{ $size: { $setIntersection: [a, b] } }, 0] });
+      case 'containsAll':
+        return whenBoth('array', { $setIsSubset: [b, a] });
+      default:
+        throw new FilterCompileError(`Operator "${condition.operator}" cannot compare two fields in MongoDB`);
+    }
+  }
+
+  // Text options of a field comparison - only text fields have them, other types (single selects too) compare as they are
+  private static comparisonTextOptions(condition: FilterCondition): TextMatchOptions | null {
+    return condition.fieldType === 'text' ? condition.textOptions ?? {} : null;
+  }
+
+  private static escapeRegex(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+
+  private static toArray(value: unknown): unknown[] {
+    return Array.isArray(value) ? value : [value];
+  }
+}
+
+export default FilterCompiler;
@@ -0,0 +1,205 @@
+import { describe, expect, it } from 'vitest';
+import type { FilterCondition } from '../types';
+import { employeeSchema } from '../data/schemas';
+import { employeeData } from '../data/employees';
+import { Clock } from './clock';
+import { FilterEngine } from './filterEngine';
+import { condition, engineering, group, sales, state } from './testFixtures';
+
+const highSalary = condition({ field: 'salary', fieldType: 'amount', operator: 'greaterThan', value: 100000 });
+
+describe('FilterEngine.applyFilters', () => {
+  it('returns every record without conditions', () => {
+    expect(FilterEngine.applyFilters(employeeSchema, employeeData, [])).toBe(employeeData);
+  });
+
+  it('combines conditions with AND and OR', () => {
+    expect(FilterEngine.applyFilters(employeeSchema, employeeData, [engineering, highSalary], 'AND')).toEqual(
+      employeeData.filter(e => e.department === 'Engineering' && e.salary > 100000)
+    );
+    expect(FilterEngine.applyFilters(employeeSchema, employeeData, [engineering, highSalary], 'OR')).toEqual(
+      employeeData.filter(e => e.department === 'Engineering' || e.salary > 100000)
+    );
+  });
+
+  it('evaluates nested groups', () => {
+    const nodes = [group('AND', [engineering, highSalary]), sales];
+    expect(FilterEngine.applyFilters(employeeSchema, employeeData, nodes, 'OR')).toEqual(
+      employeeData.filter(e => (e.department === 'Engineering' && e.salary > 100000) || e.department === 'Sales')
+    );
+  });
+
+  it('lets AND bind tighter than OR in chain mode', () => {
+    const nodes = [engineering, { ...highSalary, logicalOperator: 'AND' as const }, { ...sales, logicalOperator: 'OR' as const }];
+    expect(FilterEngine.applyFilters(employeeSchema, employeeData, nodes, 'AND', 'chain')).toEqual(
+      employeeData.filter(e => (e.department === 'Engineering' && e.salary > 100000) || e.department === 'Sales')
+    );
+  });
+
+  it('skips disabled conditions', () => {
+    expect(FilterEngine.applyFilters(employeeSchema, employeeData, [{ ...engineering, enabled: false }])).toEqual(employeeData);
+  });
+
+  it('matches text case-insensitively unless asked otherwise', () => {
+    const lower = condition({ operator: 'contains', value: 'john' });
+    expect(FilterEngine.applyFilters(employeeSchema, employeeData, [lower])).toEqual(
+      employeeData.filter(e => e.name.toLowerCase().includes('john'))
+    );
+    expect(FilterEngine.applyFilters(employeeSchema, employeeData, [{ ...lower, textOptions: { caseSensitive: true } }])).toEqual(
+      employeeData.filter(e => e.name.includes('john'))
+    );
+  });
+
+  it('compares against another field of the same record', () => {
+    const reviewedBeforeJoining = condition({
+      field: 'lastReview',
+      fieldType: 'date',
+      operator: 'before',
+      valueSource: 'field',
+      valueField: 'joinDate'
+    });
+    expect(FilterEngine.applyFilters(employeeSchema, employeeData, [reviewedBeforeJoining])).toEqual(
+      employeeData.filter(e => new Date(e.lastReview) < new Date(e.joinDate))
+    );
+  });
+
+  it('resolves relative dates against the clock', () => {
+    const joined = (joinDate: string) => ({ ...employeeData[0], joinDate });
+    const records = ['2023-05-10', '2024-04-01', '2024-06-01', '2024-06-30', '2024-07-05'].map(joined);
+    const joinedWhere = (operator: FilterCondition['operator'], value: FilterCondition['value'] = null) =>
+      FilterEngine.applyFilters(employeeSchema, records, [condition({ field: 'joinDate', fieldType: 'date', operator, value })]).map(
+        e => e.joinDate
+      );
+
+    Clock.set(() => new Date(2024, 5, 30, 12));
+    try {
+      expect(joinedWhere('inLast', { amount: 30, unit: 'days' })).toEqual(['2024-06-01', '2024-06-30']);
+      expect(joinedWhere('inNext', { amount: 1, unit: 'weeks' })).toEqual(['2024-06-30', '2024-07-05']);
+      expect(joinedWhere('olderThan', { amount: 1, unit: 'months' })).toEqual(['2023-05-10', '2024-04-01']);
+      expect(joinedWhere('thisQuarter')).toEqual(['2024-04-01', '2024-06-01', '2024-06-30']);
+      expect(joinedWhere('lastCalendarYear')).toEqual(['2023-05-10']);
+    } finally {
+      Clock.reset();
+    }
+  });
+
+  it('lets a missing compared field satisfy only negated operators', () => {
+    const noEmail = { ...employeeData[0], email: undefined as unknown as string };
+    const nameVsEmail = (operator: FilterCondition['operator']) =>
+      condition({ operator, valueSource: 'field', valueField: 'email' });
+    expect(FilterEngine.applyFilters(employeeSchema, [noEmail], [nameVsEmail('notContains')])).toEqual([noEmail]);
+    expect(FilterEngine.applyFilters(employeeSchema, [noEmail], [nameVsEmail('contains')])).toEqual([]);
+    expect(FilterEngine.applyFilters(employeeSchema, [noEmail], [nameVsEmail('equals')])).toEqual([]);
+  });
+});
+
+describe('FilterEngine empty values', () => {
+  const [first] = employeeData;
+  const blank = {
+    ...first,
+    id: -1,
+    name: '   ',
+    skills: [],
+    salary: null as unknown as number,
+    department: undefined as unknown as string,
+    address: { ...first.address, city: '' }
+  };
+  const records = [first, blank];
+  const matching = (props: Partial<FilterCondition>) =>
+    FilterEngine.applyFilters(employeeSchema, records, [condition(props)]).map(e => e.id);
+
+  it.each([
+    ['name', 'text'],
+    ['salary', 'amount'],
+    ['department', 'singleSelect'],
+    ['skills', 'multiSelect'],
+    ['address.city', 'text']
+  ] as const)('finds empty and filled-in %s values', (field, fieldType) => {
+    const nestedKey = field.includes('.') ? field : undefined;
+    expect(matching({ field, nestedKey, fieldType, operator: 'isEmpty' })).toEqual([-1]);
+    expect(matching({ field, nestedKey, fieldType, operator: 'isNotEmpty' })).toEqual([first.id]);
+  });
+
+  it('lets missing values satisfy only negated operators', () => {
+    expect(matching({ field: 'department', fieldType: 'singleSelect', operator: 'is', value: 'Nope' })).toEqual([]);
+    expect(matching({ field: 'department', fieldType: 'singleSelect', operator: 'isNot', value: first.department })).toEqual([-1]);
+    expect(matching({ field: 'salary', fieldType: 'amount', operator: 'lessThan', value: 1e9 })).toEqual([first.id]);
+  });
+});
+
+describe('FilterEngine.getConditionStats', () => {
+  const count = (keep: (e: (typeof employeeData)[number]) => boolean) => employeeData.filter(keep).length;
+
+  it('counts what each condition matches alone and what is left after it', () => {
+    const stats = FilterEngine.getConditionStats(employeeSchema, employeeData, state([highSalary, engineering]));
+    expect(stats.get(highSalary.id)).toEqual({ matches: count(e => e.salary > 100000), remaining: count(e => e.salary > 100000) });
+    expect(stats.get(engineering.id)).toMatchObject({
+      matches: count(e => e.department === 'Engineering'),
+      remaining: count(e => e.salary > 100000 && e.department === 'Engineering')
+    });
+  });
+
+  it('counts the options of select fields given the other conditions', () => {
+    const facets = FilterEngine.getConditionStats(employeeSchema, employeeData, state([highSalary, engineering])).get(
+      engineering.id
+    )?.facets;
+    expect(facets?.Engineering).toBe(count(e => e.salary > 100000 && e.department === 'Engineering'));
+    expect(facets?.Sales ?? 0).toBe(count(e => e.salary > 100000 && e.department === 'Sales'));
+  });
+
+  it('leaves out disabled and invalid conditions', () => {
+    const unfinished = condition({ value: '' });
+    const disabled = { ...highSalary, enabled: false };
+    expect(FilterEngine.getConditionStats(employeeSchema, employeeData, state([unfinished, disabled])).size).toBe(0);
+  });
+});
+
+describe('FilterEngine.traceRecord', () => {
+  const [john] = employeeData; // Engineering, 95000
+
+  it('shows the outcome of every node next to the values compared', () => {
+    const trace = FilterEngine.traceRecord(employeeSchema, john, state([engineering, group('OR', [highSalary, sales])]));
+    expect(trace).toMatchObject({
+      id: null,
+      status: 'failed',
+      children: [
+        { type: 'condition', status: 'passed', actual: 'Engineering', expected: 'Engineering' },
+        {
+          type: 'group',
+          status: 'failed',
+          children: [
+            { status: 'failed', actual: 95000, expected: 100000 },
+            { status: 'failed', actual: 'Engineering', expected: 'Sales' }
+          ]
+        }
+      ]
+    });
+  });
+
+  it('marks disabled and invalid conditions as skipped, and agrees with applyFilters', () => {
+    const unfinished = condition({ value: '' });
+    const nodes = [engineering, { ...highSalary, enabled: false }, unfinished];
+    const trace = FilterEngine.traceRecord(employeeSchema, john, state(nodes));
+    expect(trace.children.map(child => child.type === 'condition' && [child.status, child.skipReason])).toEqual([
+      ['passed', undefined],
+      ['skipped', 'disabled'],
+      ['skipped', 'invalid']
+    ]);
+    expect(trace.status === 'passed').toBe(FilterEngine.applyFilters(employeeSchema, [john], nodes).length === 1);
+  });
+
+  it('reads the other field of a field comparison', () => {
+    const reviewedAfterJoining = condition({
+      field: 'lastReview',
+      fieldType: 'date',
+      operator: 'after',
+      valueSource: 'field',
+      valueField: 'joinDate'
+    });
+    expect(FilterEngine.traceRecord(employeeSchema, john, state([reviewedAfterJoining])).children[0]).toMatchObject({
+      status: 'passed',
+      actual: john.lastReview,
+      expected: john.joinDate
+    });
+  });
+});
@@ -1,83 +1,356 @@
-import type { Employee, FilterCondition } from '../types';
-import { getNestedValue } from '../data/fieldDefinitions';
+import type {
+  ConditionStats,
+  DataSchema,
+  DateOperator,
+  EvaluationMode,
+  FilterCondition,
+  FilterGroup,
+  FilterNode,
+  FilterState,
+  GroupTrace,
+  NodeTrace,
+  TextMatchOptions
+} from '../types';
+import { getFieldValue } from '../data/fieldDefinitions';
+import { FilterTree } from './filterTree';
+import { FilterValidator } from './filterValidator';
+import { RelativeDate } from './relativeDate';
+import { Clock } from './clock';
+import { TextMatch } from './textMatch';
+import { RegexPattern } from './regexPattern';
+
+// Decides whether a single condition matches (see evaluateNodes)
+type ConditionTest = (condition: FilterCondition) => boolean;
 
 export class FilterEngine {
   /**
-   * Apply filters to employee data
+   * Apply filters to the records of a schema (employees, projects, ...)
    * 
-   * This is the core filtering logic. It takes employee records and filter conditions,
+   * This is the core filtering logic. It takes records and filter conditions,
    * then returns only the records that match all (AND) or any (OR) of the conditions.
    * 
    * For example, if you filter AND [department=Engineering, salary > 80000],
    * you only get people in Engineering who earn more than 80k.
    * But if you use OR, you get anyone in Engineering OR earning >80k.
+   *
+   * Conditions can also contain nested groups, each with its own AND/OR operator,
+   * so (department=Engineering AND salary > 100k) OR (department=Sales AND projects >= 5) works too.
+   *
+   * In 'chain' mode the logicalOperator is ignored and each condition's own connector
+   * decides how it joins the previous one (see evaluateChain).
+   *
+   * Disabled conditions are skipped as if they weren't there.
    */
-  static applyFilters(
-    data: Employee[],
-    conditions: FilterCondition[],
-    logicalOperator: 'AND' | 'OR' = 'AND'
-  ): Employee[] {
+  static applyFilters<T>(
+    schema: DataSchema<T>,
+    data: T[],
+    conditions: FilterNode[],
+    logicalOperator: 'AND' | 'OR' = 'AND',
+    evaluationMode: EvaluationMode = 'uniform'
+  ): T[] {
+    // Prune the disabled conditions once, rather than checking them for every record
+    const enabledConditions = FilterTree.getEnabledNodes(conditions);
+
     // If there are no filters, show everything
-    if (conditions.length === 0) {
+    if (enabledConditions.length === 0) {
       return data;
     }
 
-    return data.filter(record => {
-      if (logicalOperator === 'AND') {
-        // ALL conditions must be true for this record
-        // If even one condition fails, don't include this record
-        return conditions.every(condition => this.evaluateCondition(record, condition));
+    return data.filter(record =>
+      this.evaluateNodes(enabledConditions, logicalOperator, evaluationMode, condition =>
+        this.evaluateCondition(schema, record, condition)
+      )
+    );
+  }
+
+  /**
+   * Count how many records each condition lets through, for the live counts in the builder
+   *
+   * For every valid, enabled condition we report how many records it matches on its own, and how
+   * many are left after applying the filter up to and including it (in the order the conditions
+   * appear, with later ones left out). Select fields also get facet counts: how many records have
+   * each option, given all the other conditions.
+   *
+   * Each condition is evaluated only once per record. The results are cached and every count
+   * after that just combines them following the tree.
+   */
+  static getConditionStats<T>(schema: DataSchema<T>, data: T[], filterState: FilterState): Map<string, ConditionStats> {
+    const validNodes = FilterValidator.getValidNodes(schema, filterState.conditions);
+    const validConditions = FilterTree.getConditions(validNodes);
+
+    const results = new Map(
+      validConditions.map(condition => [condition.id, data.map(record => this.evaluateCondition(schema, record, condition))])
+    );
+
+    // Indexes of the records matching a (pruned) tree, using the cached condition results
+    const getMatchingIndexes = (nodes: FilterNode[]): number[] => {
+      if (nodes.length === 0) return data.map((_, index) => index);
+
+      return data.flatMap((_, index) => {
+        const test: ConditionTest = condition => results.get(condition.id)![index];
+        return this.evaluateNodes(nodes, filterState.logicalOperator, filterState.evaluationMode, test) ? [index] : [];
+      });
+    };
+
+    const stats = new Map<string, ConditionStats>();
+
+    const applied = new Set<string>();
+    validConditions.forEach(condition => {
+      applied.add(condition.id);
+      stats.set(condition.id, {
+        matches: results.get(condition.id)!.filter(Boolean).length,
+        remaining: getMatchingIndexes(FilterTree.pruneConditions(validNodes, c => applied.has(c.id))).length
+      });
+    });
+
+    FilterTree.getConditions(filterState.conditions)
+      .filter(condition => condition.fieldType === 'singleSelect' || condition.fieldType === 'multiSelect')
+      .forEach(condition => {
+        const others = FilterTree.pruneConditions(validNodes, c => c.id !== condition.id);
+        const facets = this.countValues(
+          schema,
+          getMatchingIndexes(others).map(index => data[index]),
+          condition.nestedKey || condition.field
+        );
+        stats.set(condition.id, { ...stats.get(condition.id), facets });
+      });
+
+    return stats;
+  }
+
+  /**
+   * Explain why a record does or doesn't match the filters
+   *
+   * Returns the filter tree with the outcome of every node for this record, and for each condition
+   * the record's actual value next to the expected one. Disabled and invalid conditions are
+   * included as 'skipped', since they're in the builder but have no say. The top level passes
+   * exactly when applyFilters would keep the record.
+   */
+  static traceRecord<T>(schema: DataSchema<T>, record: T, filterState: FilterState): GroupTrace {
+    const validNodes = FilterValidator.getValidNodes(schema, filterState.conditions);
+
+    // getValidNodes copies the groups it keeps, so look them up by id to evaluate what's left of them
+    const validGroups = new Map<string, FilterGroup>();
+    const collectGroups = (nodes: FilterNode[]) =>
+      nodes.forEach(node => {
+        if (FilterTree.isGroup(node)) {
+          validGroups.set(node.id, node);
+          collectGroups(node.conditions);
+        }
+      });
+    collectGroups(validNodes);
+
+    const results = new Map(
+      FilterTree.getConditions(validNodes).map(condition => [condition.id, this.evaluateCondition(schema, record, condition)])
+    );
+    const test: ConditionTest = condition => results.get(condition.id)!;
+
+    const traceNode = (node: FilterNode): NodeTrace => {
+      if (!FilterTree.isGroup(node)) {
+        const passed = results.get(node.id);
+        return {
+          type: 'condition',
+          condition: node,
+          status: passed === undefined ? 'skipped' : passed ? 'passed' : 'failed',
+          ...(passed === undefined && { skipReason: FilterTree.isEnabled(node) ? 'invalid' : 'disabled' }),
+          actual: node.field ? getFieldValue(schema, record, node.nestedKey || node.field) : undefined,
+          expected:
+            node.valueSource === 'field' && node.valueField ? getFieldValue(schema, record, node.valueField) : node.value
+        };
+      }
+
+      const validGroup = validGroups.get(node.id);
+      return {
+        type: 'group',
+        id: node.id,
+        logicalOperator: node.logicalOperator,
+        evaluationMode: node.evaluationMode ?? 'uniform',
+        connector: node.connector,
+        status: validGroup ? (this.evaluateGroup(validGroup, test) ? 'passed' : 'failed') : 'skipped',
+        children: node.conditions.map(traceNode)
+      };
+    };
+
+    // With nothing to filter on, every record is shown
+    const passed =
+      validNodes.length === 0 ||
+      this.evaluateNodes(validNodes, filterState.logicalOperator, filterState.evaluationMode, test);
+
+    return {
+      type: 'group',
+      id: null,
+      logicalOperator: filterState.logicalOperator,
+      evaluationMode: filterState.evaluationMode ?? 'uniform',
+      status: passed ? 'passed' : 'failed',
+      children: filterState.conditions.map(traceNode)
+    };
+  }
+
+  /**
+   * How many records hold each value of a field. Multi-select values count once for every
+   * item in them, e.g. a record with skills [React, Node.js] counts for both.
+   */
+  private static countValues<T>(schema: DataSchema<T>, records: T[], fieldKey: string): Record<string, number> {
+    const counts: Record<string, number> = {};
+    records.forEach(record => {
+      const value = getFieldValue(schema, record, fieldKey);
+      const values = Array.isArray(value) ? new Set(value) : [value];
+      values.forEach(item => {
+        if (item === null || item === undefined) return;
+        counts[String(item)] = (counts[String(item)] ?? 0) + 1;
+      });
+    });
+    return counts;
+  }
+
+  /**
+   * Evaluate a list of sibling nodes (conditions and/or groups)
+   *
+   * `test` decides whether a single condition matches - normally by evaluating it against
+   * a record, or by looking up a cached result when counting (see getConditionStats).
+   */
+  private static evaluateNodes(
+    nodes: FilterNode[],
+    logicalOperator: 'AND' | 'OR',
+    evaluationMode: EvaluationMode = 'uniform',
+    test: ConditionTest
+  ): boolean {
+    if (evaluationMode === 'chain') {
+      return this.evaluateChain(nodes, test);
+    }
+
+    if (logicalOperator === 'AND') {
+      // ALL conditions must be true for this record
+      // If even one condition fails, don't include this record
+      return nodes.every(node => this.evaluateNode(node, test));
+    } else {
+      // AT LEAST ONE condition must be true
+      // If any condition matches, include this record
+      return nodes.some(node => this.evaluateNode(node, test));
+    }
+  }
+
+  /**
+   * Evaluate siblings joined by their own connectors, where AND binds tighter than OR
+   *
+   * Just like in SQL, "A AND B OR C AND D" means "(A AND B) OR (C AND D)".
+   * We split the chain at every OR connector into runs of AND-ed nodes,
+   * and the record matches if every node in at least one run matches.
+   * The connector of the first node is ignored since there's nothing before it.
+   */
+  private static evaluateChain(nodes: FilterNode[], test: ConditionTest): boolean {
+    const runs: FilterNode[][] = [];
+
+    nodes.forEach((node, index) => {
+      if (index === 0 || FilterTree.getConnector(node) === 'OR') {
+        runs.push([node]);
       } else {
-        // AT LEAST ONE condition must be true
-        // If any condition matches, include this record
-        return conditions.some(condition => this.evaluateCondition(record, condition));
+        runs[runs.length - 1].push(node);
       }
     });
+
+    return runs.some(run => run.every(node => this.evaluateNode(node, test)));
+  }
+
+  /**
+   * Evaluate a single node of the filter tree - either a condition or a nested group
+   */
+  private static evaluateNode(node: FilterNode, test: ConditionTest): boolean {
+    if (FilterTree.isGroup(node)) {
+      return this.evaluateGroup(node, test);
+    }
+    return test(node);
+  }
+
+  /**
+   * Evaluate a nested group. An empty group doesn't restrict anything, just like
+   * an empty filter state shows everything.
+   */
+  private static evaluateGroup(group: FilterGroup, test: ConditionTest): boolean {
+    if (group.conditions.length === 0) return true;
+    return this.evaluateNodes(group.conditions, group.logicalOperator, group.evaluationMode, test);
   }
 
   /**
    * Evaluate a single filter condition
+   *
+   * Missing values (null/undefined) follow one rule for every field type: they never satisfy
+   * a positive operator (equals, contains, is, in, between...) and always satisfy a negated one
+   * (notContains, isNot, notIn). Use isEmpty/isNotEmpty to look for missing values explicitly.
    */
-  private static evaluateCondition(record: Employee, condition: FilterCondition): boolean {
+  private static evaluateCondition<T>(schema: DataSchema<T>, record: T, condition: FilterCondition): boolean {
     const fieldKey = condition.nestedKey || condition.field;
-    const value = getNestedValue(record, fieldKey);
+    const value = getFieldValue(schema, record, fieldKey);
+
+    // Emptiness works the same way for every field type, so check it before the type-specific logic
+    if (condition.operator === 'isEmpty') {
+      return this.isEmptyValue(value);
+    }
+    if (condition.operator === 'isNotEmpty') {
+      return !this.isEmptyValue(value);
+    }
+
+    // The right-hand side is either what the user typed, or another field of the same record
+    // (e.g. "lastReview before joinDate"). A missing other field follows the same rule as a missing value.
+    let filterValue = condition.value;
+    if (condition.valueSource === 'field' && condition.valueField) {
+      filterValue = getFieldValue(schema, record, condition.valueField);
+      if (filterValue === null || filterValue === undefined) {
+        return condition.operator === 'notContains' || condition.operator === 'isNot' || condition.operator === 'notIn';
+      }
+    }
 
     switch (condition.fieldType) {
       case 'text':
-        return this.evaluateTextFilter(value, condition.operator as any, condition.value);
+        return this.evaluateTextFilter(value, condition.operator as any, filterValue, condition.textOptions);
       case 'number':
-        return this.evaluateNumberFilter(value, condition.operator as any, condition.value);
+        return this.evaluateNumberFilter(value, condition.operator as any, filterValue);
       case 'date':
-        return this.evaluateDateFilter(value, condition.operator as any, condition.value);
+        return this.evaluateDateFilter(value, condition.operator as any, filterValue);
       case 'amount':
-        return this.evaluateAmountFilter(value, condition.operator as any, condition.value);
+        return this.evaluateAmountFilter(value, condition.operator as any, filterValue);
       case 'singleSelect':
-        return this.evaluateSelectFilter(value, condition.operator as any, condition.value);
+        return this.evaluateSelectFilter(value, condition.operator as any, filterValue);
       case 'multiSelect':
-        return this.evaluateMultiSelectFilter(value, condition.operator as any, condition.value);
+        return this.evaluateMultiSelectFilter(value, condition.operator as any, filterValue);
       case 'boolean':
-        return this.evaluateBooleanFilter(value, condition.operator as any, condition.value);
+        return this.evaluateBooleanFilter(value, condition.operator as any, filterValue);
       default:
         return true;
     }
   }
 
+  /**
+   * Check if a value counts as "empty": null/undefined, a blank string,
+   * an empty array (e.g. no skills) or an object with no properties
+   */
+  private static isEmptyValue(value: unknown): boolean {
+    if (value === null || value === undefined) return true;
+    if (typeof value === 'string') return value.trim() === '';
+    if (Array.isArray(value)) return value.length === 0;
+    if (typeof value === 'object') return Object.keys(value).length === 0;
+    return false;
+  }
+
   /**
    * Text field filtering
    * 
    * Handles filtering for text data (name, email, role, etc.).
-   * Supports various operators like "contains", "startsWith", "regex", etc.
-   * We do case-insensitive matching for better UX (user doesn't have to worry about capitalization).
+   * Supports various operators like "contains", "startsWith", "regex", "fuzzy", etc.
+   * We do case-insensitive matching for better UX (user doesn't have to worry about capitalization),
+   * unless the condition's text options say otherwise (see TextMatch).
    */
   private static evaluateTextFilter(
     value: any,
-    operator: 'equals' | 'contains' | 'startsWith' | 'endsWith' | 'notContains' | 'regex',
-    filterValue: string
+    operator: 'equals' | 'contains' | 'startsWith' | 'endsWith' | 'notContains' | 'regex' | 'fuzzy',
+    filterValue: string,
+    options: TextMatchOptions = {}
   ): boolean {
-    if (value === null || value === undefined) return false;
+    // A missing value can't contain anything, but it doesn't match anything either
+    if (value === null || value === undefined) return operator === 'notContains';
 
-    const strValue = String(value).toLowerCase();
-    const strFilter = String(filterValue).toLowerCase();
+    const strValue = TextMatch.normalize(String(value), options);
+    const strFilter = TextMatch.normalize(String(filterValue), options);
 
     switch (operator) {
       case 'equals':
@@ -90,16 +363,16 @@ export class FilterEngine {
         return strValue.endsWith(strFilter);
       case 'notContains':
         return !strValue.includes(strFilter);
-      case 'regex':
-        // Allow advanced regex patterns. If the user enters invalid regex, we catch the error
-        // and return false rather than crashing the app
-        try {
-          const regex = new RegExp(strFilter, 'i'); // 'i' flag makes it case-insensitive
-          return regex.test(String(value));
-        } catch {
-          // Invalid regex pattern - silently fail and don't match
-          return false;
-        }
+      case 'fuzzy':
+        return TextMatch.fuzzyMatches(strValue, strFilter, options.maxDistance);
+      case 'regex': {
+        // The pattern is compiled once and reused for every record. Invalid patterns, and ones that
+        // could backtrack forever, come back as null and match nothing - the validator explains why.
+        // The 'i' flag does the case-insensitive part - lowercasing the pattern would break \S, \W and friends.
+        // Whitespace is left alone, the pattern says how to match it.
+        const regex = RegexPattern.compile(String(filterValue), options);
+        return regex !== null && regex.test(TextMatch.normalize(String(value), { ...options, caseSensitive: true, collapseWhitespace: false }));
+      }
       default:
         return true;
     }
@@ -139,14 +412,23 @@ export class FilterEngine {
 
   /**
    * Date field filtering
+   *
+   * Relative operators (inLast, inNext, olderThan, thisQuarter, lastCalendarYear) are resolved
+   * against Clock.now(), so the same saved filter keeps meaning "the last 90 days" tomorrow.
    */
   private static evaluateDateFilter(
     value: any,
-    operator: 'equals' | 'before' | 'after' | 'between',
+    operator: DateOperator,
     filterValue: any
   ): boolean {
     if (!value) return false;
 
+    if (RelativeDate.isRelativeOperator(operator)) {
+      const localDate = RelativeDate.parseDate(value);
+      if (!localDate) return false;
+      return RelativeDate.isInRange(localDate, RelativeDate.getRange(operator, filterValue, Clock.now()));
+    }
+
     const date = new Date(value);
     if (isNaN(date.getTime())) return false;
 
@@ -230,6 +512,9 @@ export class FilterEngine {
     _operator: 'is',
     filterValue: any
   ): boolean {
+    // Missing is neither true nor false
+    if (value === null || value === undefined) return false;
+
     const boolValue = Boolean(value);
     const boolFilter = String(filterValue).toLowerCase() === 'true';
     return boolValue === boolFilter;
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { FilterHistory } from './filterHistory';
+import { engineering, sales, state } from './testFixtures';
+
+const first = state([]);
+const second = state([engineering]);
+const third = state([sales]);
+
+describe('FilterHistory', () => {
+  it('steps back and forth through recorded changes', () => {
+    let stacks = FilterHistory.record(FilterHistory.empty, first, false, 50);
+    stacks = FilterHistory.record(stacks, second, false, 50);
+
+    const undone = FilterHistory.undo(stacks, third);
+    expect(undone?.filterState).toBe(second);
+    const redone = FilterHistory.redo(undone!.stacks, second);
+    expect(redone?.filterState).toBe(third);
+    expect(redone?.stacks).toEqual(stacks);
+  });
+
+  it('has nothing to undo or redo at the ends', () => {
+    expect(FilterHistory.undo(FilterHistory.empty, first)).toBeNull();
+    expect(FilterHistory.redo(FilterHistory.record(FilterHistory.empty, first, false, 50), second)).toBeNull();
+  });
+
+  it('drops what could be redone once a new change is made', () => {
+    const undone = FilterHistory.undo(FilterHistory.record(FilterHistory.empty, first, false, 50), second)!;
+    expect(FilterHistory.record(undone.stacks, first, false, 50)).toEqual({ past: [first], future: [] });
+  });
+
+  it('keeps only the latest steps', () => {
+    const stacks = [first, second, third].reduce(
+      (acc, filterState) => FilterHistory.record(acc, filterState, false, 2),
+      FilterHistory.empty
+    );
+    expect(stacks.past).toEqual([second, third]);
+  });
+
+  it('merges typing in one input into a single step', () => {
+    const last = { coalesceKey: 'c1.value', at: 1000 };
+    expect(FilterHistory.continues(last, 'c1.value', 1500)).toBe(true);
+    expect(FilterHistory.continues(last, 'c1.value', 2500)).toBe(false);
+    expect(FilterHistory.continues(last, 'c2.value', 1500)).toBe(false);
+    expect(FilterHistory.continues(last, undefined, 1500)).toBe(false);
+    expect(FilterHistory.record({ past: [first], future: [] }, second, true, 50).past).toEqual([first]);
+  });
+});
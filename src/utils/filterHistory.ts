@@ -0,0 +1,68 @@
+import type { FilterState } from '../types';
+
+// Coalesced edits merge as long as each one follows the previous within this time
+const COALESCE_MS = 1000;
+
+export interface HistoryStacks {
+  past: FilterState[];
+  future: FilterState[];
+}
+
+// The last recorded change, to tell whether the next one continues it
+export interface LastChange {
+  coalesceKey?: string;
+  at: number; // ms timestamp
+}
+
+/**
+ * Undo/redo steps for the filters (see useFilterHistory)
+ *
+ * All operations are immutable - they take the current stacks and return new ones -
+ * so the React state holding them can use them directly.
+ */
+export class FilterHistory {
+  static readonly empty: HistoryStacks = { past: [], future: [] };
+
+  /**
+   * Whether a change continues the previous one: the same coalesceKey (typing in one input), in quick succession
+   */
+  static continues(last: LastChange | null, coalesceKey: string | undefined, now: number): boolean {
+    return !!coalesceKey && last?.coalesceKey === coalesceKey && now - last.at < COALESCE_MS;
+  }
+
+  /**
+   * Remember the filters a change replaces. A merged change keeps the step that was recorded when the
+   * typing started. Either way there's nothing left to redo.
+   */
+  static record(stacks: HistoryStacks, current: FilterState, merge: boolean, limit: number): HistoryStacks {
+    return {
+      past: merge ? stacks.past : [...stacks.past, current].slice(-limit),
+      future: []
+    };
+  }
+
+  /**
+   * Step back: the filters to apply and the stacks after it, or null if there's nothing to undo
+   */
+  static undo(stacks: HistoryStacks, current: FilterState): { stacks: HistoryStacks; filterState: FilterState } | null {
+    if (stacks.past.length === 0) return null;
+    return {
+      stacks: { past: stacks.past.slice(0, -1), future: [current, ...stacks.future] },
+      filterState: stacks.past[stacks.past.length - 1]
+    };
+  }
+
+  /**
+   * Step forward again after an undo, or null if there's nothing to redo
+   */
+  static redo(stacks: HistoryStacks, current: FilterState): { stacks: HistoryStacks; filterState: FilterState } | null {
+    const [next, ...rest] = stacks.future;
+    if (!next) return null;
+    return {
+      stacks: { past: [...stacks.past, current], future: rest },
+      filterState: next
+    };
+  }
+}
+
+export default FilterHistory;
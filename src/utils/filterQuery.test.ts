@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import type { FilterGroup, FilterNode, FilterState } from '../types';
+import { employeeSchema } from '../data/schemas';
+import { FilterQuery, FilterQueryError } from './filterQuery';
+import { FilterTree } from './filterTree';
+
+// What a filter means, without the ids and defaults that parsing fills in
+const shape = (nodes: FilterNode[]): unknown[] =>
+  nodes.map(node =>
+    FilterTree.isGroup(node)
+      ? { logicalOperator: node.logicalOperator, conditions: shape(node.conditions) }
+      : {
+          field: node.field,
+          operator: node.operator,
+          // A field comparison has no value of its own
+          ...(node.valueField ? { valueField: node.valueField } : { value: node.value }),
+          ...(node.textOptions && { textOptions: node.textOptions })
+        }
+  );
+
+describe('FilterQuery', () => {
+  it.each([
+    'department = Engineering AND (salary > 100000 OR skills has all [React, TypeScript])',
+    'name contains "van der"',
+    'lastReview before @joinDate',
+    'name similar to "jose garcia" (ignore accents, typos 1)',
+    'email matches "^j.*@example" (case sensitive, flags su)',
+    'salary between 50000 AND 100000',
+    'isActive = true',
+    'address.city is empty'
+  ])('prints %s back as it was typed', query => {
+    expect(FilterQuery.print(FilterQuery.parse(employeeSchema, query))).toBe(query);
+  });
+
+  it('prints the canonical form of what was typed', () => {
+    const print = (query: string) => FilterQuery.print(FilterQuery.parse(employeeSchema, query));
+    expect(print('"Last Review Date" in last 90 days')).toBe('lastReview in last 90 days');
+    expect(print('department = Engineering OR department = Sales AND salary > 5')).toBe(
+      'department = Engineering OR (department = Sales AND salary > 5)'
+    );
+  });
+
+  it('parses into conditions with the field\'s type', () => {
+    const state = FilterQuery.parse(employeeSchema, 'department = Engineering AND lastReview before @joinDate');
+    expect(state.logicalOperator).toBe('AND');
+    expect(state.conditions).toMatchObject([
+      { field: 'department', fieldType: 'singleSelect', operator: 'is', value: 'Engineering' },
+      { field: 'lastReview', fieldType: 'date', operator: 'before', valueSource: 'field', valueField: 'joinDate' }
+    ]);
+  });
+
+  it('round-trips a filter state through text', () => {
+    const state: FilterState = {
+      logicalOperator: 'OR',
+      conditions: [
+        { id: 'c1', field: 'name', fieldType: 'text', operator: 'startsWith', value: 'Jo', textOptions: { caseSensitive: true } },
+        {
+          id: 'g1',
+          type: 'group',
+          logicalOperator: 'AND',
+          conditions: [
+            { id: 'c2', field: 'department', fieldType: 'singleSelect', operator: 'isNot', value: 'Sales' },
+            { id: 'c3', field: 'skills', fieldType: 'multiSelect', operator: 'in', value: ['React', 'Go'] },
+            { id: 'c4', field: 'joinDate', fieldType: 'date', operator: 'after', value: '', valueSource: 'field', valueField: 'lastReview' }
+          ]
+        }
+      ]
+    };
+    const parsed = FilterQuery.parse(employeeSchema, FilterQuery.print(state));
+    expect(parsed.logicalOperator).toBe('OR');
+    expect(shape(parsed.conditions)).toEqual(shape(state.conditions));
+  });
+
+  it('leaves out disabled and unfinished conditions', () => {
+    expect(
+      FilterQuery.print({
+        logicalOperator: 'AND',
+        conditions: [
+          FilterTree.createCondition(),
+          { id: 'c1', field: 'isActive', fieldType: 'boolean', operator: 'is', value: 'true', enabled: false },
+          { id: 'c2', field: 'salary', fieldType: 'amount', operator: 'lessThan', value: 50000 }
+        ]
+      })
+    ).toBe('salary < 50000');
+  });
+
+  it('keeps the ids of the filters the text was printed from', () => {
+    const previous = FilterQuery.parse(employeeSchema, 'department = Engineering AND (salary > 5 OR name contains x)');
+    const [engineering, group] = previous.conditions as [FilterNode, FilterGroup];
+    const parsed = FilterQuery.parse(employeeSchema, 'department = Sales AND (salary > 50 OR email contains x)', previous);
+    expect(parsed.conditions[0].id).toBe(engineering.id);
+    expect(parsed.conditions[1]).toMatchObject({
+      id: group.id,
+      conditions: [{ id: group.conditions[0].id, value: 50 }, { field: 'email' }]
+    });
+    expect((parsed.conditions[1] as FilterGroup).conditions[1].id).not.toBe(group.conditions[1].id);
+  });
+
+  it('reads an empty query as no filters', () => {
+    expect(FilterQuery.parse(employeeSchema, '   ').conditions).toEqual([]);
+  });
+
+  it('points at what is wrong', () => {
+    const errorOf = (query: string) => {
+      try {
+        FilterQuery.parse(employeeSchema, query);
+      } catch (err) {
+        if (err instanceof FilterQueryError) return { message: err.message, position: err.position };
+        throw err;
+      }
+      throw new Error(`"${query}" parsed`);
+    };
+    expect(errorOf('foo = 1')).toEqual({ message: 'Unknown field "foo" (at position 1)', position: 0 });
+    expect(errorOf('salary > abc')).toEqual({ message: 'Expected a number but found "abc" (at position 10)', position: 9 });
+    expect(errorOf('department =')).toMatchObject({ message: 'Expected a value (at position 13)' });
+    expect(errorOf('(name contains x').message).toMatch(/^Expected "\)" to close the "\(" at position 1/);
+  });
+});
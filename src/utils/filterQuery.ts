@@ -0,0 +1,716 @@
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  DataSchema,
+  FieldDefinition,
+  FilterCondition,
+  FilterNode,
+  FilterState,
+  Operator,
+  TextMatchOptions
+} from '../types';
+import { FilterTree } from './filterTree';
+import { FilterValidator } from './filterValidator';
+import { RegexPattern } from './regexPattern';
+
+/**
+ * Text query language for filters
+ *
+ * Lets power users type a filter instead of clicking it together, e.g.
+ *
+ *   department = Engineering AND (salary > 100000 OR skills has all [React, TypeScript])
+ *
+ * - Fields can be referenced by key (address.city) or label ("Last Review Date" - quote it if it has spaces)
+ * - AND binds tighter than OR, parentheses create groups
+ * - Values with spaces or special characters can be quoted: name contains "van der"
+ * - @field compares against another field: lastReview before @joinDate
+ * - Text options go in parentheses after the value: name similar to "jose garcia" (ignore accents, typos 1)
+ *   or email matches "^j.*@example" (case sensitive, flags su)
+ *
+ * FilterQuery.parse turns text into a FilterState, FilterQuery.print turns any FilterState
+ * back into canonical text, so the text mode and the visual builder can round-trip.
+ */
+
+export class FilterQueryError extends Error {
+  position: number; // 0-based offset into the query text
+
+  constructor(message: string, position: number) {
+    super(`${message} (at position ${position + 1})`);
+    this.name = 'FilterQueryError';
+    this.position = position;
+  }
+}
+
+type TokenType = 'word' | 'string' | 'symbol' | 'eof';
+
+interface Token {
+  type: TokenType;
+  text: string;
+  position: number;
+}
+
+// Parsed expression, before it gets turned into filter groups
+type Expression =
+  | { kind: 'condition'; condition: FilterCondition }
+  | { kind: 'AND' | 'OR'; children: Expression[] };
+
+// Characters that end a bare word
+const DELIMITERS = '()[],"\'=<>!';
+
+// Operator phrases as the user types them, longest first so "is not empty" wins over "is"
+const OPERATOR_PHRASES: Array<[string[], string]> = [
+  [['is', 'not', 'empty'], 'isNotEmpty'],
+  [['is', 'empty'], 'isEmpty'],
+  [['is', 'not'], '!='],
+  [['is'], '='],
+  [['not', 'contains'], 'notContains'],
+  [['contains'], 'contains'],
+  [['starts', 'with'], 'startsWith'],
+  [['ends', 'with'], 'endsWith'],
+  [['matches'], 'regex'],
+  [['similar', 'to'], 'fuzzy'],
+  [['before'], 'before'],
+  [['after'], 'after'],
+  [['between'], 'between'],
+  [['in', 'last'], 'inLast'],
+  [['in', 'next'], 'inNext'],
+  [['older', 'than'], 'olderThan'],
+  [['this', 'quarter'], 'thisQuarter'],
+  [['last', 'calendar', 'year'], 'lastCalendarYear'],
+  [['has', 'any'], 'in'],
+  [['has', 'none'], 'notIn'],
+  [['has', 'all'], 'containsAll'],
+  [['not', 'in'], 'notIn'],
+  [['in'], 'in']
+];
+
+// How each operator is written in canonical text
+const OPERATOR_TEXT: Record<string, string> = {
+  equals: '=',
+  is: '=',
+  isNot: '!=',
+  greaterThan: '>',
+  lessThan: '<',
+  greaterThanOrEqual: '>=',
+  lessThanOrEqual: '<=',
+  contains: 'contains',
+  notContains: 'not contains',
+  startsWith: 'starts with',
+  endsWith: 'ends with',
+  regex: 'matches',
+  fuzzy: 'similar to',
+  before: 'before',
+  after: 'after',
+  between: 'between',
+  inLast: 'in last',
+  inNext: 'in next',
+  olderThan: 'older than',
+  thisQuarter: 'this quarter',
+  lastCalendarYear: 'last calendar year',
+  in: 'has any',
+  notIn: 'has none',
+  containsAll: 'has all',
+  isEmpty: 'is empty',
+  isNotEmpty: 'is not empty'
+};
+
+const KEYWORDS = ['and', 'or', 'not'];
+
+export class FilterQuery {
+  /**
+   * Parse query text into a filter state
+   *
+   * Fields are looked up in the given schema. Throws a FilterQueryError pointing at the
+   * offending position when the text is invalid. An empty query means "no filters".
+   *
+   * Pass the filters the text was printed from (or last parsed into) to keep their ids: a condition
+   * on the same field in the same place, or a group in the same place, is taken to be the same one.
+   * Otherwise every parse gets new ids, and whatever is keyed by them starts over.
+   */
+  static parse(schema: DataSchema, text: string, previous?: FilterState): FilterState {
+    const parser = new QueryParser(schema, text);
+    const expression = parser.parseQuery();
+
+    if (!expression) {
+      return { conditions: [], logicalOperator: 'AND', evaluationMode: 'uniform' };
+    }
+
+    const conditions =
+      expression.kind === 'condition' ? [expression.condition] : expression.children.map(child => this.toNode(child));
+    return {
+      // Only valid conditions are printed, so those are the ones the parsed nodes line up with
+      conditions: previous ? this.keepIds(FilterValidator.getValidNodes(schema, previous.conditions), conditions) : conditions,
+      logicalOperator: expression.kind === 'condition' ? 'AND' : expression.kind,
+      evaluationMode: 'uniform'
+    };
+  }
+
+  /**
+   * Turn a filter state into canonical query text
+   *
+   * Conditions that haven't been filled in yet (no field selected) or are disabled are left out,
+   * since the query language has no way to write them.
+   */
+  static print(filterState: FilterState): string {
+    return this.printNodes(filterState.conditions, filterState.logicalOperator, filterState.evaluationMode);
+  }
+
+  private static keepIds(previous: FilterNode[], parsed: FilterNode[]): FilterNode[] {
+    return parsed.map((node, index) => {
+      const match = previous[index];
+      if (!match) return node;
+      if (FilterTree.isGroup(node)) {
+        return FilterTree.isGroup(match) ? { ...node, id: match.id, conditions: this.keepIds(match.conditions, node.conditions) } : node;
+      }
+      return !FilterTree.isGroup(match) && match.field === node.field ? { ...node, id: match.id } : node;
+    });
+  }
+
+  private static toNode(expression: Expression): FilterNode {
+    if (expression.kind === 'condition') return expression.condition;
+    return {
+      id: uuidv4(),
+      type: 'group',
+      logicalOperator: expression.kind,
+      evaluationMode: 'uniform',
+      conditions: expression.children.map(child => this.toNode(child))
+    };
+  }
+
+  private static printNodes(
+    nodes: FilterNode[],
+    logicalOperator: 'AND' | 'OR',
+    evaluationMode: FilterState['evaluationMode']
+  ): string {
+    // In chain mode every node brings its own connector. Since the parser also lets AND bind
+    // tighter than OR, printing the connectors as they are keeps the meaning intact.
+    const parts = nodes
+      .map(node => ({ node, text: this.printNode(node) }))
+      .filter(part => part.text !== '');
+
+    return parts
+      .map((part, index) => {
+        if (index === 0) return part.text;
+        const connector = evaluationMode === 'chain' ? FilterTree.getConnector(part.node) : logicalOperator;
+        return `${connector} ${part.text}`;
+      })
+      .join(' ');
+  }
+
+  private static printNode(node: FilterNode): string {
+    if (!FilterTree.isGroup(node)) {
+      return this.printCondition(node);
+    }
+
+    const printable = node.conditions.filter(child => this.printNode(child) !== '');
+    const inner = this.printNodes(node.conditions, node.logicalOperator, node.evaluationMode);
+    return printable.length > 1 ? `(${inner})` : inner;
+  }
+
+  private static printCondition(condition: FilterCondition): string {
+    const text = this.printComparison(condition);
+    return text && FilterValidator.requiresValue(condition.operator) ? `${text}${this.printTextOptions(condition)}` : text;
+  }
+
+  private static printComparison(condition: FilterCondition): string {
+    if (!condition.field || !FilterTree.isEnabled(condition)) return '';
+
+    const operatorText = OPERATOR_TEXT[condition.operator] || condition.operator;
+    const head = `${condition.field} ${operatorText}`;
+
+    if (condition.valueSource === 'field' && condition.valueField) {
+      return `${head} @${condition.valueField}`;
+    }
+
+    if (!FilterValidator.requiresValue(condition.operator)) {
+      return head;
+    }
+
+    const value = condition.value;
+    switch (condition.operator) {
+      case 'between':
+        return condition.fieldType === 'date'
+          ? `${head} ${this.printValue(value?.from)} AND ${this.printValue(value?.to)}`
+          : `${head} ${this.printValue(value?.min)} AND ${this.printValue(value?.max)}`;
+      case 'inLast':
+      case 'inNext':
+      case 'olderThan':
+        return `${head} ${this.printValue(value?.amount)} ${value?.unit || 'days'}`;
+      default:
+        if (Array.isArray(value)) {
+          return `${head} [${value.map(item => this.printValue(item)).join(', ')}]`;
+        }
+        return `${head} ${this.printValue(value)}`;
+    }
+  }
+
+  // e.g. " (case sensitive, typos 1)" or " (flags su)" - nothing when the defaults apply
+  private static printTextOptions(condition: FilterCondition): string {
+    const options = condition.textOptions;
+    if (!options || condition.fieldType !== 'text') return '';
+
+    const parts = [
+      options.caseSensitive && 'case sensitive',
+      options.ignoreDiacritics && 'ignore accents',
+      options.collapseWhitespace && 'collapse spaces',
+      condition.operator === 'fuzzy' && options.maxDistance !== undefined && `typos ${options.maxDistance}`,
+      condition.operator === 'regex' && options.regexFlags && `flags ${options.regexFlags}`
+    ].filter(Boolean);
+    return parts.length > 0 ? ` (${parts.join(', ')})` : '';
+  }
+
+  private static printValue(value: unknown): string {
+    if (typeof value === 'number' || typeof value === 'boolean') {
+      return String(value);
+    }
+
+    const text = value === null || value === undefined ? '' : String(value);
+    const isSafeWord = /^[\w][\w.\-@/:+]*$/.test(text) && !KEYWORDS.includes(text.toLowerCase());
+    return isSafeWord ? text : `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+  }
+}
+
+/**
+ * Recursive descent parser for the query language
+ *
+ *   query     := orExpr EOF
+ *   orExpr    := andExpr (OR andExpr)*
+ *   andExpr   := primary (AND primary)*
+ *   primary   := "(" orExpr ")" | condition
+ *   condition := field operator value? textOptions?
+ *   textOptions := "(" option ("," option)* ")"   - text fields only
+ */
+class QueryParser {
+  private tokens: Token[];
+  private index = 0;
+  private text: string;
+  private schema: DataSchema;
+
+  constructor(schema: DataSchema, text: string) {
+    this.schema = schema;
+    this.text = text;
+    this.tokens = this.tokenize(text);
+  }
+
+  parseQuery(): Expression | null {
+    if (this.peek().type === 'eof') return null;
+
+    const expression = this.parseOr();
+    const token = this.peek();
+    if (token.type !== 'eof') {
+      throw new FilterQueryError(
+        token.text === ')' ? 'Unexpected ")" without a matching "("' : `Expected AND or OR but found "${token.text}"`,
+        token.position
+      );
+    }
+    return expression;
+  }
+
+  private parseOr(): Expression {
+    const children = [this.parseAnd()];
+    while (this.isKeyword(this.peek(), 'or')) {
+      this.next();
+      children.push(this.parseAnd());
+    }
+    return this.combine('OR', children);
+  }
+
+  private parseAnd(): Expression {
+    const children = [this.parsePrimary()];
+    while (this.isKeyword(this.peek(), 'and')) {
+      this.next();
+      children.push(this.parsePrimary());
+    }
+    return this.combine('AND', children);
+  }
+
+  private parsePrimary(): Expression {
+    const token = this.peek();
+
+    if (token.type === 'symbol' && token.text === '(') {
+      this.next();
+      if (this.peek().text === ')') {
+        throw new FilterQueryError('Empty parentheses', token.position);
+      }
+      const expression = this.parseOr();
+      const closing = this.peek();
+      if (closing.text !== ')') {
+        throw new FilterQueryError(`Expected ")" to close the "(" at position ${token.position + 1}`, closing.position);
+      }
+      this.next();
+      return expression;
+    }
+
+    return { kind: 'condition', condition: this.parseCondition() };
+  }
+
+  // Nested expressions with the same operator are flattened: A AND (B AND C) is just A AND B AND C
+  private combine(kind: 'AND' | 'OR', children: Expression[]): Expression {
+    if (children.length === 1) return children[0];
+    return {
+      kind,
+      children: children.flatMap(child => (child.kind === kind ? child.children : [child]))
+    };
+  }
+
+  private parseCondition(): FilterCondition {
+    const fieldToken = this.next();
+    if (fieldToken.type === 'eof') {
+      throw new FilterQueryError('Expected a field name', fieldToken.position);
+    }
+    if (fieldToken.type === 'symbol') {
+      throw new FilterQueryError(`Expected a field name but found "${fieldToken.text}"`, fieldToken.position);
+    }
+
+    const field = this.resolveField(fieldToken.text);
+    if (!field) {
+      throw new FilterQueryError(`Unknown field "${fieldToken.text}"`, fieldToken.position);
+    }
+
+    const operatorToken = this.peek();
+    const operator = this.resolveOperator(this.parseOperatorPhrase(), field, operatorToken);
+
+    const condition: FilterCondition = {
+      id: uuidv4(),
+      field: field.key as string,
+      fieldType: field.type,
+      operator,
+      value: null,
+      logicalOperator: 'AND',
+      nestedKey: field.nestedKey
+    };
+
+    const valueToken = this.peek();
+    if (FilterValidator.requiresValue(operator)) {
+      this.parseConditionValue(condition, field);
+      if (field.type === 'text' && this.peek().type === 'symbol' && this.peek().text === '(') {
+        condition.textOptions = this.parseTextOptions(operator);
+      }
+    }
+
+    // Point at the trouble inside a regex pattern, rather than at the field
+    if (operator === 'regex' && valueToken.type !== 'eof') {
+      const problem = RegexPattern.check(String(condition.value), condition.textOptions);
+      if (problem) {
+        throw new FilterQueryError(
+          `${field.label}: ${problem.message}`,
+          problem.position === undefined ? valueToken.position : this.getPositionInToken(valueToken, problem.position)
+        );
+      }
+    }
+
+    const error = FilterValidator.validateCondition(this.schema, condition);
+    if (error) {
+      const message = error.field || error.operator || error.value || error.general;
+      throw new FilterQueryError(`${field.label}: ${message}`, fieldToken.position);
+    }
+
+    return condition;
+  }
+
+  private parseOperatorPhrase(): string {
+    const token = this.peek();
+
+    if (token.type === 'symbol' && ['=', '!=', '>', '<', '>=', '<='].includes(token.text)) {
+      this.next();
+      return token.text;
+    }
+
+    for (const [words, operator] of OPERATOR_PHRASES) {
+      const matches = words.every((word, offset) => {
+        const candidate = this.peek(offset);
+        return candidate.type === 'word' && candidate.text.toLowerCase() === word;
+      });
+      if (matches) {
+        words.forEach(() => this.next());
+        return operator;
+      }
+    }
+
+    throw new FilterQueryError(
+      token.type === 'eof' ? 'Expected an operator' : `Unknown operator "${token.text}"`,
+      token.position
+    );
+  }
+
+  // Map generic operators (=, <, is...) onto the specific operator for the field's type
+  private resolveOperator(phrase: string, field: FieldDefinition, token: Token): Operator {
+    const isSelect = field.type === 'singleSelect' || field.type === 'boolean';
+    const isDate = field.type === 'date';
+
+    const generic: Record<string, string> = {
+      '=': isSelect ? 'is' : 'equals',
+      '!=': 'isNot',
+      '>': isDate ? 'after' : 'greaterThan',
+      '<': isDate ? 'before' : 'lessThan',
+      '>=': 'greaterThanOrEqual',
+      '<=': 'lessThanOrEqual'
+    };
+    const operator = (generic[phrase] || phrase) as Operator;
+
+    if (!field.operators.includes(operator)) {
+      throw new FilterQueryError(`"${token.text}" can't be used with ${field.label}`, token.position);
+    }
+    return operator;
+  }
+
+  private parseConditionValue(condition: FilterCondition, field: FieldDefinition): void {
+    // @field compares against another field of the same record
+    if (this.peek().text === '@' && this.peek().type === 'symbol') {
+      this.next();
+      const refToken = this.next();
+      const other = refToken.type === 'eof' ? undefined : this.resolveField(refToken.text);
+      if (!other) {
+        throw new FilterQueryError(`Unknown field "${refToken.text}" after "@"`, refToken.position);
+      }
+      condition.valueSource = 'field';
+      condition.valueField = other.key as string;
+      return;
+    }
+
+    switch (condition.operator) {
+      case 'between': {
+        const first = this.parseScalar(field);
+        if (!this.isKeyword(this.peek(), 'and')) {
+          throw new FilterQueryError('Expected AND between the two values of "between"', this.peek().position);
+        }
+        this.next();
+        const second = this.parseScalar(field);
+        condition.value = field.type === 'date' ? { from: first, to: second } : { min: first, max: second };
+        return;
+      }
+      case 'inLast':
+      case 'inNext':
+      case 'olderThan': {
+        const amount = this.parseScalar({ ...field, type: 'number' });
+        const unitToken = this.next();
+        const unit = unitToken.text.toLowerCase().replace(/s?$/, 's');
+        if (!['days', 'weeks', 'months'].includes(unit)) {
+          throw new FilterQueryError('Expected days, weeks or months', unitToken.position);
+        }
+        condition.value = { amount, unit };
+        return;
+      }
+      default:
+        if (field.type === 'multiSelect') {
+          condition.value = this.peek().text === '[' ? this.parseList() : [this.parseScalar(field)];
+          return;
+        }
+        condition.value = this.parseScalar(field);
+    }
+  }
+
+  // (case sensitive, ignore accents, collapse spaces, typos 1) - typos only for "similar to", flags only for "matches"
+  private parseTextOptions(operator: Operator): TextMatchOptions {
+    this.next();
+    const options: TextMatchOptions = {};
+
+    for (;;) {
+      const token = this.peek();
+      const phrase = `${token.text} ${this.peek(1).text}`.toLowerCase();
+
+      if (phrase === 'case sensitive') {
+        options.caseSensitive = true;
+      } else if (phrase === 'ignore accents') {
+        options.ignoreDiacritics = true;
+      } else if (phrase === 'collapse spaces') {
+        options.collapseWhitespace = true;
+      } else if (operator === 'fuzzy' && this.isKeyword(token, 'typos')) {
+        const amount = this.peek(1);
+        if (amount.type !== 'word' || !/^\d+$/.test(amount.text)) {
+          throw new FilterQueryError(`Expected a number of typos but found "${amount.text}"`, amount.position);
+        }
+        options.maxDistance = Number(amount.text);
+      } else if (operator === 'regex' && this.isKeyword(token, 'flags')) {
+        const flags = this.peek(1);
+        if (flags.type !== 'word' || ![...flags.text].every(flag => RegexPattern.FLAGS.includes(flag))) {
+          throw new FilterQueryError(
+            `Expected regex flags (${RegexPattern.FLAGS.join(', ')}) but found "${flags.text}"`,
+            flags.position
+          );
+        }
+        options.regexFlags = flags.text;
+      } else {
+        const extra = operator === 'fuzzy' ? ' or typos <number>' : operator === 'regex' ? ' or flags <letters>' : '';
+        const expected = `case sensitive, ignore accents, collapse spaces${extra}`;
+        throw new FilterQueryError(
+          token.type === 'eof' ? `Expected ${expected}` : `Unknown text option "${token.text}" - expected ${expected}`,
+          token.position
+        );
+      }
+      this.next();
+      this.next();
+
+      const separator = this.next();
+      if (separator.text === ')' && separator.type === 'symbol') return options;
+      if (separator.text !== ',' || separator.type !== 'symbol') {
+        throw new FilterQueryError('Expected "," or ")" after a text option', separator.position);
+      }
+    }
+  }
+
+  private parseList(): string[] {
+    const open = this.next();
+    const items: string[] = [];
+
+    while (this.peek().text !== ']') {
+      const token = this.peek();
+      if (token.type === 'eof') {
+        throw new FilterQueryError(`Expected "]" to close the "[" at position ${open.position + 1}`, token.position);
+      }
+      items.push(this.parseWords(true));
+      if (this.peek().text === ',') {
+        this.next();
+      } else if (this.peek().text !== ']') {
+        throw new FilterQueryError('Expected "," or "]"', this.peek().position);
+      }
+    }
+    this.next();
+
+    if (items.length === 0) {
+      throw new FilterQueryError('Expected at least one value in the list', open.position);
+    }
+    return items;
+  }
+
+  // A single value, converted to the type the field expects
+  private parseScalar(field: FieldDefinition): string | number | boolean {
+    const token = this.peek();
+
+    if (field.type === 'number' || field.type === 'amount') {
+      this.next();
+      const number = Number(token.text);
+      if (token.type === 'eof' || token.text === '' || isNaN(number)) {
+        throw new FilterQueryError(`Expected a number but found "${token.text}"`, token.position);
+      }
+      return number;
+    }
+
+    if (field.type === 'boolean') {
+      this.next();
+      const text = token.text.toLowerCase();
+      if (['true', 'yes'].includes(text)) return true;
+      if (['false', 'no'].includes(text)) return false;
+      throw new FilterQueryError(`Expected true or false but found "${token.text}"`, token.position);
+    }
+
+    return this.parseWords(false);
+  }
+
+  // A quoted string, or one or more bare words (so department = Human Resources works without quotes)
+  private parseWords(inList: boolean): string {
+    const first = this.peek();
+    if (first.type === 'string') {
+      this.next();
+      return first.text;
+    }
+    if (first.type !== 'word') {
+      throw new FilterQueryError(
+        first.type === 'eof' ? 'Expected a value' : `Expected a value but found "${first.text}"`,
+        first.position
+      );
+    }
+
+    const words: string[] = [];
+    while (this.peek().type === 'word') {
+      const token = this.peek();
+      // Outside lists, AND/OR end the value; inside lists only "," and "]" do
+      if (!inList && words.length > 0 && (this.isKeyword(token, 'and') || this.isKeyword(token, 'or'))) break;
+      words.push(this.next().text);
+    }
+    return words.join(' ');
+  }
+
+  private resolveField(name: string): FieldDefinition | undefined {
+    const lower = name.toLowerCase();
+    return (
+      this.schema.fields.find(f => f.key.toLowerCase() === lower) ||
+      this.schema.fields.find(f => f.label.toLowerCase() === lower)
+    );
+  }
+
+  private isKeyword(token: Token, keyword: string): boolean {
+    return token.type === 'word' && token.text.toLowerCase() === keyword;
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (this.index < this.tokens.length - 1) this.index++;
+    return token;
+  }
+
+  // Where a character of a token's value is in the query - quoted strings have the quote and escapes to skip
+  private getPositionInToken(token: Token, offset: number): number {
+    if (token.type !== 'string') return token.position + offset;
+
+    let position = token.position + 1;
+    for (let i = 0; i < offset; i++) {
+      position += this.text[position] === '\\' ? 2 : 1;
+    }
+    return position;
+  }
+
+  private tokenize(text: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < text.length) {
+      const char = text[i];
+
+      if (/\s/.test(char)) {
+        i++;
+        continue;
+      }
+
+      // Quoted strings, with backslash escapes for quotes inside them
+      if (char === '"' || char === "'") {
+        const start = i;
+        let value = '';
+        i++;
+        while (i < text.length && text[i] !== char) {
+          if (text[i] === '\\' && i + 1 < text.length) i++;
+          value += text[i];
+          i++;
+        }
+        if (i >= text.length) {
+          throw new FilterQueryError('Unterminated string', start);
+        }
+        i++;
+        tokens.push({ type: 'string', text: value, position: start });
+        continue;
+      }
+
+      // Two-character comparison symbols first, so ">=" isn't read as ">" followed by "="
+      const pair = text.slice(i, i + 2);
+      if (['!=', '>=', '<='].includes(pair)) {
+        tokens.push({ type: 'symbol', text: pair, position: i });
+        i += 2;
+        continue;
+      }
+
+      if ('()[],=<>@'.includes(char)) {
+        tokens.push({ type: 'symbol', text: char, position: i });
+        i++;
+        continue;
+      }
+
+      if (char === '!') {
+        throw new FilterQueryError('Unexpected "!" (did you mean "!="?)', i);
+      }
+
+      const start = i;
+      while (i < text.length && !/\s/.test(text[i]) && !DELIMITERS.includes(text[i])) {
+        i++;
+      }
+      tokens.push({ type: 'word', text: this.text.slice(start, i), position: start });
+    }
+
+    tokens.push({ type: 'eof', text: '', position: text.length });
+    return tokens;
+  }
+}
+
+export default FilterQuery;
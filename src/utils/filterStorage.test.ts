@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { FilterCondition } from '../types';
+import { employeeSchema, getStorageKey } from '../data/schemas';
+import { Clock } from './clock';
+import { FILTER_STATE_VERSION, FILTER_STORAGE_KEY, FilterStorage } from './filterStorage';
+import { condition, engineering, group, state } from './testFixtures';
+
+describe('FilterStorage.restore', () => {
+  beforeEach(() => Clock.set(() => new Date('2024-06-30T12:00:00Z')));
+  afterEach(() => Clock.reset());
+
+  it('loads the current format as is', () => {
+    const result = FilterStorage.restore(employeeSchema, {
+      version: FILTER_STATE_VERSION,
+      savedAt: '2024-06-01T00:00:00Z',
+      filterState: state([engineering])
+    });
+    expect(result).toEqual({ filterState: state([engineering]), repairs: [] });
+  });
+
+  it('migrates a bare version 1 filter state', () => {
+    expect(FilterStorage.restore(employeeSchema, state([engineering]))).toEqual({
+      filterState: state([engineering]),
+      repairs: []
+    });
+  });
+
+  it.each([0, -1, 1.5, Number.NaN])('reports version %s as unreadable instead of crashing', version => {
+    const result = FilterStorage.restore(employeeSchema, { version, filterState: state([engineering]) });
+    expect(result.filterState.conditions).toEqual([]);
+    expect(result.repairs).toEqual(['Your saved filters could not be read and were cleared.']);
+  });
+
+  it('refuses filters saved by a newer version', () => {
+    const result = FilterStorage.restore(employeeSchema, { version: FILTER_STATE_VERSION + 1, filterState: state([engineering]) });
+    expect(result.filterState.conditions).toEqual([]);
+    expect(result.repairs[0]).toMatch(/newer version/);
+  });
+
+  it('reports data that is not an object as unreadable', () => {
+    expect(FilterStorage.restore(employeeSchema, 'nope').repairs).toEqual([
+      'Your saved filters could not be read and were cleared.'
+    ]);
+  });
+});
+
+describe('FilterStorage.repair', () => {
+  it('removes filters on unknown fields and groups left empty', () => {
+    const result = FilterStorage.repair(
+      employeeSchema,
+      state([
+        engineering,
+        group('OR', [{ ...engineering, id: 'team', field: 'team' }])
+      ])
+    );
+    expect(result.filterState.conditions).toEqual([engineering]);
+    expect(result.repairs).toEqual([
+      'Removed the filter on "team" - that field no longer exists.',
+      'Removed a group that had no valid filters left.'
+    ]);
+  });
+
+  it('removes filters with operators the field no longer supports', () => {
+    const result = FilterStorage.repair(employeeSchema, state([{ ...engineering, operator: 'contains' }]));
+    expect(result.filterState.conditions).toEqual([]);
+    expect(result.repairs).toEqual(['Removed the Department filter - "contains" is no longer available for it.']);
+  });
+
+  it('removes filters without an operator', () => {
+    const noOperator = { ...engineering, operator: undefined as unknown as FilterCondition['operator'] };
+    const result = FilterStorage.repair(employeeSchema, state([noOperator]));
+    expect(result.filterState.conditions).toEqual([]);
+    expect(result.repairs).toEqual(['Removed the Department filter - it had no operator.']);
+  });
+
+  it('refreshes outdated field types', () => {
+    const result = FilterStorage.repair(employeeSchema, state([{ ...engineering, fieldType: 'text' }]));
+    expect(result.filterState.conditions).toEqual([engineering]);
+    expect(result.repairs).toEqual(['Updated the Department filter to the field\'s current type.']);
+  });
+
+  it('falls back to a value when a field comparison no longer works', () => {
+    const comparison = condition({ field: 'joinDate', fieldType: 'date', operator: 'before', valueSource: 'field', valueField: 'name' });
+    const result = FilterStorage.repair(employeeSchema, state([comparison]));
+    expect(result.filterState.conditions).toEqual([{ ...comparison, valueSource: 'value', valueField: undefined }]);
+    expect(result.repairs).toHaveLength(1);
+  });
+});
+
+describe('FilterStorage.save and load', () => {
+  beforeEach(() => {
+    const items = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => items.set(key, value)
+    });
+  });
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('round-trips a filter state', () => {
+    FilterStorage.save(employeeSchema, state([engineering]));
+    expect(FilterStorage.load(employeeSchema)).toEqual({ filterState: state([engineering]), repairs: [] });
+  });
+
+  it('returns null when nothing is saved, and clears what cannot be parsed', () => {
+    expect(FilterStorage.load(employeeSchema)).toBeNull();
+    localStorage.setItem(getStorageKey(employeeSchema, FILTER_STORAGE_KEY), '{oops');
+    expect(FilterStorage.load(employeeSchema)?.repairs).toEqual(['Your saved filters could not be read and were cleared.']);
+  });
+});
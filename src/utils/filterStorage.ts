@@ -0,0 +1,196 @@
+import type { DataSchema, FilterCondition, FilterNode, FilterState } from '../types';
+import { getFieldDefinition } from '../data/fieldDefinitions';
+import { getStorageKey } from '../data/schemas';
+import { Clock } from './clock';
+import { FilterTree } from './filterTree';
+import { FilterValidator } from './filterValidator';
+
+// Each dataset saves under its own key - see getStorageKey
+export const FILTER_STORAGE_KEY = 'dynamicFilterState';
+
+/*
+ * Stored format versions
+ *
+ * 1: the bare FilterState (flat conditions at first, nested groups later - both load fine)
+ * 2: an envelope { version, savedAt, filterState }
+ *
+ * To change the format, bump FILTER_STATE_VERSION and add a migration from the previous version.
+ */
+export const FILTER_STATE_VERSION = 2;
+
+export interface PersistedFilterState {
+  version: number;
+  savedAt: string; // ISO timestamp
+  filterState: FilterState;
+}
+
+export interface LoadedFilterState {
+  filterState: FilterState;
+  // What had to be changed to load the stored filters - shown to the user
+  repairs: string[];
+}
+
+const emptyFilterState = (): FilterState => ({ conditions: [], logicalOperator: 'AND' });
+
+const unreadable = (): LoadedFilterState => ({
+  filterState: emptyFilterState(),
+  repairs: ['Your saved filters could not be read and were cleared.']
+});
+
+export class FilterStorage {
+  // migrations[n] turns version n data into version n + 1
+  private static readonly migrations: Record<number, (data: unknown) => unknown> = {
+    1: (state): PersistedFilterState => ({
+      version: 2,
+      savedAt: Clock.now().toISOString(),
+      filterState: state as FilterState
+    })
+  };
+
+  /**
+   * Load the saved filter state of a dataset
+   *
+   * Older formats are migrated, and the result is checked against the schema's current fields:
+   * a filter on a field that no longer exists, or with an operator the field no longer supports,
+   * is removed rather than left to silently match nothing. Every change is listed in `repairs`.
+   * Returns null when nothing is saved.
+   */
+  static load(schema: DataSchema): LoadedFilterState | null {
+    let stored: string | null;
+    try {
+      stored = localStorage.getItem(getStorageKey(schema, FILTER_STORAGE_KEY));
+    } catch {
+      return null;
+    }
+    if (!stored) return null;
+
+    let data: unknown;
+    try {
+      data = JSON.parse(stored);
+    } catch {
+      return unreadable();
+    }
+
+    return this.restore(schema, data);
+  }
+
+  /**
+   * Migrate and repair already-parsed stored data (see load)
+   */
+  static restore(schema: DataSchema, data: unknown): LoadedFilterState {
+    if (!data || typeof data !== 'object') {
+      return unreadable();
+    }
+
+    // Anything without a version number predates the envelope
+    let version = typeof (data as PersistedFilterState).version === 'number' ? (data as PersistedFilterState).version : 1;
+    if (version > FILTER_STATE_VERSION) {
+      return {
+        filterState: emptyFilterState(),
+        repairs: ['Your saved filters were saved by a newer version of the app and could not be loaded.']
+      };
+    }
+
+    // A version we have no migration for (0, negative, 1.5, ...) can't be trusted to hold filters at all
+    if (!Number.isInteger(version) || (version !== FILTER_STATE_VERSION && !this.migrations[version])) {
+      return unreadable();
+    }
+
+    while (version < FILTER_STATE_VERSION) {
+      data = this.migrations[version](data);
+      version++;
+    }
+
+    return this.repair(schema, FilterTree.normalize((data as PersistedFilterState).filterState));
+  }
+
+  /**
+   * Save the filter state in the current format
+   */
+  static save(schema: DataSchema, filterState: FilterState): void {
+    const envelope: PersistedFilterState = {
+      version: FILTER_STATE_VERSION,
+      savedAt: Clock.now().toISOString(),
+      filterState
+    };
+
+    try {
+      localStorage.setItem(getStorageKey(schema, FILTER_STORAGE_KEY), JSON.stringify(envelope));
+    } catch (err) {
+      console.warn('Failed to save filter state to localStorage:', err);
+    }
+  }
+
+  /**
+   * Bring a filter state in line with the schema's current fields
+   *
+   * - Field types and nested keys are refreshed from the field definition
+   * - Filters on unknown fields or with unsupported operators are removed
+   * - Comparisons with a field that no longer works fall back to entering a value
+   * - Groups left empty by the above are removed
+   *
+   * Other value problems (like an empty text box) are left alone - the builder already
+   * shows those to the user, and invalid filters aren't applied anyway.
+   */
+  static repair(schema: DataSchema, filterState: FilterState): LoadedFilterState {
+    const repairs: string[] = [];
+    return {
+      filterState: { ...filterState, conditions: this.repairNodes(schema, filterState.conditions, repairs) },
+      repairs
+    };
+  }
+
+  private static repairNodes(schema: DataSchema, nodes: FilterNode[], repairs: string[]): FilterNode[] {
+    return nodes.flatMap((node): FilterNode[] => {
+      if (FilterTree.isGroup(node)) {
+        const conditions = this.repairNodes(schema, node.conditions, repairs);
+        if (conditions.length === 0 && node.conditions.length > 0) {
+          repairs.push('Removed a group that had no valid filters left.');
+          return [];
+        }
+        return [{ ...node, conditions }];
+      }
+
+      const condition = this.repairCondition(schema, node, repairs);
+      return condition ? [condition] : [];
+    });
+  }
+
+  private static repairCondition(schema: DataSchema, node: FilterCondition, repairs: string[]): FilterCondition | null {
+    // Conditions the user hadn't finished setting up are kept as they are
+    if (!node.field) return node;
+
+    const definition = getFieldDefinition(schema, node.field);
+    if (!definition) {
+      repairs.push(`Removed the filter on "${node.field}" - that field no longer exists.`);
+      return null;
+    }
+
+    const typeChanged = node.fieldType !== definition.type || node.nestedKey !== definition.nestedKey;
+    const condition = { ...node, fieldType: definition.type, nestedKey: definition.nestedKey };
+
+    const errors = FilterValidator.validateCondition(schema, condition);
+    if (errors?.operator) {
+      repairs.push(
+        condition.operator
+          ? `Removed the ${definition.label} filter - "${condition.operator}" is no longer available for it.`
+          : `Removed the ${definition.label} filter - it had no operator.`
+      );
+      return null;
+    }
+    if (typeChanged) {
+      repairs.push(`Updated the ${definition.label} filter to the field's current type.`);
+    }
+
+    if (errors?.value && condition.valueSource === 'field') {
+      repairs.push(
+        `The ${definition.label} filter can no longer compare with "${condition.valueField}" - enter a value instead.`
+      );
+      return { ...condition, valueSource: 'value', valueField: undefined, value: '' };
+    }
+
+    return condition;
+  }
+}
+
+export default FilterStorage;
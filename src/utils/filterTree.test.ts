@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import type { FilterGroup } from '../types';
+import { FilterTree } from './filterTree';
+import { condition, engineering, group, sales } from './testFixtures';
+
+const ids = (nodes: { id: string }[]) => nodes.map(node => node.id);
+
+describe('FilterTree.moveNode', () => {
+  const a = condition({ value: 'a' });
+  const b = condition({ value: 'b' });
+  const nested = group('OR', [engineering, sales]);
+
+  it('moves a node among its siblings', () => {
+    expect(ids(FilterTree.moveNode([a, b, nested], nested.id, 0))).toEqual([nested.id, a.id, b.id]);
+    expect(ids(FilterTree.moveNode([a, b, nested], a.id, 1))).toEqual([b.id, a.id, nested.id]);
+  });
+
+  it('moves inside groups without leaving them', () => {
+    const [moved] = FilterTree.moveNode([nested], sales.id, 0) as [FilterGroup];
+    expect(ids(moved.conditions)).toEqual([sales.id, engineering.id]);
+  });
+
+  it('leaves the tree as it is when moved past either end', () => {
+    const nodes = [a, b];
+    expect(FilterTree.moveNode(nodes, a.id, -1)).toBe(nodes);
+    expect(FilterTree.moveNode(nodes, b.id, 5)).toBe(nodes);
+  });
+});
+
+describe('FilterTree.duplicateNode', () => {
+  it('inserts a copy with new ids right after the original', () => {
+    const nested = group('AND', [engineering]);
+    const [original, copy] = FilterTree.duplicateNode([nested, sales], nested.id) as [FilterGroup, FilterGroup];
+    expect(original).toBe(nested);
+    expect(copy).toMatchObject({ logicalOperator: 'AND', conditions: [{ field: 'department', value: 'Engineering' }] });
+    expect(copy.id).not.toBe(nested.id);
+    expect(copy.conditions[0].id).not.toBe(engineering.id);
+  });
+});
+
+describe('FilterTree enabled conditions', () => {
+  it('treats conditions as enabled unless switched off', () => {
+    expect(FilterTree.isEnabled(engineering)).toBe(true);
+    expect(FilterTree.isEnabled({ ...engineering, enabled: false })).toBe(false);
+  });
+
+  it('drops disabled conditions and groups left without any', () => {
+    const disabled = { ...sales, enabled: false };
+    const nodes = [engineering, group('OR', [disabled]), group('AND', [disabled, engineering]), group('AND', [])];
+    expect(FilterTree.getEnabledNodes(nodes)).toEqual([
+      engineering,
+      { ...nodes[2], conditions: [engineering] },
+      nodes[3]
+    ]);
+  });
+});
@@ -0,0 +1,240 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { EvaluationMode, FilterCondition, FilterGroup, FilterNode, FilterState } from '../types';
+
+export class FilterTree {
+  /**
+   * Check if a node in the filter tree is a group (as opposed to a single condition)
+   */
+  static isGroup(node: FilterNode): node is FilterGroup {
+    return (node as FilterGroup).type === 'group';
+  }
+
+  /**
+   * Create a new, empty filter condition
+   */
+  static createCondition(): FilterCondition {
+    return {
+      id: uuidv4(),
+      field: '',
+      fieldType: 'text',
+      operator: 'equals',
+      value: '',
+      logicalOperator: 'AND'
+    };
+  }
+
+  /**
+   * Create a new group containing a single empty condition, so the user
+   * can start filling it in right away
+   */
+  static createGroup(logicalOperator: 'AND' | 'OR' = 'AND'): FilterGroup {
+    return {
+      id: uuidv4(),
+      type: 'group',
+      logicalOperator,
+      conditions: [this.createCondition()]
+    };
+  }
+
+  /**
+   * Collect every condition in the tree, no matter how deeply it is nested
+   */
+  static getConditions(nodes: FilterNode[]): FilterCondition[] {
+    return nodes.flatMap(node => (this.isGroup(node) ? this.getConditions(node.conditions) : [node]));
+  }
+
+  /**
+   * Find the node with the given id anywhere in the tree
+   */
+  static findNode(nodes: FilterNode[], id: string): FilterNode | undefined {
+    for (const node of nodes) {
+      if (node.id === id) return node;
+      if (this.isGroup(node)) {
+        const found = this.findNode(node.conditions, id);
+        if (found) return found;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Whether a condition takes part in filtering. Conditions are enabled unless switched off explicitly.
+   */
+  static isEnabled(condition: FilterCondition): boolean {
+    return condition.enabled !== false;
+  }
+
+  /**
+   * Get a copy of the tree without the disabled conditions
+   *
+   * A group that only held disabled conditions is dropped as well, so muting every condition
+   * in a group inside an OR doesn't turn it into "match everything".
+   */
+  static getEnabledNodes(nodes: FilterNode[]): FilterNode[] {
+    return this.pruneConditions(nodes, condition => this.isEnabled(condition));
+  }
+
+  /**
+   * Get a copy of the tree with only the conditions that pass the check. Groups that had
+   * conditions but lose all of them are dropped; groups that were empty to begin with stay.
+   */
+  static pruneConditions(nodes: FilterNode[], keep: (condition: FilterCondition) => boolean): FilterNode[] {
+    return nodes.flatMap((node): FilterNode[] => {
+      if (!this.isGroup(node)) return keep(node) ? [node] : [];
+
+      const conditions = this.pruneConditions(node.conditions, keep);
+      if (conditions.length === 0 && node.conditions.length > 0) return [];
+      return [{ ...node, conditions }];
+    });
+  }
+
+  /**
+   * Get the connector that joins a node to its previous sibling in 'chain' mode.
+   * Conditions carry it as logicalOperator, groups as connector (their logicalOperator
+   * is already used for combining their own children).
+   */
+  static getConnector(node: FilterNode): 'AND' | 'OR' {
+    const connector = this.isGroup(node) ? node.connector : node.logicalOperator;
+    return connector === 'OR' ? 'OR' : 'AND';
+  }
+
+  static setConnector(node: FilterNode, connector: 'AND' | 'OR'): FilterNode {
+    return this.isGroup(node) ? { ...node, connector } : { ...node, logicalOperator: connector };
+  }
+
+  /**
+   * Set the connector of every sibling in a list (used when switching into 'chain' mode,
+   * so the chain starts out meaning the same thing as the uniform operator did)
+   */
+  static setAllConnectors(nodes: FilterNode[], connector: 'AND' | 'OR'): FilterNode[] {
+    return nodes.map(node => this.setConnector(node, connector));
+  }
+
+  /**
+   * How a group (or the top-level filter state) combines its children, as a single value
+   * for the "Match" selectors in the builder: ALL (AND), ANY (OR) or per-connector chain.
+   */
+  static getMatchMode(target: FilterState | FilterGroup): 'AND' | 'OR' | 'chain' {
+    return target.evaluationMode === 'chain' ? 'chain' : target.logicalOperator;
+  }
+
+  static setMatchMode<T extends FilterState | FilterGroup>(target: T, matchMode: 'AND' | 'OR' | 'chain'): T {
+    if (matchMode === 'chain') {
+      if (target.evaluationMode === 'chain') return target;
+      return {
+        ...target,
+        evaluationMode: 'chain',
+        conditions: this.setAllConnectors(target.conditions, target.logicalOperator)
+      };
+    }
+    return { ...target, evaluationMode: 'uniform', logicalOperator: matchMode };
+  }
+
+  /**
+   * Replace the node with the given id anywhere in the tree.
+   * Returns a new tree - the original nodes are never mutated.
+   */
+  static updateNode(nodes: FilterNode[], id: string, updatedNode: FilterNode): FilterNode[] {
+    return nodes.map(node => {
+      if (node.id === id) return updatedNode;
+      if (this.isGroup(node)) {
+        return { ...node, conditions: this.updateNode(node.conditions, id, updatedNode) };
+      }
+      return node;
+    });
+  }
+
+  /**
+   * Remove the node with the given id anywhere in the tree
+   */
+  static removeNode(nodes: FilterNode[], id: string): FilterNode[] {
+    return nodes
+      .filter(node => node.id !== id)
+      .map(node => (this.isGroup(node) ? { ...node, conditions: this.removeNode(node.conditions, id) } : node));
+  }
+
+  /**
+   * Insert a copy of the node right after the original. Groups are copied with everything
+   * in them, and every copied node gets a new id.
+   */
+  static duplicateNode(nodes: FilterNode[], id: string): FilterNode[] {
+    return nodes.flatMap(node => {
+      if (node.id === id) return [node, this.copyNode(node)];
+      if (this.isGroup(node)) return [{ ...node, conditions: this.duplicateNode(node.conditions, id) }];
+      return [node];
+    });
+  }
+
+  private static copyNode(node: FilterNode): FilterNode {
+    if (this.isGroup(node)) {
+      return { ...node, id: uuidv4(), conditions: node.conditions.map(child => this.copyNode(child)) };
+    }
+    return { ...node, id: uuidv4() };
+  }
+
+  /**
+   * Move a node to another position among its siblings (nodes don't move between groups).
+   * An index past either end is clamped, so moving the first node up leaves the tree as it is.
+   */
+  static moveNode(nodes: FilterNode[], id: string, toIndex: number): FilterNode[] {
+    const fromIndex = nodes.findIndex(node => node.id === id);
+    if (fromIndex === -1) {
+      return nodes.map(node =>
+        this.isGroup(node) ? { ...node, conditions: this.moveNode(node.conditions, id, toIndex) } : node
+      );
+    }
+
+    const target = Math.max(0, Math.min(toIndex, nodes.length - 1));
+    if (target === fromIndex) return nodes;
+
+    const moved = [...nodes];
+    const [node] = moved.splice(fromIndex, 1);
+    moved.splice(target, 0, node);
+    return moved;
+  }
+
+  /**
+   * Turn whatever was stored (e.g. in localStorage) into a valid filter state.
+   *
+   * Older versions of the app stored a flat list of conditions. Since the filter state
+   * itself is the top-level group, a flat list simply loads as that single group.
+   * Nested groups are normalized recursively so missing fields get sensible defaults.
+   */
+  static normalize(raw: unknown): FilterState {
+    if (!raw || typeof raw !== 'object') {
+      return { conditions: [], logicalOperator: 'AND' };
+    }
+
+    const state = raw as Partial<FilterState>;
+    return {
+      conditions: this.normalizeNodes(state.conditions),
+      logicalOperator: state.logicalOperator === 'OR' ? 'OR' : 'AND',
+      evaluationMode: this.normalizeMode(state.evaluationMode)
+    };
+  }
+
+  private static normalizeMode(mode: unknown): EvaluationMode {
+    return mode === 'chain' ? 'chain' : 'uniform';
+  }
+
+  private static normalizeNodes(rawNodes: unknown): FilterNode[] {
+    if (!Array.isArray(rawNodes)) return [];
+
+    return rawNodes
+      .filter(node => node && typeof node === 'object')
+      .map(node => {
+        if (node.type === 'group') {
+          return {
+            ...node,
+            id: node.id || uuidv4(),
+            logicalOperator: node.logicalOperator === 'OR' ? 'OR' : 'AND',
+            evaluationMode: this.normalizeMode(node.evaluationMode),
+            conditions: this.normalizeNodes(node.conditions)
+          } as FilterGroup;
+        }
+        return { ...node, id: node.id || uuidv4() } as FilterCondition;
+      });
+  }
+}
+
+export default FilterTree;
@@ -1,5 +1,13 @@
-import type { FilterCondition } from '../types';
-import { fieldDefinitions } from '../data/fieldDefinitions';
+import type { DataSchema, FilterCondition, FilterNode } from '../types';
+import {
+  fieldComparisonOperators,
+  areFieldTypesComparable,
+  getFieldDefinition
+} from '../data/fieldDefinitions';
+import { FilterTree } from './filterTree';
+import { RelativeDate } from './relativeDate';
+import { TextMatch } from './textMatch';
+import { RegexPattern } from './regexPattern';
 
 export interface ValidationError {
   field?: string;
@@ -9,6 +17,9 @@ export interface ValidationError {
 }
 
 export class FilterValidator {
+  // Operators that only look at whether the field has a value
+  private static readonly valuelessOperators = ['isEmpty', 'isNotEmpty'];
+
   /**
    * Validate a filter condition
    * 
@@ -16,10 +27,12 @@ export class FilterValidator {
    * 1. A field selected (e.g., "name", "salary")
    * 2. An operator chosen (e.g., "contains", "greater than")
    * 3. A value provided that makes sense for that field type
+   *
+   * The field and operator are checked against the schema's field definitions.
    * 
    * Returns an error object if anything is wrong, or null if everything is valid.
    */
-  static validateCondition(condition: FilterCondition): ValidationError | null {
+  static validateCondition(schema: DataSchema, condition: FilterCondition): ValidationError | null {
     // Step 1: Check if field is selected
     if (!condition.field) {
       return { field: 'Please select a field' };
@@ -31,7 +44,7 @@ export class FilterValidator {
     }
 
     // Step 3: Get field definition to check valid operators
-    const fieldDef = fieldDefinitions.find(f => f.key === condition.field);
+    const fieldDef = getFieldDefinition(schema, condition.field);
     if (!fieldDef) {
       return { field: 'Invalid field selected' };
     }
@@ -42,10 +55,83 @@ export class FilterValidator {
       return { operator: 'Invalid operator for this field type' };
     }
 
-    // Step 5: Validate the actual value (e.g., make sure numbers are valid, dates are valid, etc.)
-    return this.validateValue(condition.fieldType, condition.operator, condition.value);
+    // Step 5: When comparing against another field, that field has to hold the same kind of value
+    if (condition.valueSource === 'field') {
+      return this.validateFieldComparison(schema, condition);
+    }
+
+    // Step 6: Fuzzy matching needs a sensible number of allowed typos
+    const maxDistance = condition.textOptions?.maxDistance;
+    if (
+      condition.operator === 'fuzzy' &&
+      maxDistance !== undefined &&
+      (!Number.isInteger(maxDistance) || maxDistance < 0 || maxDistance > TextMatch.MAX_FUZZY_DISTANCE)
+    ) {
+      return { value: `Allowed typos must be a whole number from 0 to ${TextMatch.MAX_FUZZY_DISTANCE}` };
+    }
+
+    // Step 7: Validate the actual value (e.g., make sure numbers are valid, dates are valid, etc.)
+    // Some operators (like "this quarter") don't take a value at all, so there's nothing to check
+    if (!this.requiresValue(condition.operator)) {
+      return null;
+    }
+    const valueError = this.validateValue(condition.fieldType, condition.operator, condition.value);
+    if (valueError) {
+      return valueError;
+    }
+
+    // Step 8: A regex pattern has to compile, and mustn't be able to hang the page (see RegexPattern)
+    if (condition.operator === 'regex') {
+      const patternError = RegexPattern.validate(String(condition.value), condition.textOptions);
+      if (patternError) {
+        return { value: patternError };
+      }
+    }
+    return null;
   }
 
+  /**
+   * Validate a field-to-field comparison (e.g. "lastReview before joinDate")
+   *
+   * Only comparable types can be compared - a date can be compared with another date,
+   * a salary with the number of projects, but not a name with a join date.
+   */
+  private static validateFieldComparison(schema: DataSchema, condition: FilterCondition): ValidationError | null {
+    if (!fieldComparisonOperators.includes(condition.operator)) {
+      return { operator: 'This operator cannot compare against another field' };
+    }
+
+    if (!condition.valueField) {
+      return { value: 'Please select a field to compare with' };
+    }
+
+    const otherField = getFieldDefinition(schema, condition.valueField);
+    if (!otherField) {
+      return { value: 'Invalid comparison field selected' };
+    }
+
+    if (otherField.key === condition.field) {
+      return { value: 'Please select a different field to compare with' };
+    }
+
+    if (!areFieldTypesComparable(condition.fieldType, otherField.type)) {
+      return { value: `${otherField.label} cannot be compared with this field` };
+    }
+
+    return null;
+  }
+
+  /**
+   * Check if an operator needs a value from the user
+   *
+   * Calendar periods like "this quarter" or "last calendar year" are complete on their own,
+   * and so are isEmpty/isNotEmpty which only look at whether the field has a value.
+   */
+  static requiresValue(operator: string): boolean {
+    return !RelativeDate.periodOperators.includes(operator) && !this.valuelessOperators.includes(operator);
+  }
+
+
   /**
    * Validate condition value based on field type
    * 
@@ -109,7 +195,22 @@ export class FilterValidator {
         break;
 
       case 'date':
-        if (operator === 'between') {
+        if (RelativeDate.amountOperators.includes(operator)) {
+          // Relative dates like "in the last 90 days" need a whole, positive amount and a unit
+          if (!value || typeof value !== 'object') {
+            return { value: 'Amount and unit are required' };
+          }
+          const { amount, unit } = value;
+          if (amount === '' || amount === undefined || amount === null) {
+            return { value: 'Amount is required' };
+          }
+          if (!Number.isInteger(Number(amount)) || Number(amount) <= 0) {
+            return { value: 'Amount must be a whole number greater than 0' };
+          }
+          if (!RelativeDate.units.includes(unit)) {
+            return { value: 'Please select days, weeks or months' };
+          }
+        } else if (operator === 'between') {
           if (!value || typeof value !== 'object') {
             return { value: 'Date range is required' };
           }
@@ -168,13 +269,14 @@ export class FilterValidator {
   }
 
   /**
-   * Validate all filter conditions
+   * Validate all filter conditions, including the ones inside nested groups.
+   * Disabled conditions aren't used, so they can't have errors either.
    */
-  static validateAllConditions(conditions: FilterCondition[]): Map<string, ValidationError> {
+  static validateAllConditions(schema: DataSchema, conditions: FilterNode[]): Map<string, ValidationError> {
     const errors = new Map<string, ValidationError>();
 
-    conditions.forEach(condition => {
-      const error = this.validateCondition(condition);
+    this.getEnabledConditions(conditions).forEach(condition => {
+      const error = this.validateCondition(schema, condition);
       if (error) {
         errors.set(condition.id, error);
       }
@@ -184,10 +286,34 @@ export class FilterValidator {
   }
 
   /**
-   * Check if any conditions have errors
+   * Check if any conditions (at any nesting level) have errors
    */
-  static hasErrors(conditions: FilterCondition[]): boolean {
-    return conditions.some(condition => this.validateCondition(condition) !== null);
+  static hasErrors(schema: DataSchema, conditions: FilterNode[]): boolean {
+    return this.getEnabledConditions(conditions).some(condition => this.validateCondition(schema, condition) !== null);
+  }
+
+  private static getEnabledConditions(conditions: FilterNode[]) {
+    return FilterTree.getConditions(conditions).filter(condition => FilterTree.isEnabled(condition));
+  }
+
+  /**
+   * Get a copy of the filter tree with only the valid conditions
+   *
+   * Invalid and disabled conditions are dropped, and groups that end up with nothing left in them
+   * are dropped too - otherwise an empty group inside an OR would match everything.
+   */
+  static getValidNodes(schema: DataSchema, conditions: FilterNode[]): FilterNode[] {
+    return conditions.reduce<FilterNode[]>((valid, node) => {
+      if (FilterTree.isGroup(node)) {
+        const validChildren = this.getValidNodes(schema, node.conditions);
+        if (validChildren.length > 0) {
+          valid.push({ ...node, conditions: validChildren });
+        }
+      } else if (FilterTree.isEnabled(node) && !this.validateCondition(schema, node)) {
+        valid.push(node);
+      }
+      return valid;
+    }, []);
   }
 }
 
@@ -0,0 +1,48 @@
+export class FuzzySearch {
+  /**
+   * Score how well a query matches a text, or null if it doesn't match at all
+   *
+   * Every character of the query has to appear in the text, in order ("adfl" matches "Add filter").
+   * Matches at the start of a word and runs of consecutive characters score higher,
+   * so "add" ranks "Add filter" above "Load preset: Sales dept".
+   */
+  static score(query: string, text: string): number | null {
+    const q = query.toLowerCase().replace(/\s+/g, '');
+    const t = text.toLowerCase();
+    if (!q) return 0;
+
+    let score = 0;
+    let textIdx = 0;
+    let previousMatch = -2;
+
+    for (const char of q) {
+      const found = t.indexOf(char, textIdx);
+      if (found === -1) return null;
+
+      score += 1;
+      if (found === previousMatch + 1) score += 3; // consecutive
+      if (found === 0 || /[\s:_\-./]/.test(t[found - 1])) score += 5; // start of a word
+
+      previousMatch = found;
+      textIdx = found + 1;
+    }
+
+    // Prefer shorter texts when the match is otherwise the same
+    return score - t.length * 0.01;
+  }
+
+  /**
+   * Keep the items that match the query, best match first
+   */
+  static filter<T>(items: T[], query: string, getText: (item: T) => string): T[] {
+    if (!query.trim()) return items;
+
+    return items
+      .map(item => ({ item, score: this.score(query, getText(item)) }))
+      .filter((entry): entry is { item: T; score: number } => entry.score !== null)
+      .sort((a, b) => b.score - a.score)
+      .map(entry => entry.item);
+  }
+}
+
+export default FuzzySearch;
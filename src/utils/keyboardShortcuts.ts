@@ -0,0 +1,63 @@
+/**
+ * Keyboard shortcuts written as strings, e.g. "Ctrl+Alt+A", "Ctrl+Shift+Z" or "?"
+ *
+ * "Ctrl" also matches Cmd, so every shortcut works the same on Mac. Letters and digits are matched
+ * by physical key (e.code), because with Alt held down Mac keyboards type "å" instead of "a".
+ */
+export class KeyboardShortcuts {
+  static readonly isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.userAgent);
+
+  static matches(event: KeyboardEvent, shortcut: string): boolean {
+    const { key, ctrl, alt, shift } = this.parse(shortcut);
+
+    if (ctrl !== (event.ctrlKey || event.metaKey)) return false;
+    if (alt !== event.altKey) return false;
+
+    if (/^[a-z0-9]$/i.test(key)) {
+      const code = /\d/.test(key) ? `Digit${key}` : `Key${key.toUpperCase()}`;
+      return event.code === code && shift === event.shiftKey;
+    }
+
+    // Symbols like "?" already imply Shift on most layouts, so only named keys check it
+    if (key.length > 1 && shift !== event.shiftKey) return false;
+    return event.key.toLowerCase() === key.toLowerCase();
+  }
+
+  /**
+   * Whether a shortcut uses Ctrl/Cmd or Alt - only those of global commands work while typing in an input
+   */
+  static hasModifier(shortcut: string): boolean {
+    const { ctrl, alt } = this.parse(shortcut);
+    return ctrl || alt;
+  }
+
+  /**
+   * Shortcut as shown to the user - with Mac symbols on a Mac
+   */
+  static format(shortcut: string): string {
+    if (!this.isMac) return shortcut;
+    return shortcut.replace('Ctrl', '⌘').replace('Alt', '⌥').replace('Shift', '⇧').replace(/\+/g, '');
+  }
+
+  /**
+   * Is the user typing somewhere? Then only the modifier shortcuts of global commands may fire.
+   */
+  static isEditableTarget(target: EventTarget | null): boolean {
+    if (!(target instanceof HTMLElement)) return false;
+    return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+  }
+
+  private static parse(shortcut: string) {
+    // "Ctrl++" would be ambiguous, so the key is whatever follows the last modifier
+    const parts = shortcut.split('+');
+    const key = parts.pop() ?? '';
+    return {
+      key,
+      ctrl: parts.includes('Ctrl'),
+      alt: parts.includes('Alt'),
+      shift: parts.includes('Shift')
+    };
+  }
+}
+
+export default KeyboardShortcuts;
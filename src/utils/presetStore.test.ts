@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { FilterPreset } from '../types';
+import { employeeSchema, projectSchema } from '../data/schemas';
+import { Clock } from './clock';
+import { PresetImportError, PresetStore } from './presetStore';
+import { engineering, state } from './testFixtures';
+
+const file = (presets: unknown[], extra: Record<string, unknown> = {}) =>
+  JSON.stringify({ format: 'dynamic-filter-presets', version: 1, presets, ...extra });
+
+describe('PresetStore', () => {
+  beforeEach(() => Clock.set(() => new Date('2024-06-30T12:00:00Z')));
+  afterEach(() => Clock.reset());
+
+  const seed = (): FilterPreset[] => {
+    let presets = PresetStore.savePreset([], 'Engineers', state([engineering]));
+    presets = PresetStore.savePreset(presets, 'Everyone', state([]));
+    return presets;
+  };
+
+  it('replaces the filters of a preset saved under an existing name', () => {
+    const presets = PresetStore.savePreset(seed(), ' engineers ', state([]));
+    expect(presets).toHaveLength(2);
+    expect(presets[0]).toMatchObject({ name: 'Engineers', filterState: state([]) });
+  });
+
+  it('renames a preset, but not onto another preset\'s name', () => {
+    const presets = seed();
+    expect(PresetStore.renamePreset(presets, presets[0].id, 'everyone')).toBe(presets);
+    expect(PresetStore.renamePreset(presets, presets[0].id, 'ENGINEERS')[0].name).toBe('ENGINEERS');
+    expect(PresetStore.renamePreset(presets, presets[0].id, 'Developers')[0].name).toBe('Developers');
+  });
+
+  it('numbers clashing names on import and never imports a default', () => {
+    const presets = seed();
+    const result = PresetStore.importPresets(presets, [{ ...presets[0], isDefault: true }]);
+    expect(result.map(preset => preset.name)).toEqual(['Engineers', 'Everyone', 'Engineers (2)']);
+    expect(result[2].isDefault).toBe(false);
+    expect(result[2].id).not.toBe(presets[0].id);
+  });
+
+  describe('parseFile', () => {
+    it('reads presets of the dataset', () => {
+      const { presets, repairs } = PresetStore.parseFile(
+        employeeSchema,
+        file([{ name: 'Engineers', filterState: state([engineering]) }], { dataset: 'employees' })
+      );
+      expect(presets).toHaveLength(1);
+      expect(presets[0]).toMatchObject({ name: 'Engineers', filterState: state([engineering]), isDefault: false });
+      expect(repairs).toEqual([]);
+    });
+
+    it('accepts files from before the dataset was recorded', () => {
+      expect(PresetStore.parseFile(employeeSchema, file([{ name: 'Engineers', filterState: state([]) }])).presets).toHaveLength(1);
+    });
+
+    it('refuses presets of another dataset', () => {
+      const text = file([{ name: 'Engineers', filterState: state([engineering]) }], { dataset: 'employees' });
+      expect(() => PresetStore.parseFile(projectSchema, text)).toThrow(
+        new PresetImportError('The file holds presets for Employees, not Projects.')
+      );
+    });
+
+    it('repairs imported filters against the current fields', () => {
+      const { presets, repairs } = PresetStore.parseFile(
+        employeeSchema,
+        file([{ name: 'Teams', filterState: state([engineering, { ...engineering, id: 'c2', field: 'team' }]) }])
+      );
+      expect(presets[0].filterState.conditions).toEqual([engineering]);
+      expect(repairs).toEqual(['In "Teams": Removed the filter on "team" - that field no longer exists.']);
+    });
+
+    it('refuses what is not a preset export', () => {
+      expect(() => PresetStore.parseFile(employeeSchema, '{oops')).toThrow('The file is not valid JSON.');
+      expect(() => PresetStore.parseFile(employeeSchema, '{"records":[]}')).toThrow('The file is not a filter preset export.');
+      expect(() => PresetStore.parseFile(employeeSchema, file([], { version: 2 }))).toThrow(/newer version/);
+    });
+  });
+});
@@ -0,0 +1,227 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { DataSchema, FilterPreset, FilterState } from '../types';
+import { dataSchemas, getStorageKey } from '../data/schemas';
+import { Clock } from './clock';
+import { ExportUtil } from './exportUtil';
+import { FilterStorage } from './filterStorage';
+import { FilterTree } from './filterTree';
+
+// Each dataset keeps its own presets - see getStorageKey
+export const PRESET_STORAGE_KEY = 'dynamicFilterPresets';
+
+// Marks a JSON file as a preset collection, so we don't try to import a data export by mistake
+const PRESET_FILE_FORMAT = 'dynamic-filter-presets';
+const PRESET_FILE_VERSION = 1;
+
+export class PresetImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PresetImportError';
+  }
+}
+
+export interface ImportedPresets {
+  presets: FilterPreset[];
+  // Filters that had to be changed to fit the current fields, e.g. 'In "Seniors": Removed the filter on "team" ...'
+  repairs: string[];
+}
+
+/**
+ * Named filter presets
+ *
+ * All operations are immutable - they take the current list and return a new one -
+ * so the React state holding the presets can use them directly.
+ */
+export class PresetStore {
+  /**
+   * Load a dataset's presets from localStorage (an empty list if there are none or they're unreadable)
+   */
+  static load(schema: DataSchema): FilterPreset[] {
+    try {
+      const stored = localStorage.getItem(getStorageKey(schema, PRESET_STORAGE_KEY));
+      return stored ? this.normalizePresets(JSON.parse(stored)) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  static save(schema: DataSchema, presets: FilterPreset[]): void {
+    try {
+      localStorage.setItem(getStorageKey(schema, PRESET_STORAGE_KEY), JSON.stringify(presets));
+    } catch (err) {
+      console.warn('Failed to save filter presets to localStorage:', err);
+    }
+  }
+
+  /**
+   * Save the filters under a name. Saving under an existing name replaces that preset's filters.
+   */
+  static savePreset(presets: FilterPreset[], name: string, filterState: FilterState, description?: string): FilterPreset[] {
+    const now = Clock.now().toISOString();
+    const existing = this.findByName(presets, name);
+
+    if (existing) {
+      return presets.map(preset =>
+        preset.id === existing.id
+          ? { ...preset, filterState, description: description ?? preset.description, updatedAt: now }
+          : preset
+      );
+    }
+
+    return [
+      ...presets,
+      { id: uuidv4(), name: name.trim(), description, filterState, createdAt: now, updatedAt: now }
+    ];
+  }
+
+  /**
+   * Rename a preset. Taking another preset's name is refused (the list comes back unchanged),
+   * since savePreset finds presets by name - PresetDialog tells the user before it gets here.
+   */
+  static renamePreset(presets: FilterPreset[], id: string, name: string, description?: string): FilterPreset[] {
+    const clash = this.findByName(presets, name);
+    if (clash && clash.id !== id) return presets;
+
+    const now = Clock.now().toISOString();
+    return presets.map(preset =>
+      preset.id === id ? { ...preset, name: name.trim(), description, updatedAt: now } : preset
+    );
+  }
+
+  /**
+   * Copy a preset as "<name> (copy)". The copy is never the default.
+   */
+  static duplicatePreset(presets: FilterPreset[], id: string): FilterPreset[] {
+    const original = presets.find(preset => preset.id === id);
+    if (!original) return presets;
+
+    const now = Clock.now().toISOString();
+    const copy: FilterPreset = {
+      ...original,
+      id: uuidv4(),
+      name: this.uniqueName(presets, `${original.name} (copy)`),
+      isDefault: false,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    const index = presets.indexOf(original);
+    return [...presets.slice(0, index + 1), copy, ...presets.slice(index + 1)];
+  }
+
+  static deletePreset(presets: FilterPreset[], id: string): FilterPreset[] {
+    return presets.filter(preset => preset.id !== id);
+  }
+
+  /**
+   * Make a preset the one loaded on start (null clears the default). There is at most one default.
+   */
+  static setDefault(presets: FilterPreset[], id: string | null): FilterPreset[] {
+    return presets.map(preset => ({ ...preset, isDefault: preset.id === id }));
+  }
+
+  static getDefault(presets: FilterPreset[]): FilterPreset | undefined {
+    return presets.find(preset => preset.isDefault);
+  }
+
+  static findByName(presets: FilterPreset[], name: string): FilterPreset | undefined {
+    const normalized = name.trim().toLowerCase();
+    return presets.find(preset => preset.name.toLowerCase() === normalized);
+  }
+
+  /**
+   * Download presets as a JSON file that can be imported again (here or in someone else's browser)
+   */
+  static exportToFile(schema: DataSchema, presets: FilterPreset[]): void {
+    const file = {
+      format: PRESET_FILE_FORMAT,
+      version: PRESET_FILE_VERSION,
+      dataset: schema.id,
+      exportDate: Clock.now().toISOString(),
+      presets
+    };
+
+    const blob = new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+    ExportUtil.downloadFile(blob, `filter-presets-${Date.now()}.json`);
+  }
+
+  /**
+   * Read a dataset's presets from an exported file
+   *
+   * Throws PresetImportError if the file isn't a preset collection or holds another dataset's presets.
+   * Files from before the dataset was written down are accepted. Either way the filters are repaired
+   * against the dataset's current fields, like restored filters (see FilterStorage.repair).
+   */
+  static parseFile(schema: DataSchema, text: string): ImportedPresets {
+    let file: unknown;
+    try {
+      file = JSON.parse(text);
+    } catch {
+      throw new PresetImportError('The file is not valid JSON.');
+    }
+
+    const collection = file as { format?: unknown; version?: unknown; dataset?: unknown; presets?: unknown };
+    if (!collection || collection.format !== PRESET_FILE_FORMAT || !Array.isArray(collection.presets)) {
+      throw new PresetImportError('The file is not a filter preset export.');
+    }
+    if (typeof collection.version !== 'number' || collection.version > PRESET_FILE_VERSION) {
+      throw new PresetImportError('The file was exported by a newer version of the app.');
+    }
+    if (collection.dataset !== undefined && collection.dataset !== schema.id) {
+      const other = dataSchemas.find(candidate => candidate.id === collection.dataset);
+      throw new PresetImportError(`The file holds presets for ${other ? other.label : 'another dataset'}, not ${schema.label}.`);
+    }
+
+    const repairs: string[] = [];
+    const presets = this.normalizePresets(collection.presets).map(preset => {
+      const repaired = FilterStorage.repair(schema, preset.filterState);
+      repairs.push(...repaired.repairs.map(repair => `In "${preset.name}": ${repair}`));
+      return { ...preset, filterState: repaired.filterState };
+    });
+    return { presets, repairs };
+  }
+
+  /**
+   * Add imported presets to the existing ones
+   *
+   * Imported presets always get new ids and never become the default, so an import
+   * can't change what loads on start. Clashing names get a number: "Engineering (2)".
+   */
+  static importPresets(presets: FilterPreset[], imported: FilterPreset[]): FilterPreset[] {
+    return imported.reduce(
+      (result, preset) => [
+        ...result,
+        { ...preset, id: uuidv4(), name: this.uniqueName(result, preset.name), isDefault: false }
+      ],
+      presets
+    );
+  }
+
+  private static uniqueName(presets: FilterPreset[], name: string): string {
+    if (!this.findByName(presets, name)) return name;
+
+    let counter = 2;
+    while (this.findByName(presets, `${name} (${counter})`)) counter++;
+    return `${name} (${counter})`;
+  }
+
+  // Drop anything that isn't a preset, and fill in defaults for missing fields
+  private static normalizePresets(raw: unknown): FilterPreset[] {
+    if (!Array.isArray(raw)) return [];
+
+    const now = Clock.now().toISOString();
+    return raw
+      .filter(preset => preset && typeof preset === 'object' && typeof preset.name === 'string' && preset.name.trim())
+      .map(preset => ({
+        id: typeof preset.id === 'string' ? preset.id : uuidv4(),
+        name: preset.name.trim(),
+        description: typeof preset.description === 'string' && preset.description ? preset.description : undefined,
+        filterState: FilterTree.normalize(preset.filterState),
+        createdAt: typeof preset.createdAt === 'string' ? preset.createdAt : now,
+        updatedAt: typeof preset.updatedAt === 'string' ? preset.updatedAt : now,
+        isDefault: preset.isDefault === true
+      }));
+  }
+}
+
+export default PresetStore;
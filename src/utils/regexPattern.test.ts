@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { RegexPattern } from './regexPattern';
+
+describe('RegexPattern.validate', () => {
+  it('accepts ordinary patterns', () => {
+    for (const pattern of [
+      '^[a-z]+\\.(smith|johnson)@',
+      '(a|b)*',
+      '(\\w|-)+',
+      '^(Mr|Mrs|Ms)\\.? ',
+      '(\\d{1,3}\\.){3}\\d{1,3}',
+      '(?:ab){2}',
+      '(?<n>ab)\\k<n>',
+      'foo.*bar',
+      '\\w+-\\w+-\\w+'
+    ]) {
+      expect(RegexPattern.validate(pattern), pattern).toBeNull();
+    }
+  });
+
+  it('reports syntax errors with their position', () => {
+    expect(RegexPattern.validate('(a')).toBe('Invalid pattern: unterminated group (at position 1)');
+    expect(RegexPattern.validate('(a)(')).toBe('Invalid pattern: unterminated group (at position 4)');
+    expect(RegexPattern.validate('a**')).toBe('Invalid pattern: nothing to repeat (at position 3)');
+    expect(RegexPattern.check('ab)')).toMatchObject({ position: 2 });
+  });
+
+  it('points at the start of a bad quantifier', () => {
+    expect(RegexPattern.check('a{2,1}')).toMatchObject({ position: 1 });
+    expect(RegexPattern.check('xyz{3,2}!')).toMatchObject({ position: 3 });
+  });
+
+  it('refuses repeats of repeats', () => {
+    for (const pattern of ['(a+)+$', '(\\w+\\s?)+$', '(.*a){12}', '^(\\w*){10}!$', '(\\w+){2}', '(a{1,3}){6}', '(x+x+)+y']) {
+      expect(RegexPattern.validate(pattern), pattern).toMatch(/^Unsafe pattern: .* repeats something that already repeats/);
+    }
+  });
+
+  it('refuses repeated alternatives that overlap', () => {
+    expect(RegexPattern.validate('(a|ab)*c')).toMatch(/alternatives that can match the same text/);
+    expect(RegexPattern.validate('(\\d|\\w)+')).toMatch(/alternatives that can match the same text/);
+  });
+
+  it('refuses runs of overlapping unbounded repeats', () => {
+    expect(RegexPattern.validate('^\\w*\\w*\\w*\\w*\\w*\\w*\\w*!$')).toMatch(/repeats in a row/);
+    expect(RegexPattern.validate('.*a.*b.*')).toMatch(/has 3 repeats in a row/);
+    expect(RegexPattern.check('x\\d+\\w*\\w+')).toMatchObject({ position: 1 });
+  });
+
+  it('checks the flags', () => {
+    expect(RegexPattern.validate('\\p{L}+', { regexFlags: 'u' })).toBeNull();
+    expect(RegexPattern.validate('a\\-b', { regexFlags: 'u' })).toBe('Invalid pattern: invalid escape (at position 2)');
+    expect(RegexPattern.validate('x', { regexFlags: 'q' })).toBe('Unknown regex flag "q" - use m, s, u');
+    expect(RegexPattern.validate('x', { regexFlags: 'ss' })).toBe('Each regex flag can only be used once');
+  });
+
+  it('limits the length', () => {
+    expect(RegexPattern.validate('a'.repeat(RegexPattern.MAX_LENGTH + 1))).toMatch(/^Pattern is too long/);
+  });
+});
+
+describe('RegexPattern.compile', () => {
+  it('compiles each pattern once', () => {
+    expect(RegexPattern.compile('^j')).toBe(RegexPattern.compile('^j'));
+    expect(RegexPattern.compile('^j')?.flags).toBe('i');
+    expect(RegexPattern.compile('^j', { caseSensitive: true, regexFlags: 'su' })?.flags).toBe('su');
+  });
+
+  it('returns null for invalid and unsafe patterns', () => {
+    expect(RegexPattern.compile('(a')).toBeNull();
+    expect(RegexPattern.compile('(a+)+$')).toBeNull();
+  });
+
+  it('strips accents from the pattern when they are ignored', () => {
+    expect(RegexPattern.compile('^josé', { ignoreDiacritics: true })?.source).toBe('^jose');
+  });
+
+  it('keeps accepted patterns fast on values that almost match', () => {
+    const value = `${'1'.repeat(60)}!`;
+    const start = performance.now();
+    for (const pattern of ['(\\d{1,3}\\.){3}\\d{1,3}$', '^\\w*\\w*!$', 'foo.*bar', '^(\\d{1,3}){4}$']) {
+      RegexPattern.compile(pattern)?.test(value);
+    }
+    expect(performance.now() - start).toBeLessThan(500);
+  });
+});
@@ -0,0 +1,352 @@
+import type { TextMatchOptions } from '../types';
+import { TextMatch } from './textMatch';
+
+// What's wrong with a pattern, and where if it's one spot
+export interface PatternProblem {
+  message: string;
+  position?: number; // 0-based offset into the pattern
+}
+
+// One piece of a parsed pattern and how often it may repeat, e.g. "\w+" is a character with min 1, max Infinity
+interface Term {
+  atom: Atom;
+  min: number;
+  max: number;
+  start: number; // Where the term is in the pattern, for error messages
+  end: number;
+}
+
+type Atom =
+  | CharAtom
+  | { type: 'group'; alternatives: Term[][] }
+  | { type: 'other' }; // Anchors (^, $, \b) and backreferences - not needed to spot backtracking
+
+// Anything matching one character: a literal, an escape like \d, a [class] or "."
+interface CharAtom {
+  type: 'char';
+  test: (char: string) => boolean;
+  samples: string; // Characters worth trying when checking whether two atoms overlap
+}
+
+/**
+ * Checking and compiling the patterns of the regex operator
+ *
+ * Patterns come straight from the user, so before one is used it has to:
+ * - compile - otherwise validate says what's wrong and where: "unterminated group (at position 4)"
+ * - not be able to hang the page. JavaScript regexes backtrack, and some patterns take exponential
+ *   time on values that almost match - "(\w+\s?)+$" against a long name with a "!" at the end.
+ *   Three shapes cause nearly all of that, so we refuse them:
+ *   - a repeat inside a repeat: (a+)+, (\w+\s?)*, (\w*){10}, (a{1,3}){6} - only a few fixed
+ *     repeats of bounded ones are fine, like the (\d{1,3}\.){3} in an IP address
+ *   - a repeated group whose alternatives can start with the same character: (a|ab)*, (\d|\w)+
+ *   - three or more unbounded repeats in a row that can match the same characters: \w*\w*\w*, .*a.*b.*
+ *
+ * The check is deliberately cautious - a few harmless patterns like (ab+)+ are refused too, and
+ * can always be written another way. Patterns are compiled once and cached (see compile).
+ */
+export class RegexPattern {
+  // Flags users can pick on top of "i", which follows the condition's caseSensitive option
+  static readonly FLAGS = ['m', 's', 'u'];
+  static readonly MAX_LENGTH = 500;
+
+  // {n,m} repeating more than this many times counts as unbounded
+  private static readonly REPEAT_LIMIT = 10;
+  // A group may repeat this many times if what it repeats is bounded, e.g. (\d{1,3}\.){3}
+  private static readonly FEW_REPEATS = 4;
+  // Unbounded repeats in a row that can match the same text take time to the power of their count
+  private static readonly MAX_OVERLAPPING_RUN = 2;
+  private static readonly CACHE_SIZE = 100;
+  private static readonly SAMPLE_CHARS = 'aAzZ09 \t\n_-.,@/:éÉ';
+
+  private static cache = new Map<string, RegExp | null>();
+
+  /**
+   * The RegExp flags for a condition's text options: "i" unless case-sensitive, plus its regexFlags
+   */
+  static getFlags(options: TextMatchOptions = {}): string {
+    return `${options.caseSensitive ? '' : 'i'}${options.regexFlags ?? ''}`;
+  }
+
+  /**
+   * Check a pattern. Returns an error message for the user, or null if the pattern can be used.
+   */
+  static validate(pattern: string, options: TextMatchOptions = {}): string | null {
+    const problem = this.check(pattern, options);
+    if (!problem) return null;
+    return problem.position === undefined ? problem.message : `${problem.message} (at position ${problem.position + 1})`;
+  }
+
+  /**
+   * Like validate, with the position kept apart - so the text query mode can point into the query
+   */
+  static check(pattern: string, options: TextMatchOptions = {}): PatternProblem | null {
+    if (pattern.length > this.MAX_LENGTH) {
+      return { message: `Pattern is too long (${pattern.length} characters, at most ${this.MAX_LENGTH})` };
+    }
+
+    const regexFlags = options.regexFlags ?? '';
+    const unknownFlag = [...regexFlags].find(flag => !this.FLAGS.includes(flag));
+    if (unknownFlag) {
+      return { message: `Unknown regex flag "${unknownFlag}" - use ${this.FLAGS.join(', ')}` };
+    }
+    if (new Set(regexFlags).size !== regexFlags.length) {
+      return { message: 'Each regex flag can only be used once' };
+    }
+
+    const source = this.getSource(pattern, options);
+    const flags = this.getFlags(options);
+    return this.findSyntaxError(source, flags) ?? this.findBacktrackingRisk(source, flags);
+  }
+
+  /**
+   * The RegExp for a pattern, or null if it's invalid or unsafe (so nothing matches it).
+   * Compiled once per pattern and options - filtering calls this for every record.
+   */
+  static compile(pattern: string, options: TextMatchOptions = {}): RegExp | null {
+    const flags = this.getFlags(options);
+    const key = `${flags}${options.ignoreDiacritics ? '+a' : ''}/${pattern}`;
+
+    if (!this.cache.has(key)) {
+      // Patterns are typed one character at a time, so old ones are rarely needed again
+      if (this.cache.size >= this.CACHE_SIZE) this.cache.clear();
+      const regex = this.check(pattern, options) === null ? new RegExp(this.getSource(pattern, options), flags) : null;
+      this.cache.set(key, regex);
+    }
+    return this.cache.get(key) ?? null;
+  }
+
+  // Accent-insensitive matching strips the accents from the value, so the pattern loses them too
+  private static getSource(pattern: string, options: TextMatchOptions): string {
+    return options.ignoreDiacritics ? TextMatch.stripDiacritics(pattern) : pattern;
+  }
+
+  /**
+   * The browser's own syntax error, with the position where the pattern stops making sense:
+   * the end of its longest valid beginning. For "(a" that's the "(" that never gets closed.
+   */
+  private static findSyntaxError(source: string, flags: string): PatternProblem | null {
+    const reason = this.getSyntaxError(source, flags);
+    if (reason === null) return null;
+
+    let validLength = source.length - 1;
+    while (validLength > 0 && this.getSyntaxError(source.slice(0, validLength), flags) !== null) {
+      validLength--;
+    }
+    // A quantifier like {2,1} only fails once it's closed - point at where it starts instead
+    const position = source[validLength] === '}' ? Math.max(source.lastIndexOf('{', validLength), 0) : validLength;
+    return { message: `Invalid pattern: ${reason}`, position };
+  }
+
+  private static getSyntaxError(source: string, flags: string): string | null {
+    try {
+      new RegExp(source, flags);
+      return null;
+    } catch (error) {
+      // V8 repeats the whole pattern: "Invalid regular expression: /(a/i: Unterminated group"
+      const message = (error instanceof Error ? error.message : String(error)).replace(
+        /^Invalid regular expression: \/.*\/\w*: /s,
+        ''
+      );
+      return message.charAt(0).toLowerCase() + message.slice(1);
+    }
+  }
+
+  private static findBacktrackingRisk(source: string, flags: string): PatternProblem | null {
+    const describe = (term: Term) => {
+      const snippet = source.slice(term.start, term.end);
+      return `"${snippet.length > 30 ? `${snippet.slice(0, 30)}...` : snippet}"`;
+    };
+
+    const check = (alternatives: Term[][]): PatternProblem | null => {
+      for (const terms of alternatives) {
+        const run = this.findOverlappingRun(terms);
+        if (run) {
+          const snippet = { ...run[0], end: run[run.length - 1].end };
+          return {
+            message: `Unsafe pattern: ${describe(snippet)} has ${run.length} repeats in a row that can match the same text, which can take forever to run - use fewer, e.g. write \\w*\\w* as \\w* (a leading or trailing .* isn't needed)`,
+            position: run[0].start
+          };
+        }
+      }
+
+      for (const term of alternatives.flat()) {
+        if (term.atom.type !== 'group') continue;
+
+        if (this.repeatsRepeat(term)) {
+          return {
+            message: `Unsafe pattern: ${describe(term)} repeats something that already repeats, which can take forever to run - e.g. write (a+)+ as a+`,
+            position: term.start
+          };
+        }
+        if (this.isUnbounded(term) && this.haveOverlappingAlternatives(term.atom.alternatives)) {
+          return {
+            message: `Unsafe pattern: ${describe(term)} repeats alternatives that can match the same text, which can take forever to run - make them distinct, e.g. write (a|ab)* as (ab?)*`,
+            position: term.start
+          };
+        }
+
+        const nested = check(term.atom.alternatives);
+        if (nested) return nested;
+      }
+      return null;
+    };
+
+    return check(this.parse(source, flags));
+  }
+
+  private static isUnbounded(term: Term): boolean {
+    return term.max > this.REPEAT_LIMIT;
+  }
+
+  /**
+   * Whether a group repeats something that repeats itself. The ways to split a value between the
+   * two multiply, so (\w*){10} is as bad as (\w*)* - only a few repeats of bounded ones are fine.
+   */
+  private static repeatsRepeat(term: Term): boolean {
+    if (term.atom.type !== 'group' || term.max <= 1) return false;
+
+    const inner = this.getInnerRepeats(term.atom.alternatives);
+    if (inner.length === 0) return false;
+    return term.max > this.FEW_REPEATS || inner.some(repeat => this.isUnbounded(repeat));
+  }
+
+  // Everything inside that can match a varying number of times (a+, a*, a{2,5}, but not a? or a{3})
+  private static getInnerRepeats(alternatives: Term[][]): Term[] {
+    return alternatives.flat().flatMap(term => [
+      ...(term.atom.type !== 'other' && term.max > 1 && term.max !== term.min ? [term] : []),
+      ...(term.atom.type === 'group' ? this.getInnerRepeats(term.atom.alternatives) : [])
+    ]);
+  }
+
+  /**
+   * The first run of more than MAX_OVERLAPPING_RUN unbounded character repeats in a sequence that can
+   * all match the same characters - like \w*\w*\w* or .*a.*b.*, where "a" and "b" can be taken by
+   * either ".*" around them. Trying every way to split a value between them is what takes the time.
+   */
+  private static findOverlappingRun(terms: Term[]): Term[] | null {
+    let run: Term[] = [];
+    let between: CharAtom[] = []; // What came since the last repeat in the run
+
+    let last: CharAtom | null = null; // The last repeat in the run
+
+    for (const term of terms) {
+      const { atom } = term;
+      if (atom.type === 'char' && this.isUnbounded(term)) {
+        const previous = last;
+        const joins =
+          previous !== null &&
+          this.charsOverlap(previous, atom) &&
+          between.every(other => this.charsOverlap(other, atom) || this.charsOverlap(other, previous));
+        run = joins ? [...run, term] : [term];
+        last = atom;
+        between = [];
+        if (run.length > this.MAX_OVERLAPPING_RUN) return run;
+      } else if (term.atom.type === 'char') {
+        between.push(term.atom);
+      } else if (term.atom.type === 'group') {
+        // Groups are checked on their own - one in between ends the run
+        run = [];
+        between = [];
+        last = null;
+      }
+    }
+    return null;
+  }
+
+  private static haveOverlappingAlternatives(alternatives: Term[][]): boolean {
+    const firsts = alternatives.map(terms => this.getFirstChars(terms));
+    return firsts.some((atoms, i) =>
+      firsts.slice(i + 1).some(others => atoms.some(a => others.some(b => this.charsOverlap(a, b))))
+    );
+  }
+
+  // The atoms an alternative can start with - optional terms and anchors let the next one start it too
+  private static getFirstChars(terms: Term[]): CharAtom[] {
+    const firsts: CharAtom[] = [];
+    for (const term of terms) {
+      if (term.atom.type === 'char') firsts.push(term.atom);
+      if (term.atom.type === 'group') firsts.push(...term.atom.alternatives.flatMap(alt => this.getFirstChars(alt)));
+      if (term.atom.type !== 'other' && term.min > 0) break;
+    }
+    return firsts;
+  }
+
+  private static charsOverlap(a: CharAtom, b: CharAtom): boolean {
+    return [...`${this.SAMPLE_CHARS}${a.samples}${b.samples}`].some(char => a.test(char) && b.test(char));
+  }
+
+  /**
+   * Split a (valid) pattern into terms, enough to see what repeats and what's inside it
+   */
+  private static parse(source: string, flags: string): Term[][] {
+    let pos = 0;
+
+    const parseAlternatives = (): Term[][] => {
+      const alternatives: Term[][] = [[]];
+      while (pos < source.length && source[pos] !== ')') {
+        if (source[pos] === '|') {
+          pos++;
+          alternatives.push([]);
+          continue;
+        }
+        const start = pos;
+        const atom = parseAtom();
+        const [min, max] = parseQuantifier();
+        alternatives[alternatives.length - 1].push({ atom, min, max, start, end: pos });
+      }
+      return alternatives;
+    };
+
+    const parseAtom = (): Atom => {
+      const rest = source.slice(pos);
+
+      if (rest[0] === '(') {
+        // (?:...), lookarounds and (?<name>...) are analysed like plain groups
+        pos += /^\((?:\?(?::|=|!|<=|<!|<[^>]*>))?/.exec(rest)![0].length;
+        const alternatives = parseAlternatives();
+        pos++; // The closing ")"
+        return { type: 'group', alternatives };
+      }
+
+      if (rest[0] === '^' || rest[0] === '$') {
+        pos++;
+        return { type: 'other' };
+      }
+
+      const reference = /^\\(?:[1-9]\d*|k<[^>]*>|[bB])/.exec(rest);
+      if (reference) {
+        pos += reference[0].length;
+        return { type: 'other' };
+      }
+
+      const text =
+        /^\[(?:\\.|[^\]\\])*\]/s.exec(rest)?.[0] ??
+        /^\\(?:u\{[\da-fA-F]+\}|u[\da-fA-F]{4}|x[\da-fA-F]{2}|c[a-zA-Z]|[pP]\{[^}]*\}|.)/s.exec(rest)?.[0] ??
+        String.fromCodePoint(rest.codePointAt(0)!);
+      pos += text.length;
+      return this.createCharAtom(text, flags);
+    };
+
+    const parseQuantifier = (): [number, number] => {
+      const match = /^(?:([*+?])|\{(\d+)(,(\d*))?\})\??/.exec(source.slice(pos));
+      if (!match) return [1, 1];
+      pos += match[0].length;
+
+      const [, symbol, min, comma, max] = match;
+      if (symbol === '*') return [0, Infinity];
+      if (symbol === '+') return [1, Infinity];
+      if (symbol === '?') return [0, 1];
+      return [Number(min), comma ? (max ? Number(max) : Infinity) : Number(min)];
+    };
+
+    return parseAlternatives();
+  }
+
+  private static createCharAtom(text: string, flags: string): CharAtom {
+    // The text came out of a valid pattern, so it compiles on its own with the same flags
+    const regex = new RegExp(`^(?:${text})$`, flags.replace('m', ''));
+    return { type: 'char', test: char => regex.test(char), samples: text.replace(/\\/g, '') };
+  }
+}
+
+export default RegexPattern;
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { RelativeDate, type DateRange } from './relativeDate';
+
+// Local dates, like the ones getRange works with
+const day = (text: string) => RelativeDate.parseDate(text)!;
+const days = (range: DateRange) => ({
+  from: range.from && RelativeDate.formatDate(range.from),
+  to: range.to && RelativeDate.formatDate(range.to)
+});
+
+const midday = new Date(2024, 5, 30, 12);
+
+describe('RelativeDate.getRange', () => {
+  it('covers whole days, up to the end of today', () => {
+    expect(days(RelativeDate.getRange('inLast', { amount: 7, unit: 'days' }, midday))).toEqual({
+      from: '2024-06-23',
+      to: '2024-07-01'
+    });
+    expect(days(RelativeDate.getRange('inNext', { amount: 2, unit: 'weeks' }, midday))).toEqual({
+      from: '2024-06-30',
+      to: '2024-07-15'
+    });
+    expect(days(RelativeDate.getRange('olderThan', { amount: 3, unit: 'months' }, midday))).toEqual({
+      from: undefined,
+      to: '2024-03-30'
+    });
+  });
+
+  it('clamps months to the end of shorter months', () => {
+    const endOfMay = new Date(2024, 4, 31, 9);
+    expect(days(RelativeDate.getRange('inLast', { amount: 3, unit: 'months' }, endOfMay)).from).toBe('2024-02-29');
+    expect(days(RelativeDate.getRange('inNext', { amount: 1, unit: 'months' }, endOfMay)).to).toBe('2024-07-01');
+    expect(days(RelativeDate.getRange('olderThan', { amount: 15, unit: 'months' }, endOfMay)).to).toBe('2023-02-28');
+  });
+
+  it('resolves calendar periods', () => {
+    expect(days(RelativeDate.getRange('thisQuarter', null, midday))).toEqual({ from: '2024-04-01', to: '2024-07-01' });
+    expect(days(RelativeDate.getRange('thisQuarter', null, new Date(2024, 11, 31, 23)))).toEqual({
+      from: '2024-10-01',
+      to: '2025-01-01'
+    });
+    expect(days(RelativeDate.getRange('lastCalendarYear', null, midday))).toEqual({ from: '2023-01-01', to: '2024-01-01' });
+  });
+});
+
+describe('RelativeDate.isInRange', () => {
+  it('includes the start and excludes the end', () => {
+    const range = RelativeDate.getRange('inLast', { amount: 7, unit: 'days' }, midday);
+    expect(RelativeDate.isInRange(day('2024-06-23'), range)).toBe(true);
+    expect(RelativeDate.isInRange(day('2024-06-22'), range)).toBe(false);
+    expect(RelativeDate.isInRange(new Date(2024, 5, 30, 23, 59), range)).toBe(true);
+    expect(RelativeDate.isInRange(day('2024-07-01'), range)).toBe(false);
+  });
+});
+
+describe('RelativeDate.parseDate', () => {
+  it('reads date-only strings as local midnight', () => {
+    expect(RelativeDate.parseDate('2024-01-15')).toEqual(new Date(2024, 0, 15));
+    expect(RelativeDate.formatDate(day('2024-01-15'))).toBe('2024-01-15');
+  });
+
+  it('returns null for missing and unreadable values', () => {
+    expect(RelativeDate.parseDate('')).toBeNull();
+    expect(RelativeDate.parseDate(undefined)).toBeNull();
+    expect(RelativeDate.parseDate('not a date')).toBeNull();
+  });
+});
@@ -0,0 +1,123 @@
+import type { RelativeDateUnit, RelativeDateValue } from '../types';
+import { Clock } from './clock';
+
+export interface DateRange {
+  from?: Date; // inclusive
+  to?: Date;   // exclusive
+}
+
+export class RelativeDate {
+  // Operators whose value is an amount + unit, e.g. "in the last 90 days"
+  static readonly amountOperators = ['inLast', 'inNext', 'olderThan'];
+
+  // Operators that describe a fixed calendar period and need no value at all
+  static readonly periodOperators = ['thisQuarter', 'lastCalendarYear'];
+
+  static readonly units: RelativeDateUnit[] = ['days', 'weeks', 'months'];
+
+  static isRelativeOperator(operator: string): boolean {
+    return this.amountOperators.includes(operator) || this.periodOperators.includes(operator);
+  }
+
+  /**
+   * Resolve a relative operator into an absolute date range, as seen from "now"
+   *
+   * Ranges work on whole days: "in the last 7 days" on June 30th covers June 23rd
+   * through the end of June 30th. This keeps saved filters like "reviewed in the last 90 days"
+   * meaningful - they move along with the calendar instead of going stale.
+   */
+  static getRange(operator: string, value: RelativeDateValue | null, now: Date = Clock.now()): DateRange {
+    const today = this.startOfDay(now);
+    const tomorrow = this.addDays(today, 1);
+
+    switch (operator) {
+      case 'inLast':
+        return { from: this.shift(today, value, -1), to: tomorrow };
+      case 'inNext':
+        return { from: today, to: this.addDays(this.shift(today, value, 1), 1) };
+      case 'olderThan':
+        return { to: this.shift(today, value, -1) };
+      case 'thisQuarter': {
+        const quarterStartMonth = Math.floor(today.getMonth() / 3) * 3;
+        return {
+          from: new Date(today.getFullYear(), quarterStartMonth, 1),
+          to: new Date(today.getFullYear(), quarterStartMonth + 3, 1)
+        };
+      }
+      case 'lastCalendarYear':
+        return {
+          from: new Date(today.getFullYear() - 1, 0, 1),
+          to: new Date(today.getFullYear(), 0, 1)
+        };
+      default:
+        return {};
+    }
+  }
+
+  /**
+   * Check if a date falls inside a range (from inclusive, to exclusive)
+   */
+  static isInRange(date: Date, range: DateRange): boolean {
+    if (range.from && date < range.from) return false;
+    if (range.to && date >= range.to) return false;
+    return true;
+  }
+
+  /**
+   * Parse a date value from a record
+   *
+   * Date-only strings like "2024-01-15" are parsed as local midnight rather than UTC
+   * (which is what new Date() does), otherwise day boundaries shift by the timezone offset.
+   */
+  static parseDate(value: unknown): Date | null {
+    if (value === null || value === undefined || value === '') return null;
+
+    const match = typeof value === 'string' ? /^(\d{4})-(\d{2})-(\d{2})$/.exec(value) : null;
+    const date = match
+      ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]))
+      : new Date(value as string | number | Date);
+
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  /**
+   * Format a date as YYYY-MM-DD in local time (the format dates are stored in)
+   */
+  static formatDate(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+
+  private static shift(date: Date, value: RelativeDateValue | null, direction: 1 | -1): Date {
+    const amount = Number(value?.amount) * direction;
+
+    switch (value?.unit) {
+      case 'weeks':
+        return this.addDays(date, amount * 7);
+      case 'months':
+        return this.addMonths(date, amount);
+      case 'days':
+      default:
+        return this.addDays(date, amount);
+    }
+  }
+
+  private static startOfDay(date: Date): Date {
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  }
+
+  private static addDays(date: Date, days: number): Date {
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+  }
+
+  // Adding a month to Jan 31st should give Feb 28th/29th, not March 2nd/3rd
+  private static addMonths(date: Date, months: number): Date {
+    const target = new Date(date.getFullYear(), date.getMonth() + months, 1);
+    const lastDay = new Date(target.getFullYear(), target.getMonth() + 1, 0).getDate();
+    target.setDate(Math.min(date.getDate(), lastDay));
+    return target;
+  }
+}
+
+export default RelativeDate;
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import type { FilterState } from '../types';
+import { FilterQuery } from './filterQuery';
+import { employeeSchema } from '../data/schemas';
+import { ShareLink, type ShareableState } from './shareLink';
+
+const filterState = (query: string): FilterState => FilterQuery.parse(employeeSchema, query);
+
+const shareable = (overrides: Partial<ShareableState> = {}): ShareableState => ({
+  datasetId: 'employees',
+  filterState: { conditions: [], logicalOperator: 'AND' },
+  sortState: { field: null, order: 'asc' },
+  currentPage: 1,
+  itemsPerPage: ShareLink.defaultPageSize,
+  ...overrides
+});
+
+const roundTrip = (state: ShareableState) => ShareLink.decode(`?${ShareLink.encode(state)}`);
+
+describe('ShareLink', () => {
+  it('leaves defaults out of the link', () => {
+    expect(ShareLink.encode(shareable()).toString()).toBe('');
+    expect(ShareLink.decode('?p=2')).toBeNull();
+    expect(ShareLink.toUrl('https://example.test/app?foo=1#top', shareable({ datasetId: 'projects' }))).toBe(
+      'https://example.test/app?foo=1&d=projects&v=1#top'
+    );
+  });
+
+  it('round-trips filters, sort and paging', () => {
+    const query = 'department = Engineering AND (salary > 100000 OR name contains "van der") AND lastReview before @joinDate';
+    const decoded = roundTrip(
+      shareable({
+        filterState: filterState(query),
+        sortState: { field: 'salary', order: 'desc' },
+        currentPage: 2,
+        itemsPerPage: 10
+      })
+    );
+    expect(decoded?.warnings).toEqual([]);
+    expect(decoded?.state).toMatchObject({
+      datasetId: 'employees',
+      sortState: { field: 'salary', order: 'desc' },
+      currentPage: 2,
+      itemsPerPage: 10
+    });
+    expect(FilterQuery.print(decoded!.state.filterState!)).toBe(query);
+  });
+
+  it('keeps text options, disabled conditions and chain connectors', () => {
+    const state: FilterState = {
+      logicalOperator: 'AND',
+      evaluationMode: 'chain',
+      conditions: [
+        { id: 'c1', field: 'name', fieldType: 'text', operator: 'fuzzy', value: 'jose', textOptions: { ignoreDiacritics: true, maxDistance: 1 } },
+        { id: 'c2', field: 'isActive', fieldType: 'boolean', operator: 'is', value: 'true', logicalOperator: 'OR', enabled: false }
+      ]
+    };
+    const decoded = roundTrip(shareable({ filterState: state }))?.state.filterState;
+    expect(decoded?.evaluationMode).toBe('chain');
+    expect(decoded?.conditions).toMatchObject([
+      { field: 'name', fieldType: 'text', operator: 'fuzzy', value: 'jose', textOptions: { ignoreDiacritics: true, maxDistance: 1 } },
+      { field: 'isActive', fieldType: 'boolean', operator: 'is', value: 'true', logicalOperator: 'OR', enabled: false }
+    ]);
+  });
+
+  it('skips what does not match the fields, with a warning for each', () => {
+    expect(ShareLink.decode('?v=1&s=foo&p=0&n=7')).toEqual({
+      state: { datasetId: 'employees' },
+      warnings: ['Can\'t sort by unknown field "foo".', 'Page size 7 is not supported.', 'Page "0" is not a valid page number.']
+    });
+  });
+
+  it('ignores links it cannot read', () => {
+    expect(ShareLink.decode('?v=2&p=3')?.warnings).toEqual([
+      'This link was made by an unsupported version of the app (v2) and was ignored.'
+    ]);
+    expect(ShareLink.decode('?v=1&d=nope')?.state).toEqual({});
+    expect(ShareLink.decode('?v=1&f=%%%')).toEqual({
+      state: { datasetId: 'employees' },
+      warnings: ['The filters in this link are damaged and could not be loaded.']
+    });
+  });
+});
@@ -0,0 +1,348 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { DataSchema, FilterCondition, FilterGroup, FilterNode, FilterState, Operator, SortState, TextMatchOptions } from '../types';
+import { fieldComparisonOperators, getComparableFields, getFieldDefinition } from '../data/fieldDefinitions';
+import { dataSchemas } from '../data/schemas';
+import { FilterTree } from './filterTree';
+
+/**
+ * Everything a shared link restores: the dataset, its filters and how the table was sorted and paged
+ */
+export interface ShareableState {
+  datasetId: string; // See dataSchemas - the first one is the default and is left out of the link
+  filterState: FilterState;
+  sortState: SortState;
+  currentPage: number;
+  itemsPerPage: number;
+}
+
+export interface DecodedShareLink {
+  state: Partial<ShareableState>;
+  // Human-readable notes about parts of the link that could not be restored
+  warnings: string[];
+}
+
+/*
+ * Compact filter format (version 1)
+ *
+ * Ids, field types and nested keys are left out - they're regenerated or looked up from
+ * the dataset's fields on load - and defaults (AND, uniform mode) are omitted.
+ *   group:     { o?: 'OR', m?: 'chain', c?: 'OR', n: [...nodes] }   (o = match, m = mode, c = connector)
+ *   condition: [field, operator, value?, { f?: valueField, c?: 'OR', d?: 1, t?: textOptions }?]   (d = disabled)
+ *   textOptions: { s?: 1, a?: 1, w?: 1, k?: number, r?: string }   (case-sensitive, ignore accents, collapse whitespace, max typos, regex flags)
+ */
+type CompactCondition = [string, string, unknown?, CompactConditionExtras?];
+
+interface CompactConditionExtras {
+  f?: string;
+  c?: 'OR';
+  d?: 1;
+  t?: CompactTextOptions;
+}
+
+interface CompactTextOptions {
+  s?: 1;
+  a?: 1;
+  w?: 1;
+  k?: number;
+  r?: string;
+}
+
+interface CompactGroup {
+  o?: 'OR';
+  m?: 'chain';
+  c?: 'OR';
+  n: CompactNode[];
+}
+
+type CompactNode = CompactCondition | CompactGroup;
+
+const PARAMS = {
+  version: 'v',
+  dataset: 'd',
+  filter: 'f',
+  sort: 's',
+  page: 'p',
+  pageSize: 'n'
+};
+
+export class ShareLink {
+  static readonly version = 1;
+
+  // Must match the "Items per page" options in DataTable
+  static readonly pageSizes = [5, 10, 20, 30, 50, 60];
+
+  static readonly defaultPageSize = 5;
+
+  /**
+   * Build the URL for a state, keeping the rest of the base URL (path, other params, hash) as is
+   *
+   * Only non-default values are written, so an empty filter on page 1 gives a clean URL:
+   *   ?v=1&f=eyJuIjpbWyJkZXBhcnRtZW50IiwiaXMiLCJFbmdpbmVlcmluZyJdXX0&s=-salary&p=2&n=10
+   */
+  static toUrl(baseUrl: string, state: ShareableState): string {
+    const url = new URL(baseUrl);
+    Object.values(PARAMS).forEach(param => url.searchParams.delete(param));
+
+    const params = this.encode(state);
+    params.forEach((value, key) => url.searchParams.set(key, value));
+
+    return url.toString();
+  }
+
+  /**
+   * Encode a state as query parameters
+   */
+  static encode(state: ShareableState): URLSearchParams {
+    const params = new URLSearchParams();
+
+    if (state.datasetId !== dataSchemas[0].id) {
+      params.set(PARAMS.dataset, state.datasetId);
+    }
+    if (state.filterState.conditions.length > 0) {
+      const compact = this.compactGroup(
+        state.filterState.conditions,
+        state.filterState.logicalOperator,
+        state.filterState.evaluationMode
+      );
+      params.set(PARAMS.filter, this.toBase64Url(JSON.stringify(compact)));
+    }
+    if (state.sortState.field) {
+      params.set(PARAMS.sort, `${state.sortState.order === 'desc' ? '-' : ''}${state.sortState.field}`);
+    }
+    if (state.currentPage > 1) {
+      params.set(PARAMS.page, String(state.currentPage));
+    }
+    if (state.itemsPerPage !== this.defaultPageSize) {
+      params.set(PARAMS.pageSize, String(state.itemsPerPage));
+    }
+
+    // Only versioned if there is something to read back
+    if ([...params.keys()].length > 0) {
+      params.set(PARAMS.version, String(this.version));
+    }
+    return params;
+  }
+
+  /**
+   * Read a state back from a query string (e.g. window.location.search)
+   *
+   * Returns null when the URL has no shared state. Anything that doesn't check out against
+   * the dataset's fields - an unknown field, an operator the field doesn't support - is left out
+   * and reported in `warnings`, and the rest of the link still loads.
+   */
+  static decode(search: string): DecodedShareLink | null {
+    const params = new URLSearchParams(search);
+    const version = params.get(PARAMS.version);
+    if (version === null) return null;
+
+    if (Number(version) !== this.version) {
+      return { state: {}, warnings: [`This link was made by an unsupported version of the app (v${version}) and was ignored.`] };
+    }
+
+    const state: Partial<ShareableState> = {};
+    const warnings: string[] = [];
+
+    const datasetId = params.get(PARAMS.dataset);
+    const schema = datasetId === null ? dataSchemas[0] : dataSchemas.find(s => s.id === datasetId);
+    if (!schema) {
+      return { state: {}, warnings: [`This link is for an unknown dataset "${datasetId}" and was ignored.`] };
+    }
+    state.datasetId = schema.id;
+
+    const filter = params.get(PARAMS.filter);
+    if (filter) {
+      try {
+        const compact = JSON.parse(this.fromBase64Url(filter));
+        if (!this.isCompactGroup(compact)) throw new Error('Not a filter group');
+
+        state.filterState = {
+          conditions: this.expandNodes(schema, compact.n, warnings),
+          logicalOperator: compact.o === 'OR' ? 'OR' : 'AND',
+          evaluationMode: compact.m === 'chain' ? 'chain' : 'uniform'
+        };
+      } catch {
+        warnings.push('The filters in this link are damaged and could not be loaded.');
+      }
+    }
+
+    const sort = params.get(PARAMS.sort);
+    if (sort) {
+      const field = sort.replace(/^-/, '');
+      if (getFieldDefinition(schema, field)) {
+        state.sortState = { field, order: sort.startsWith('-') ? 'desc' : 'asc' };
+      } else {
+        warnings.push(`Can't sort by unknown field "${field}".`);
+      }
+    }
+
+    const pageSize = params.get(PARAMS.pageSize);
+    if (pageSize) {
+      if (this.pageSizes.includes(Number(pageSize))) {
+        state.itemsPerPage = Number(pageSize);
+      } else {
+        warnings.push(`Page size ${pageSize} is not supported.`);
+      }
+    }
+
+    const page = params.get(PARAMS.page);
+    if (page) {
+      if (Number.isInteger(Number(page)) && Number(page) > 0) {
+        state.currentPage = Number(page);
+      } else {
+        warnings.push(`Page "${page}" is not a valid page number.`);
+      }
+    }
+
+    return { state, warnings };
+  }
+
+  private static compactGroup(
+    nodes: FilterNode[],
+    logicalOperator: 'AND' | 'OR',
+    evaluationMode?: FilterState['evaluationMode'],
+    connector?: 'AND' | 'OR'
+  ): CompactGroup {
+    return {
+      ...(logicalOperator === 'OR' && { o: 'OR' as const }),
+      ...(evaluationMode === 'chain' && { m: 'chain' as const }),
+      ...(connector === 'OR' && { c: 'OR' as const }),
+      n: nodes.map(node => this.compactNode(node))
+    };
+  }
+
+  private static compactNode(node: FilterNode): CompactNode {
+    if (FilterTree.isGroup(node)) {
+      return this.compactGroup(node.conditions, node.logicalOperator, node.evaluationMode, node.connector);
+    }
+
+    const extras: CompactConditionExtras = {
+      ...(node.valueSource === 'field' && node.valueField && { f: node.valueField }),
+      ...(node.logicalOperator === 'OR' && { c: 'OR' as const }),
+      ...(!FilterTree.isEnabled(node) && { d: 1 as const }),
+      ...(node.textOptions && this.compactTextOptions(node.textOptions))
+    };
+    // The value is irrelevant when comparing against another field
+    const compact: CompactCondition = [node.field, node.operator, extras.f ? null : node.value ?? null];
+    if (Object.keys(extras).length > 0) compact.push(extras);
+    return compact;
+  }
+
+  private static compactTextOptions(options: TextMatchOptions): Pick<CompactConditionExtras, 't'> {
+    const compact: CompactTextOptions = {
+      ...(options.caseSensitive && { s: 1 as const }),
+      ...(options.ignoreDiacritics && { a: 1 as const }),
+      ...(options.collapseWhitespace && { w: 1 as const }),
+      ...(options.maxDistance !== undefined && { k: options.maxDistance }),
+      ...(options.regexFlags && { r: options.regexFlags })
+    };
+    return Object.keys(compact).length > 0 ? { t: compact } : {};
+  }
+
+  private static expandTextOptions(compact: unknown): TextMatchOptions | undefined {
+    if (!compact || typeof compact !== 'object') return undefined;
+    const { s, a, w, k, r } = compact as CompactTextOptions;
+    return {
+      ...(s === 1 && { caseSensitive: true }),
+      ...(a === 1 && { ignoreDiacritics: true }),
+      ...(w === 1 && { collapseWhitespace: true }),
+      ...(typeof k === 'number' && { maxDistance: k }),
+      ...(typeof r === 'string' && r && { regexFlags: r })
+    };
+  }
+
+  private static expandNodes(schema: DataSchema, compactNodes: unknown[], warnings: string[]): FilterNode[] {
+    return compactNodes.flatMap(compact => {
+      const node = this.expandNode(schema, compact, warnings);
+      return node ? [node] : [];
+    });
+  }
+
+  private static expandNode(schema: DataSchema, compact: unknown, warnings: string[]): FilterNode | null {
+    if (this.isCompactGroup(compact)) {
+      const conditions = this.expandNodes(schema, compact.n, warnings);
+      // A group whose conditions were all dropped has nothing left to say
+      if (conditions.length === 0 && compact.n.length > 0) return null;
+
+      const group: FilterGroup = {
+        id: uuidv4(),
+        type: 'group',
+        logicalOperator: compact.o === 'OR' ? 'OR' : 'AND',
+        evaluationMode: compact.m === 'chain' ? 'chain' : 'uniform',
+        connector: compact.c === 'OR' ? 'OR' : 'AND',
+        conditions
+      };
+      return group;
+    }
+
+    if (!Array.isArray(compact) || typeof compact[0] !== 'string' || typeof compact[1] !== 'string') {
+      warnings.push('A damaged filter in this link was skipped.');
+      return null;
+    }
+
+    const [field, rawOperator, value, extras] = compact as CompactCondition;
+    const operator = rawOperator as Operator;
+    const connector = extras?.c === 'OR' ? 'OR' : 'AND';
+    const disabled = extras?.d === 1 ? { enabled: false } : {};
+
+    // A condition the user hadn't picked a field for yet
+    if (field === '') {
+      return { ...FilterTree.createCondition(), logicalOperator: connector, ...disabled };
+    }
+
+    const definition = getFieldDefinition(schema, field);
+    if (!definition) {
+      warnings.push(`Unknown field "${field}" - that filter was skipped.`);
+      return null;
+    }
+    if (!definition.operators.includes(operator)) {
+      warnings.push(`"${operator}" can't be used with ${definition.label} - that filter was skipped.`);
+      return null;
+    }
+
+    const condition: FilterCondition = {
+      id: uuidv4(),
+      field: definition.key,
+      fieldType: definition.type,
+      operator,
+      value: value ?? null,
+      nestedKey: definition.nestedKey,
+      logicalOperator: connector,
+      ...disabled
+    };
+
+    const textOptions = definition.type === 'text' ? this.expandTextOptions(extras?.t) : undefined;
+    if (textOptions) condition.textOptions = textOptions;
+
+    if (extras?.f) {
+      const canCompare = fieldComparisonOperators.includes(operator) &&
+        getComparableFields(schema, field).some(f => f.key === extras.f);
+      if (!canCompare) {
+        warnings.push(`${definition.label} can't be compared with "${extras.f}" - that filter was skipped.`);
+        return null;
+      }
+      condition.valueSource = 'field';
+      condition.valueField = extras.f;
+    }
+
+    return condition;
+  }
+
+  private static isCompactGroup(value: unknown): value is CompactGroup {
+    return !!value && typeof value === 'object' && !Array.isArray(value) && Array.isArray((value as CompactGroup).n);
+  }
+
+  // base64url keeps the link short (URL-encoded JSON roughly triples in size) and survives chat apps
+  private static toBase64Url(text: string): string {
+    const bytes = new TextEncoder().encode(text);
+    const binary = Array.from(bytes, byte => String.fromCharCode(byte)).join('');
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  }
+
+  private static fromBase64Url(encoded: string): string {
+    const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+    const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='));
+    return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+  }
+}
+
+export default ShareLink;
@@ -0,0 +1,43 @@
+import type { DataSchema, SortState } from '../types';
+import { getFieldValue } from '../data/fieldDefinitions';
+
+export class SortUtil {
+  /**
+   * Sort records by a field (including nested and computed fields)
+   *
+   * Used by both the DataTable (client mode) and the mock search API (server mode),
+   * so a table sorted either way comes out in exactly the same order.
+   * Missing values always go last, regardless of the sort direction.
+   */
+  static sortRecords<T>(schema: DataSchema<T>, data: T[], sortState: SortState): T[] {
+    if (!sortState.field) return data; // If no sort field selected, return data as-is
+
+    const field = sortState.field;
+    return [...data].sort((a, b) => {
+      const aVal = getFieldValue(schema, a, field);
+      const bVal = getFieldValue(schema, b, field);
+
+      // Handle null/undefined
+      if (aVal == null && bVal == null) return 0;
+      if (aVal == null) return 1;
+      if (bVal == null) return -1;
+
+      // Handle different types
+      if (typeof aVal === 'number' && typeof bVal === 'number') {
+        return sortState.order === 'asc' ? aVal - bVal : bVal - aVal;
+      }
+
+      // String comparison
+      const aStr = String(aVal).toLowerCase();
+      const bStr = String(bVal).toLowerCase();
+
+      if (sortState.order === 'asc') {
+        return aStr.localeCompare(bStr);
+      } else {
+        return bStr.localeCompare(aStr);
+      }
+    });
+  }
+}
+
+export default SortUtil;
@@ -0,0 +1,35 @@
+import type { FilterCondition, FilterGroup, FilterState } from '../types';
+
+/**
+ * Shared building blocks for the tests: conditions, groups and filter states without the noise
+ *
+ * Ids are numbered per test file (c1, g2, ...), so they're stable but never collide.
+ */
+
+let nextId = 0;
+
+// A "name contains" condition unless the props say otherwise
+export const condition = (props: Partial<FilterCondition>): FilterCondition => ({
+  id: `c${++nextId}`,
+  field: 'name',
+  fieldType: 'text',
+  operator: 'contains',
+  value: '',
+  ...props
+});
+
+export const group = (logicalOperator: 'AND' | 'OR', conditions: FilterGroup['conditions']): FilterGroup => ({
+  id: `g${++nextId}`,
+  type: 'group',
+  logicalOperator,
+  conditions
+});
+
+export const state = (conditions: FilterState['conditions'], logicalOperator: 'AND' | 'OR' = 'AND'): FilterState => ({
+  conditions,
+  logicalOperator,
+  evaluationMode: 'uniform'
+});
+
+export const engineering = condition({ field: 'department', fieldType: 'singleSelect', operator: 'is', value: 'Engineering' });
+export const sales = condition({ field: 'department', fieldType: 'singleSelect', operator: 'is', value: 'Sales' });
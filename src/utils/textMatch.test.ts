@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { employeeSchema } from '../data/schemas';
+import { employeeData } from '../data/employees';
+import { FilterEngine } from './filterEngine';
+import { condition } from './testFixtures';
+import { TextMatch } from './textMatch';
+
+describe('TextMatch.editDistance', () => {
+  it.each([
+    ['kitten', 'sitting', 3],
+    ['john', 'jhon', 1],
+    ['', 'abc', 3],
+    ['same', 'same', 0]
+  ])('from %s to %s is %i', (a, b, distance) => {
+    expect(TextMatch.editDistance(a, b)).toBe(distance);
+  });
+
+  it('stops once the distance is over the limit', () => {
+    expect(TextMatch.editDistance('kitten', 'sitting', 1)).toBe(2);
+    expect(TextMatch.editDistance('a', 'abcdef', 2)).toBe(3);
+  });
+});
+
+describe('TextMatch.fuzzyMatches', () => {
+  it('allows typos in the whole value or in a run of its words', () => {
+    expect(TextMatch.fuzzyMatches('john smith', 'jon smth')).toBe(true);
+    expect(TextMatch.fuzzyMatches('dr. john smith jr.', 'jon smith')).toBe(true);
+    expect(TextMatch.fuzzyMatches('john smith', 'jane smith', 1)).toBe(false);
+  });
+
+  it('allows fewer typos in short queries', () => {
+    expect(TextMatch.getAllowedDistance('ab', 2)).toBe(0);
+    expect(TextMatch.fuzzyMatches('bob', 'rob')).toBe(true);
+    expect(TextMatch.fuzzyMatches('bo', 'ro')).toBe(false);
+    expect(TextMatch.fuzzyMatches('anything', '  ')).toBe(false);
+  });
+});
+
+describe('TextMatch.normalize', () => {
+  it('applies the text options', () => {
+    expect(TextMatch.normalize('  José  García ')).toBe('  josé  garcía ');
+    expect(TextMatch.normalize('  José  García ', { ignoreDiacritics: true, collapseWhitespace: true })).toBe('jose garcia');
+    expect(TextMatch.normalize('José', { caseSensitive: true })).toBe('José');
+  });
+
+  it('is what text conditions compare with', () => {
+    const [first] = employeeData;
+    const records = [{ ...first, name: 'José  García' }];
+    const named = (props: Parameters<typeof condition>[0]) =>
+      FilterEngine.applyFilters(employeeSchema, records, [condition({ field: 'name', ...props })]).length;
+    expect(named({ operator: 'equals', value: 'jose garcia' })).toBe(0);
+    const loosely = { ignoreDiacritics: true, collapseWhitespace: true };
+    expect(named({ operator: 'equals', value: 'jose garcia', textOptions: loosely })).toBe(1);
+    expect(named({ operator: 'fuzzy', value: 'jose garsia', textOptions: { ignoreDiacritics: true } })).toBe(1);
+  });
+});
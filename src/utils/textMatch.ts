@@ -0,0 +1,95 @@
+import type { TextMatchOptions } from '../types';
+
+/**
+ * Text comparison helpers behind the text operators
+ *
+ * By default text is compared case-insensitively and otherwise as written. A condition's
+ * textOptions can change that:
+ * - caseSensitive: "react" no longer matches "React"
+ * - ignoreDiacritics: "Jose" matches "José" (accents and other marks are dropped on both sides)
+ * - collapseWhitespace: leading/trailing spaces are ignored and runs of spaces count as one
+ *
+ * The fuzzy operator allows typos: it matches when the query is within maxDistance edits
+ * (insert, delete, change or swap two neighbouring characters) of the value or of any run
+ * of as many words in it - so "jon smth" matches "John Smith" and "Dr. John Smith Jr.".
+ */
+export class TextMatch {
+  static readonly DEFAULT_FUZZY_DISTANCE = 2;
+  static readonly MAX_FUZZY_DISTANCE = 5;
+
+  /**
+   * Apply the options to a text so it can be compared with another normalized text
+   */
+  static normalize(text: string, options: TextMatchOptions = {}): string {
+    let result = text;
+    if (options.ignoreDiacritics) result = this.stripDiacritics(result);
+    if (options.collapseWhitespace) result = result.trim().replace(/\s+/g, ' ');
+    if (!options.caseSensitive) result = result.toLowerCase();
+    return result;
+  }
+
+  static stripDiacritics(text: string): string {
+    return text.normalize('NFD').replace(/\p{M}/gu, '');
+  }
+
+  /**
+   * Edits allowed for a fuzzy query: the configured distance, but never more than a third of
+   * the query's length - otherwise a short word would match nearly anything
+   */
+  static getAllowedDistance(query: string, maxDistance = this.DEFAULT_FUZZY_DISTANCE): number {
+    return Math.min(maxDistance, Math.floor(query.replace(/\s/g, '').length / 3));
+  }
+
+  /**
+   * Whether a (normalized) value fuzzily matches a (normalized) query
+   */
+  static fuzzyMatches(value: string, query: string, maxDistance = this.DEFAULT_FUZZY_DISTANCE): boolean {
+    const queryWords = query.trim().split(/\s+/).filter(Boolean);
+    if (queryWords.length === 0) return false;
+
+    const target = queryWords.join(' ');
+    const allowed = this.getAllowedDistance(target, maxDistance);
+    const words = value.trim().split(/\s+/).filter(Boolean);
+
+    const candidates = [words.join(' ')];
+    for (let i = 0; i + queryWords.length <= words.length; i++) {
+      candidates.push(words.slice(i, i + queryWords.length).join(' '));
+    }
+    return candidates.some(candidate => this.editDistance(candidate, target, allowed) <= allowed);
+  }
+
+  /**
+   * Edit distance between two texts, counting a swap of neighbouring characters as one edit.
+   * Stops early once the distance is known to be over `limit` (and then returns limit + 1).
+   */
+  static editDistance(a: string, b: string, limit = Infinity): number {
+    if (Math.abs(a.length - b.length) > limit) return limit + 1;
+
+    // Three rows are enough: the current one, the previous one, and the one before for swaps
+    let before: number[] = [];
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      let rowMin = i;
+      for (let j = 1; j <= b.length; j++) {
+        const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+        let distance = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+        if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+          distance = Math.min(distance, before[j - 2] + 1);
+        }
+        current.push(distance);
+        rowMin = Math.min(rowMin, distance);
+      }
+      if (rowMin > limit) return limit + 1;
+      before = previous;
+      previous = current;
+    }
+    return previous[b.length];
+  }
+
+  static hasOptions(options: TextMatchOptions | undefined): boolean {
+    return !!options && (!!options.caseSensitive || !!options.ignoreDiacritics || !!options.collapseWhitespace);
+  }
+}
+
+export default TextMatch;
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { employeeSchema } from '../data/schemas';
+import { employeeData } from '../data/employees';
+import { TextSearch } from './textSearch';
+
+const [first, second] = employeeData;
+const person = (id: number, name: string, role: string, city: string) => ({
+  ...first,
+  id,
+  name,
+  email: `${id}@example.com`,
+  role,
+  skills: [],
+  address: { ...first.address, city }
+});
+
+describe('TextSearch.parse', () => {
+  it('splits words, phrases and exclusions', () => {
+    expect(TextSearch.parse('React  "San   Francisco" -intern -"part time" "unclosed')).toEqual({
+      terms: ['react', 'san francisco', 'unclosed'],
+      exclusions: ['intern', 'part time']
+    });
+  });
+
+  it('ignores what is left empty', () => {
+    expect(TextSearch.parse(' - "" ')).toEqual({ terms: [], exclusions: [] });
+    expect(TextSearch.isEmpty(' - "" ')).toBe(true);
+  });
+});
+
+describe('TextSearch.search', () => {
+  it('needs every term somewhere, and none of the exclusions', () => {
+    const records = [
+      person(1, 'Ann Lee', 'Developer', 'Oslo'),
+      person(2, 'Bo Lee', 'Intern', 'Oslo'),
+      person(3, 'Cy Lee', 'Developer', 'Rome')
+    ];
+    expect(TextSearch.search(employeeSchema, records, 'lee oslo -intern').map(e => e.id)).toEqual([1]);
+  });
+
+  it('ranks exact matches over prefixes over later words', () => {
+    const records = [
+      person(1, 'Ana Mariana', 'Developer', 'Oslo'),
+      person(2, 'Marianne', 'Developer', 'Oslo'),
+      person(3, 'Mari', 'Developer', 'Oslo')
+    ];
+    expect(TextSearch.search(employeeSchema, records, 'mari').map(e => e.id)).toEqual([3, 2, 1]);
+  });
+
+  it('weighs earlier search fields more', () => {
+    const records = [person(1, 'Ann', 'Developer', 'Paris'), person(2, 'Paris', 'Developer', 'Oslo')];
+    expect(TextSearch.search(employeeSchema, records, 'paris').map(e => e.id)).toEqual([2, 1]);
+  });
+
+  it('returns the records as they are for an empty query', () => {
+    expect(TextSearch.search(employeeSchema, [first, second], '  ')).toEqual([first, second]);
+  });
+});
+
+describe('TextSearch.highlight', () => {
+  it('marks every occurrence of the terms', () => {
+    expect(TextSearch.highlight('Anna Hanna', 'ann -hanna')).toEqual([
+      { text: 'Ann', match: true },
+      { text: 'a H', match: false },
+      { text: 'ann', match: true },
+      { text: 'a', match: false }
+    ]);
+  });
+});
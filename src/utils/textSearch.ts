@@ -0,0 +1,148 @@
+import type { DataSchema } from '../types';
+import { getFieldValue } from '../data/fieldDefinitions';
+
+// A search query split into what has to match and what must not
+export interface ParsedSearch {
+  terms: string[]; // Words and "quoted phrases" - every one has to match
+  exclusions: string[]; // -word or -"phrase" - records matching any of these are left out
+}
+
+// A piece of a cell's text, for highlighting
+export interface TextSegment {
+  text: string;
+  match: boolean;
+}
+
+/**
+ * Quick search across several fields at once
+ *
+ * The query is split on spaces, so every word has to appear somewhere in the searched
+ * fields (case-insensitive) - not necessarily in the same one. On top of that:
+ * - "quoted phrases" have to appear as written, spaces and all
+ * - -word and -"some phrase" leave out records containing them
+ *
+ *   TextSearch.search(schema, records, 'react "san francisco" -intern')
+ *
+ * Results are ranked: a field equal to a word scores highest, then fields starting with it,
+ * then a word inside the field starting with it, then any other match. Matches in fields
+ * earlier in schema.searchFields count for more (a name beats a city). Ties keep their order.
+ */
+export class TextSearch {
+  static parse(query: string): ParsedSearch {
+    const parsed: ParsedSearch = { terms: [], exclusions: [] };
+
+    // -"phrase" / "phrase" (an unclosed quote runs to the end), or a plain word
+    for (const [, negated, phrase, word] of query.matchAll(/(-?)"([^"]*)"?|(\S+)/g)) {
+      let term = (phrase ?? word).trim().replace(/\s+/g, ' ').toLowerCase();
+      let exclude = negated === '-';
+      if (word?.startsWith('-')) {
+        term = term.slice(1);
+        exclude = true;
+      }
+      if (!term) continue;
+      (exclude ? parsed.exclusions : parsed.terms).push(term);
+    }
+
+    return parsed;
+  }
+
+  static isEmpty(query: string): boolean {
+    const { terms, exclusions } = this.parse(query);
+    return terms.length === 0 && exclusions.length === 0;
+  }
+
+  /**
+   * The searched fields for a schema - its searchFields, or every text and select field
+   */
+  static getSearchFields<T>(schema: DataSchema<T>): string[] {
+    return (
+      schema.searchFields ??
+      schema.fields
+        .filter(field => !field.compute && ['text', 'singleSelect', 'multiSelect'].includes(field.type))
+        .map(field => field.key)
+    );
+  }
+
+  /**
+   * The records matching the query, best match first. An empty query returns them all, in order.
+   */
+  static search<T>(schema: DataSchema<T>, records: T[], query: string): T[] {
+    const parsed = this.parse(query);
+    if (parsed.terms.length === 0 && parsed.exclusions.length === 0) return records;
+
+    const fields = this.getSearchFields(schema);
+    return records
+      .flatMap((record, index) => {
+        const score = this.score(this.getTexts(schema, record, fields), parsed);
+        return score === null ? [] : [{ record, score, index }];
+      })
+      .sort((a, b) => b.score - a.score || a.index - b.index)
+      .map(({ record }) => record);
+  }
+
+  /**
+   * Split a text into matching and non-matching pieces, so the matches can be highlighted.
+   * Only the terms are highlighted - excluded words never appear in the results anyway.
+   */
+  static highlight(text: string, query: string): TextSegment[] {
+    const { terms } = this.parse(query);
+    const lower = text.toLowerCase();
+
+    // Mark every character covered by a term, then join runs of the same kind
+    const marked = new Array<boolean>(text.length).fill(false);
+    terms.forEach(term => {
+      for (let at = lower.indexOf(term); at !== -1; at = lower.indexOf(term, at + term.length)) {
+        marked.fill(true, at, at + term.length);
+      }
+    });
+
+    const segments: TextSegment[] = [];
+    marked.forEach((match, i) => {
+      const last = segments[segments.length - 1];
+      if (last && last.match === match) last.text += text[i];
+      else segments.push({ text: text[i], match });
+    });
+    return segments;
+  }
+
+  // The lower-cased values of the searched fields, one list per field (array fields have several)
+  private static getTexts<T>(schema: DataSchema<T>, record: T, fields: string[]): string[][] {
+    return fields.map(key => {
+      const value = getFieldValue(schema, record, key);
+      const items = Array.isArray(value) ? value : [value];
+      return items.filter(item => item !== null && item !== undefined).map(item => String(item).toLowerCase());
+    });
+  }
+
+  // Relevance of a record, or null if it doesn't match
+  private static score(texts: string[][], { terms, exclusions }: ParsedSearch): number | null {
+    const all = texts.flat();
+    if (exclusions.some(exclusion => all.some(text => text.includes(exclusion)))) return null;
+
+    let total = 0;
+    for (const term of terms) {
+      let best = 0;
+      texts.forEach((values, fieldIdx) => {
+        // Earlier fields weigh more: 2 for the first, down towards 1 for the last
+        const weight = 1 + (texts.length - fieldIdx) / texts.length;
+        values.forEach(value => {
+          best = Math.max(best, this.matchQuality(value, term) * weight);
+        });
+      });
+      if (best === 0) return null;
+      total += best;
+    }
+    return total;
+  }
+
+  private static matchQuality(value: string, term: string): number {
+    if (value === term) return 8;
+    if (value.startsWith(term)) return 4;
+
+    const index = value.indexOf(term);
+    if (index === -1) return 0;
+    return /[\s\-_.@/]/.test(value[index - 1]) ? 2 : 1;
+  }
+}
+
+export default TextSearch;
@@ -0,0 +1,67 @@
+import type { DataSchema, Operator, SuggestionRequest, ValueSuggestion } from '../types';
+import { getFieldValue } from '../data/fieldDefinitions';
+
+/**
+ * Value suggestions for text conditions
+ *
+ * Offers the distinct values a field has in the records that match what's been typed so far,
+ * the same way the condition would match them (case-insensitive):
+ * - startsWith: values starting with the query
+ * - endsWith: values ending with it
+ * - everything else: values containing it
+ * Ranked exact match first, then values starting with the query, then values with a word
+ * starting with it, then the rest - and within each, the most common values first.
+ *
+ * regex gets no suggestions - a pattern isn't a value, so the input stays free-form.
+ *
+ * Used in the browser and by the mock API's suggestions endpoint, so both rank the same way.
+ */
+export class ValueSuggestions {
+  static readonly DEFAULT_LIMIT = 8;
+
+  private static readonly suggestingOperators: Operator[] = ['equals', 'contains', 'notContains', 'startsWith', 'endsWith'];
+
+  static supports(operator: Operator): boolean {
+    return this.suggestingOperators.includes(operator);
+  }
+
+  static suggest<T>(schema: DataSchema<T>, records: T[], request: SuggestionRequest): ValueSuggestion[] {
+    const { field, operator, limit = this.DEFAULT_LIMIT } = request;
+    if (!this.supports(operator)) return [];
+
+    const counts = new Map<string, number>();
+    records.forEach(record => {
+      const value = getFieldValue(schema, record, field);
+      const items = Array.isArray(value) ? value : [value];
+      items.forEach(item => {
+        if (item === null || item === undefined || item === '') return;
+        counts.set(String(item), (counts.get(String(item)) ?? 0) + 1);
+      });
+    });
+
+    const query = request.query.trim().toLowerCase();
+    const matches = Array.from(counts).flatMap(([value, count]) => {
+      const rank = this.rank(value.toLowerCase(), query, operator);
+      return rank === null ? [] : [{ value, count, rank }];
+    });
+
+    return matches
+      .sort((a, b) => a.rank - b.rank || b.count - a.count || a.value.localeCompare(b.value))
+      .slice(0, limit)
+      .map(({ value, count }) => ({ value, count }));
+  }
+
+  // Lower is better, null means the value doesn't match the query for this operator
+  private static rank(value: string, query: string, operator: Operator): number | null {
+    if (value === query) return 0;
+    if (operator === 'endsWith') return value.endsWith(query) ? 1 : null;
+    if (value.startsWith(query)) return 1;
+    if (operator === 'startsWith') return null;
+
+    const index = value.indexOf(query);
+    if (index === -1) return null;
+    return /[\s\-_.@/]/.test(value[index - 1]) ? 2 : 3;
+  }
+}
+
+export default ValueSuggestions;